@@ -0,0 +1,51 @@
+import {SubtitleClock} from "./subtitleClock";
+
+/**
+ * Synchronizes the subtitle with a clock. The `timeupdate` event of media elements is only fired every 250 ms or so,
+ * which shows and hides subtitles too late. Frame accurate clocks notify every presented frame. Other clocks are
+ * polled in a `requestAnimationFrame` loop while playing.
+ */
+export class ClockSync {
+    private readonly clock: SubtitleClock;
+    private readonly onTime: (time: number) => void;
+    private animationFrameHandle?: number;
+
+    /**
+     * Creates and starts the sync.
+     * @param clock The clock to sync to.
+     * @param onTime Is called with the current clock time in seconds on every frame and after every clock change.
+     */
+    public constructor(clock: SubtitleClock, onTime: (time: number) => void) {
+        this.clock = clock;
+        this.onTime = onTime;
+        clock.addChangeListener(this.onClockChange);
+        this.startLoop();
+    }
+
+    private onClockChange = (time: number): void => {
+        this.onTime(time);
+        this.startLoop();
+    }
+
+    private startLoop(): void {
+        if (this.clock.frameAccurate || !this.clock.playing || this.animationFrameHandle !== undefined) return;
+        this.animationFrameHandle = requestAnimationFrame(this.onAnimationFrame);
+    }
+
+    private onAnimationFrame = (): void => {
+        this.onTime(this.clock.currentTime);
+        // The loop stops with the clock. It is restarted by the next clock change.
+        this.animationFrameHandle = this.clock.playing ? requestAnimationFrame(this.onAnimationFrame) : undefined;
+    }
+
+    /**
+     * Stops the sync.
+     */
+    public dispose(): void {
+        this.clock.removeChangeListener(this.onClockChange);
+        if (this.animationFrameHandle !== undefined) {
+            cancelAnimationFrame(this.animationFrameHandle);
+            this.animationFrameHandle = undefined;
+        }
+    }
+}
@@ -0,0 +1,92 @@
+import {SubtitleClock} from "./subtitleClock";
+
+/**
+ * A clock that is advanced by the application, e.g. by a WebCodecs based player or a custom media pipeline. While
+ * playing, the time is extrapolated from the last update with the playback rate.
+ */
+export class ManualClock implements SubtitleClock {
+    private readonly listeners: ((time: number) => void)[] = [];
+    private time: number = 0;
+    private updated: number = 0;
+    private $playing: boolean = false;
+    private $playbackRate: number = 1;
+
+    public readonly frameAccurate: boolean = false;
+
+    public get currentTime(): number {
+        if (!this.$playing) return this.time;
+        return this.time + (ManualClock.now() - this.updated) / 1000 * this.$playbackRate;
+    }
+
+    public get playing(): boolean {
+        return this.$playing;
+    }
+
+    /**
+     * Gets the factor the time is extrapolated with while playing.
+     */
+    public get playbackRate(): number {
+        return this.$playbackRate;
+    }
+
+    /**
+     * Sets the factor the time is extrapolated with while playing.
+     * @param playbackRate The new playback rate.
+     */
+    public set playbackRate(playbackRate: number) {
+        this.setTime(this.currentTime);
+        this.$playbackRate = playbackRate;
+    }
+
+    /**
+     * Sets the current time and notifies the listeners, e.g. for every presented frame or after seeking.
+     * @param time The new time in seconds.
+     */
+    public setTime(time: number): void {
+        this.time = time;
+        this.updated = ManualClock.now();
+        this.notify(time);
+    }
+
+    /**
+     * Starts advancing the time from the current time.
+     */
+    public play(): void {
+        if (this.$playing) return;
+        this.$playing = true;
+        this.setTime(this.time);
+    }
+
+    /**
+     * Stops advancing the time at the current time.
+     */
+    public pause(): void {
+        if (!this.$playing) return;
+        const time = this.currentTime;
+        this.$playing = false;
+        this.setTime(time);
+    }
+
+    public seek(time: number): void {
+        this.setTime(time);
+    }
+
+    public addChangeListener(listener: (time: number) => void): void {
+        this.listeners.push(listener);
+    }
+
+    public removeChangeListener(listener: (time: number) => void): void {
+        const index = this.listeners.indexOf(listener);
+        if (index >= 0) {
+            this.listeners.splice(index, 1);
+        }
+    }
+
+    private notify(time: number): void {
+        this.listeners.slice().forEach(listener => listener(time));
+    }
+
+    private static now(): number {
+        return typeof performance !== 'undefined' ? performance.now() : Date.now();
+    }
+}
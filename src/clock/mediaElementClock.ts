@@ -0,0 +1,104 @@
+import {SubtitleClock} from "./subtitleClock";
+
+/**
+ * The clock of a video or audio element. Video elements with `requestVideoFrameCallback` support notify the media time
+ * of every presented frame. Hidden or off-screen videos don't present frames, so these fall back to `timeupdate`.
+ */
+export class MediaElementClock implements SubtitleClock {
+    private readonly media: HTMLMediaElement;
+    private readonly listeners: ((time: number) => void)[] = [];
+    private frameCallbackHandle?: number;
+
+    /**
+     * If true, a frame was presented since the last `timeupdate` event.
+     */
+    private framePresented: boolean = false;
+
+    public readonly frameAccurate: boolean;
+
+    /**
+     * Creates the clock and registers the media events.
+     * @param media The video or audio element.
+     */
+    public constructor(media: HTMLMediaElement) {
+        this.media = media;
+        this.frameAccurate = typeof (media as HTMLVideoElement).requestVideoFrameCallback === 'function';
+
+        // Seeking or pausing doesn't always present a new frame. These events update the subtitle immediately.
+        media.addEventListener('seeked', this.onMediaEvent);
+        media.addEventListener('pause', this.onMediaEvent);
+        media.addEventListener('play', this.onMediaEvent);
+        media.addEventListener('ratechange', this.onMediaEvent);
+
+        if (this.frameAccurate) {
+            // The frame callback is only invoked for new frames, so it can stay registered while paused.
+            this.frameCallbackHandle = (media as HTMLVideoElement).requestVideoFrameCallback(this.onVideoFrame);
+            media.addEventListener('timeupdate', this.onTimeUpdate);
+        }
+    }
+
+    public get currentTime(): number {
+        return this.media.currentTime;
+    }
+
+    public get playing(): boolean {
+        return !this.media.paused;
+    }
+
+    public seek(time: number): void {
+        // The seeked event notifies the listeners.
+        this.media.currentTime = time;
+    }
+
+    public addChangeListener(listener: (time: number) => void): void {
+        this.listeners.push(listener);
+    }
+
+    public removeChangeListener(listener: (time: number) => void): void {
+        const index = this.listeners.indexOf(listener);
+        if (index >= 0) {
+            this.listeners.splice(index, 1);
+        }
+    }
+
+    private notify(time: number): void {
+        this.listeners.slice().forEach(listener => listener(time));
+    }
+
+    private onMediaEvent = (): void => {
+        this.notify(this.media.currentTime);
+    }
+
+    private onTimeUpdate = (): void => {
+        if (this.framePresented) {
+            this.framePresented = false;
+            return;
+        }
+        this.notify(this.media.currentTime);
+    }
+
+    private onVideoFrame = (_: number, metadata: VideoFrameCallbackMetadata): void => {
+        this.frameCallbackHandle = (this.media as HTMLVideoElement).requestVideoFrameCallback(this.onVideoFrame);
+        this.framePresented = true;
+        // The media time is the exact timestamp of the presented frame.
+        this.notify(metadata.mediaTime);
+    }
+
+    /**
+     * Removes all media events.
+     */
+    public dispose(): void {
+        const media = this.media;
+        media.removeEventListener('seeked', this.onMediaEvent);
+        media.removeEventListener('pause', this.onMediaEvent);
+        media.removeEventListener('play', this.onMediaEvent);
+        media.removeEventListener('ratechange', this.onMediaEvent);
+        media.removeEventListener('timeupdate', this.onTimeUpdate);
+
+        if (this.frameCallbackHandle !== undefined) {
+            (media as HTMLVideoElement).cancelVideoFrameCallback(this.frameCallbackHandle);
+            this.frameCallbackHandle = undefined;
+        }
+        this.listeners.length = 0;
+    }
+}
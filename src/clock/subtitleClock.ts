@@ -0,0 +1,39 @@
+/**
+ * The time source to sync the subtitles to, e.g. a media element or a custom media pipeline.
+ */
+export interface SubtitleClock {
+    /**
+     * The current playback time in seconds.
+     */
+    readonly currentTime: number;
+
+    /**
+     * If true, the time advances on its own. The subtitle is updated on every animation frame, unless the clock is
+     * frame accurate.
+     */
+    readonly playing: boolean;
+
+    /**
+     * If true, the clock notifies the listeners for every presented frame. No animation frame loop is needed.
+     */
+    readonly frameAccurate: boolean;
+
+    /**
+     * Seeks to the given time. This is optional and used to navigate between cues.
+     * @param time The new time in seconds.
+     */
+    seek?(time: number): void;
+
+    /**
+     * Registers a listener that is called with the current time in seconds whenever the time or the playing state
+     * changed outside regular playback, e.g. by seeking, pausing or a playback rate change.
+     * @param listener The listener to add.
+     */
+    addChangeListener(listener: (time: number) => void): void;
+
+    /**
+     * Removes a listener added by `addChangeListener`.
+     * @param listener The listener to remove.
+     */
+    removeChangeListener(listener: (time: number) => void): void;
+}
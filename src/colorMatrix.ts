@@ -0,0 +1,21 @@
+export enum ColorMatrix {
+    /**
+     * Selects the matrix by the video size of the subtitle: BT.601 for SD, BT.709 for HD and BT.2020 for UHD.
+     */
+    auto = 'auto',
+
+    /**
+     * ITU-R BT.601, used for SD video (DVD, SD broadcasts).
+     */
+    bt601 = 'bt601',
+
+    /**
+     * ITU-R BT.709, used for HD video (Blu-ray).
+     */
+    bt709 = 'bt709',
+
+    /**
+     * ITU-R BT.2020, used for UHD video (Ultra HD Blu-ray).
+     */
+    bt2020 = 'bt2020',
+}
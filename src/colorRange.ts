@@ -0,0 +1,11 @@
+export enum ColorRange {
+    /**
+     * The luma and chroma values use the whole range from 0 to 255.
+     */
+    full = 'full',
+
+    /**
+     * The luma values range from 16 to 235 and the chroma values range from 16 to 240 (studio swing).
+     */
+    limited = 'limited',
+}
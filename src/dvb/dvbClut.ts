@@ -0,0 +1,157 @@
+import {PaletteEntry} from "../pgs/paletteDefinitionSegment";
+
+/**
+ * A colour look-up table (CLUT) of a DVB subtitle stream. Every CLUT contains separate palettes for 2-bit, 4-bit and
+ * 8-bit regions. Entries that are not defined by the stream use the default CLUT of the specification.
+ */
+export class DvbClut {
+    public id: number = 0;
+
+    /**
+     * The version of the last applied CLUT definition, or -1 if no definition was received yet.
+     */
+    public version: number = -1;
+
+    public entries2: PaletteEntry[];
+    public entries4: PaletteEntry[];
+    public entries8: PaletteEntry[];
+
+    private static defaultEntries2?: PaletteEntry[];
+    private static defaultEntries4?: PaletteEntry[];
+    private static defaultEntries8?: PaletteEntry[];
+
+    public constructor(id: number) {
+        this.id = id;
+        this.entries2 = DvbClut.getDefaultEntries2().slice();
+        this.entries4 = DvbClut.getDefaultEntries4().slice();
+        this.entries8 = DvbClut.getDefaultEntries8().slice();
+    }
+
+    /**
+     * Returns the palette for the given region depth.
+     * @param depth The bits per pixel (2, 4 or 8).
+     */
+    public getEntries(depth: number): PaletteEntry[] {
+        return depth === 2 ? this.entries2 : depth === 4 ? this.entries4 : this.entries8;
+    }
+
+    /**
+     * Reads a CLUT definition segment and updates the entries.
+     * @param data The segment data.
+     */
+    public read(data: Uint8Array): void {
+        this.version = data[1] >> 4;
+
+        let position = 2;
+        while (position + 4 <= data.length) {
+            const entryId = data[position];
+            const flags = data[position + 1];
+
+            let y: number;
+            let cr: number;
+            let cb: number;
+            let transparency: number;
+            if (flags & 0x01) {
+                if (position + 6 > data.length) break;
+                // Full range: 8-bit values.
+                y = data[position + 2];
+                cr = data[position + 3];
+                cb = data[position + 4];
+                transparency = data[position + 5];
+                position += 6;
+            } else {
+                // Reduced range: 6-bit Y, 4-bit Cr, 4-bit Cb and 2-bit transparency.
+                const value = (data[position + 2] << 8) | data[position + 3];
+                y = (value >> 10) << 2;
+                cr = ((value >> 6) & 0x0F) << 4;
+                cb = ((value >> 2) & 0x0F) << 4;
+                transparency = (value & 0x03) * 0x55;
+                position += 4;
+            }
+
+            const entry = new PaletteEntry();
+            entry.id = entryId;
+            entry.y = y;
+            entry.cr = cr;
+            entry.cb = cb;
+            // A luminance of zero marks a fully transparent entry.
+            entry.alpha = y === 0 ? 0 : 255 - transparency;
+
+            if ((flags & 0x80) && entryId < 4) this.entries2[entryId] = entry;
+            if ((flags & 0x40) && entryId < 16) this.entries4[entryId] = entry;
+            if (flags & 0x20) this.entries8[entryId] = entry;
+        }
+    }
+
+    // region Default CLUTs
+
+    private static getDefaultEntries2(): PaletteEntry[] {
+        if (!DvbClut.defaultEntries2) {
+            DvbClut.defaultEntries2 = [
+                PaletteEntry.fromRgba(0, 0, 0, 0, 0),
+                PaletteEntry.fromRgba(1, 255, 255, 255, 255),
+                PaletteEntry.fromRgba(2, 0, 0, 0, 255),
+                PaletteEntry.fromRgba(3, 127, 127, 127, 255),
+            ];
+        }
+        return DvbClut.defaultEntries2;
+    }
+
+    private static getDefaultEntries4(): PaletteEntry[] {
+        if (!DvbClut.defaultEntries4) {
+            const entries: PaletteEntry[] = [PaletteEntry.fromRgba(0, 0, 0, 0, 0)];
+            for (let i = 1; i < 16; i++) {
+                // The first eight entries use full intensity, the others half intensity.
+                const value = i < 8 ? 255 : 127;
+                entries.push(PaletteEntry.fromRgba(i, (i & 1) ? value : 0, (i & 2) ? value : 0, (i & 4) ? value : 0,
+                    255));
+            }
+            DvbClut.defaultEntries4 = entries;
+        }
+        return DvbClut.defaultEntries4;
+    }
+
+    private static getDefaultEntries8(): PaletteEntry[] {
+        if (!DvbClut.defaultEntries8) {
+            const entries: PaletteEntry[] = [PaletteEntry.fromRgba(0, 0, 0, 0, 0)];
+            for (let i = 1; i < 256; i++) {
+                let r: number;
+                let g: number;
+                let b: number;
+                let alpha = 255;
+                if (i < 8) {
+                    r = (i & 1) ? 255 : 0;
+                    g = (i & 2) ? 255 : 0;
+                    b = (i & 4) ? 255 : 0;
+                    alpha = 63;
+                } else {
+                    // Bits 3 and 7 select the brightness and transparency group of the entry.
+                    switch (i & 0x88) {
+                        case 0x00:
+                        case 0x08:
+                            r = ((i & 0x01) ? 85 : 0) + ((i & 0x10) ? 170 : 0);
+                            g = ((i & 0x02) ? 85 : 0) + ((i & 0x20) ? 170 : 0);
+                            b = ((i & 0x04) ? 85 : 0) + ((i & 0x40) ? 170 : 0);
+                            alpha = (i & 0x88) === 0x00 ? 255 : 127;
+                            break;
+                        case 0x80:
+                            r = 127 + ((i & 0x01) ? 43 : 0) + ((i & 0x10) ? 85 : 0);
+                            g = 127 + ((i & 0x02) ? 43 : 0) + ((i & 0x20) ? 85 : 0);
+                            b = 127 + ((i & 0x04) ? 43 : 0) + ((i & 0x40) ? 85 : 0);
+                            break;
+                        default:
+                            r = ((i & 0x01) ? 43 : 0) + ((i & 0x10) ? 85 : 0);
+                            g = ((i & 0x02) ? 43 : 0) + ((i & 0x20) ? 85 : 0);
+                            b = ((i & 0x04) ? 43 : 0) + ((i & 0x40) ? 85 : 0);
+                            break;
+                    }
+                }
+                entries.push(PaletteEntry.fromRgba(i, r, g, b, alpha));
+            }
+            DvbClut.defaultEntries8 = entries;
+        }
+        return DvbClut.defaultEntries8;
+    }
+
+    // endregion
+}
@@ -0,0 +1,220 @@
+import {BitReader} from "../utils/bitReader";
+import {DvbRegion, DvbRegionObject} from "./dvbRegion";
+
+/**
+ * Decodes the pixel data of DVB object data segments into the regions that reference the object.
+ */
+export class DvbObjectData {
+    private static readonly defaultMap2To4 = [0x0, 0x7, 0x8, 0xF];
+    private static readonly defaultMap2To8 = [0x00, 0x77, 0x88, 0xFF];
+    private static readonly defaultMap4To8 = [
+        0x00, 0x11, 0x22, 0x33, 0x44, 0x55, 0x66, 0x77, 0x88, 0x99, 0xAA, 0xBB, 0xCC, 0xDD, 0xEE, 0xFF,
+    ];
+
+    /**
+     * Reads an object data segment and draws the object into the given region.
+     * @param data The segment data.
+     * @param region The region to draw to.
+     * @param placement The position of the object within the region.
+     */
+    public static draw(data: Uint8Array, region: DvbRegion, placement: DvbRegionObject): void {
+        const codingMethod = (data[2] >> 2) & 0x03;
+        // The pixel code 1 is not drawn for objects with the non-modifying colour flag.
+        const nonModifyingColour = (data[2] & 0x02) !== 0;
+
+        // Only bitmap objects are supported. Character strings would need a font.
+        if (codingMethod !== 0 || data.length < 7) return;
+
+        const topFieldLength = (data[3] << 8) | data[4];
+        const bottomFieldLength = (data[5] << 8) | data[6];
+        const topFieldStart = 7;
+        const bottomFieldStart = topFieldStart + topFieldLength;
+
+        DvbObjectData.drawField(data, topFieldStart, bottomFieldStart, region, placement, 0, nonModifyingColour);
+        // Without bottom field data, the top field is repeated.
+        if (bottomFieldLength === 0) {
+            DvbObjectData.drawField(data, topFieldStart, bottomFieldStart, region, placement, 1,
+                nonModifyingColour);
+        } else {
+            DvbObjectData.drawField(data, bottomFieldStart, bottomFieldStart + bottomFieldLength, region, placement,
+                1, nonModifyingColour);
+        }
+    }
+
+    /**
+     * Decodes the pixel-data sub-blocks of an interlaced field.
+     * @param data The segment data.
+     * @param start The start of the field data.
+     * @param end The end of the field data (exclusive).
+     * @param region The region to draw to.
+     * @param placement The position of the object within the region.
+     * @param firstLine The first line of this field (0 for the top field, 1 for the bottom field).
+     * @param nonModifyingColour If true, the pixel code 1 is skipped.
+     */
+    private static drawField(data: Uint8Array, start: number, end: number, region: DvbRegion,
+                             placement: DvbRegionObject, firstLine: number, nonModifyingColour: boolean): void {
+        end = Math.min(end, data.length);
+
+        // The map tables are reset for every field.
+        let map2To4 = DvbObjectData.defaultMap2To4;
+        let map2To8 = DvbObjectData.defaultMap2To8;
+        let map4To8 = DvbObjectData.defaultMap4To8;
+
+        let x = 0;
+        let y = firstLine;
+        let position = start;
+        while (position < end) {
+            const dataType = data[position++];
+
+            // Selects the map table to convert the pixel codes to the region depth.
+            let map: number[] | undefined;
+            let bits: number;
+            switch (dataType) {
+                case 0x10:
+                    bits = 2;
+                    map = region.depth === 4 ? map2To4 : region.depth === 8 ? map2To8 : undefined;
+                    break;
+                case 0x11:
+                    bits = 4;
+                    map = region.depth === 8 ? map4To8 : undefined;
+                    break;
+                case 0x12:
+                    bits = 8;
+                    break;
+                // 2-to-4-bit map table
+                case 0x20:
+                    map2To4 = DvbObjectData.readNibbles(data, position, 4);
+                    position += 2;
+                    continue;
+                // 2-to-8-bit map table
+                case 0x21:
+                    map2To8 = Array.from(data.subarray(position, position + 4));
+                    position += 4;
+                    continue;
+                // 4-to-8-bit map table
+                case 0x22:
+                    map4To8 = DvbObjectData.readNibbles(data, position, 16);
+                    position += 8;
+                    continue;
+                // End of object line
+                case 0xF0:
+                    x = 0;
+                    y += 2;
+                    continue;
+                default:
+                    return;
+            }
+
+            const reader = new BitReader(data, position, end);
+            // Pixel codes with more bits than the region depth can't be displayed. The string is skipped.
+            const skip = bits > region.depth;
+            const lineY = placement.verticalPosition + y;
+            const draw = (run: number, code: number): void => {
+                if (!skip && !(nonModifyingColour && code === 1) && lineY < region.height) {
+                    const value = map ? map[code] : code;
+                    const lineStart = lineY * region.width;
+                    const from = Math.min(placement.horizontalPosition + x, region.width);
+                    const to = Math.min(placement.horizontalPosition + x + run, region.width);
+                    region.pixels.fill(value, lineStart + from, lineStart + to);
+                }
+                x += run;
+            };
+
+            if (bits === 2) {
+                DvbObjectData.read2BitString(reader, draw);
+            } else if (bits === 4) {
+                DvbObjectData.read4BitString(reader, draw);
+            } else {
+                DvbObjectData.read8BitString(reader, draw);
+            }
+            position = reader.position;
+        }
+    }
+
+    private static readNibbles(data: Uint8Array, position: number, count: number): number[] {
+        const result: number[] = [];
+        for (let i = 0; i < count; i++) {
+            const byte = data[position + (i >> 1)] ?? 0;
+            result.push((i & 1) === 0 ? byte >> 4 : byte & 0x0F);
+        }
+        return result;
+    }
+
+    // region Pixel code strings
+
+    private static read2BitString(reader: BitReader, draw: (run: number, code: number) => void): void {
+        while (!reader.eof) {
+            const code = reader.readBits(2);
+            if (code !== 0) {
+                draw(1, code);
+            } else if (reader.readBits(1) === 1) {
+                const run = 3 + reader.readBits(3);
+                draw(run, reader.readBits(2));
+            } else if (reader.readBits(1) === 1) {
+                draw(1, 0);
+            } else {
+                const switch3 = reader.readBits(2);
+                if (switch3 === 0) break;
+                if (switch3 === 1) {
+                    draw(2, 0);
+                } else if (switch3 === 2) {
+                    const run = 12 + reader.readBits(4);
+                    draw(run, reader.readBits(2));
+                } else {
+                    const run = 29 + reader.readBits(8);
+                    draw(run, reader.readBits(2));
+                }
+            }
+        }
+        reader.alignToByte();
+    }
+
+    private static read4BitString(reader: BitReader, draw: (run: number, code: number) => void): void {
+        while (!reader.eof) {
+            const code = reader.readBits(4);
+            if (code !== 0) {
+                draw(1, code);
+            } else if (reader.readBits(1) === 0) {
+                const run = reader.readBits(3);
+                if (run === 0) break;
+                draw(run + 2, 0);
+            } else if (reader.readBits(1) === 0) {
+                const run = 4 + reader.readBits(2);
+                draw(run, reader.readBits(4));
+            } else {
+                const switch3 = reader.readBits(2);
+                if (switch3 === 0) {
+                    draw(1, 0);
+                } else if (switch3 === 1) {
+                    draw(2, 0);
+                } else if (switch3 === 2) {
+                    const run = 9 + reader.readBits(4);
+                    draw(run, reader.readBits(4));
+                } else {
+                    const run = 25 + reader.readBits(8);
+                    draw(run, reader.readBits(4));
+                }
+            }
+        }
+        reader.alignToByte();
+    }
+
+    private static read8BitString(reader: BitReader, draw: (run: number, code: number) => void): void {
+        while (!reader.eof) {
+            const code = reader.readBits(8);
+            if (code !== 0) {
+                draw(1, code);
+            } else if (reader.readBits(1) === 0) {
+                const run = reader.readBits(7);
+                if (run === 0) break;
+                draw(run, 0);
+            } else {
+                const run = reader.readBits(7);
+                draw(run, reader.readBits(8));
+            }
+        }
+        reader.alignToByte();
+    }
+
+    // endregion
+}
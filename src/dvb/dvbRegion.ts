@@ -0,0 +1,84 @@
+/**
+ * The placement of an object within a DVB region.
+ */
+export class DvbRegionObject {
+    public id: number = 0;
+
+    /**
+     * The object type: `0` for bitmaps. Character objects are not supported.
+     */
+    public type: number = 0;
+    public horizontalPosition: number = 0;
+    public verticalPosition: number = 0;
+}
+
+/**
+ * A region of a DVB subtitle page. The objects are drawn into the pixel buffer of the region, so the region keeps its
+ * content until it is filled or changed.
+ */
+export class DvbRegion {
+    public id: number = 0;
+
+    /**
+     * The version of the last applied region composition, or -1 if no composition was received yet.
+     */
+    public version: number = -1;
+    public width: number = 0;
+    public height: number = 0;
+
+    /**
+     * The bits per pixel of the region (2, 4 or 8).
+     */
+    public depth: number = 4;
+    public clutId: number = 0;
+    public objects: DvbRegionObject[] = [];
+
+    /**
+     * The pixel code for every pixel, line by line.
+     */
+    public pixels: Uint8Array = new Uint8Array(0);
+
+    /**
+     * Reads a region composition segment.
+     * @param data The segment data.
+     */
+    public read(data: Uint8Array): void {
+        const version = data[1] >> 4;
+        const fillFlag = (data[1] & 0x08) !== 0;
+        const width = (data[2] << 8) | data[3];
+        const height = (data[4] << 8) | data[5];
+        // The depth is coded as 1 for 2-bit, 2 for 4-bit and 3 for 8-bit.
+        const depth = 1 << ((data[6] >> 2) & 0x07);
+        this.clutId = data[7];
+
+        // The content of a region only changes with a new version.
+        if (version === this.version) return;
+        this.version = version;
+
+        if (width !== this.width || height !== this.height || depth !== this.depth) {
+            this.width = width;
+            this.height = height;
+            this.depth = depth;
+            this.pixels = new Uint8Array(width * height);
+        }
+
+        if (fillFlag) {
+            const fillCode = depth === 8 ? data[8] : depth === 4 ? data[9] >> 4 : (data[9] >> 2) & 0x03;
+            this.pixels.fill(fillCode);
+        }
+
+        this.objects = [];
+        let position = 10;
+        while (position + 6 <= data.length) {
+            const object = new DvbRegionObject();
+            object.id = (data[position] << 8) | data[position + 1];
+            object.type = data[position + 2] >> 6;
+            object.horizontalPosition = ((data[position + 2] & 0x0F) << 8) | data[position + 3];
+            object.verticalPosition = ((data[position + 4] & 0x0F) << 8) | data[position + 5];
+            this.objects.push(object);
+
+            // Character objects have an additional foreground and background pixel code.
+            position += object.type === 1 || object.type === 2 ? 8 : 6;
+        }
+    }
+}
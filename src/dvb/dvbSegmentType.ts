@@ -0,0 +1,11 @@
+/**
+ * The segment types of DVB subtitling streams (ETSI EN 300 743).
+ */
+export enum DvbSegmentType {
+    pageComposition = 0x10,
+    regionComposition = 0x11,
+    clutDefinition = 0x12,
+    objectData = 0x13,
+    displayDefinition = 0x14,
+    endOfDisplaySet = 0x80,
+}
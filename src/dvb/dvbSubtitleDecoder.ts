@@ -0,0 +1,393 @@
+import {DvbSegmentType} from "./dvbSegmentType";
+import {DvbClut} from "./dvbClut";
+import {DvbRegion} from "./dvbRegion";
+import {DvbObjectData} from "./dvbObjectData";
+import {DisplaySet} from "../pgs/displaySet";
+import {CompositionObject, PresentationCompositionSegment} from "../pgs/presentationCompositionSegment";
+import {WindowDefinition, WindowDefinitionSegment} from "../pgs/windowDefinitionSegment";
+import {PaletteDefinitionSegment, PaletteEntry} from "../pgs/paletteDefinitionSegment";
+import {ObjectDefinitionSegment} from "../pgs/objectDefinitionSegment";
+
+/**
+ * The position of a region on the page.
+ */
+interface DvbPageRegion {
+    id: number;
+    x: number;
+    y: number;
+}
+
+/**
+ * Decodes DVB subtitling streams (ETSI EN 300 743) and converts every page update into a PGS display set. This way
+ * DVB subtitles use the same rendering pipeline as PGS subtitles.
+ * The decoder is stateful: regions and CLUTs are kept across display sets, so the packets must be decoded in order.
+ */
+export class DvbSubtitleDecoder {
+    /**
+     * The display duration in seconds if the page has no time-out.
+     */
+    private static readonly defaultTimeout = 5;
+
+    private compositionPageId?: number;
+    private readonly ancillaryPageId?: number;
+
+    // The display size defaults to standard definition if the stream has no display definition.
+    private displayWidth: number = 720;
+    private displayHeight: number = 576;
+    private displayOffsetX: number = 0;
+    private displayOffsetY: number = 0;
+
+    private regions = new Map<number, DvbRegion>();
+    private cluts = new Map<number, DvbClut>();
+    private pageRegions: DvbPageRegion[] = [];
+    private pageTimeout: number = 0;
+
+    private pagePending: boolean = false;
+    private pagePresentationTimestamp: number = 0;
+
+    /**
+     * The timestamp at which the current page times out, if it shows any subtitle.
+     */
+    private timeoutTimestamp?: number;
+    private compositionNumber: number = 0;
+
+    /**
+     * Creates the decoder.
+     * @param compositionPageId The page id of the subtitle service. If not provided, the page of the first page
+     * composition is used.
+     * @param ancillaryPageId The page id of shared data (e.g. CLUTs) used by multiple subtitle services.
+     */
+    public constructor(compositionPageId?: number, ancillaryPageId?: number) {
+        this.compositionPageId = compositionPageId;
+        this.ancillaryPageId = ancillaryPageId;
+    }
+
+    /**
+     * Decodes the subtitling segments of a PES packet and returns the completed display sets.
+     * @param data The PES packet payload. The leading data identifier and stream id are optional.
+     * @param presentationTimestamp The presentation timestamp of the packet in the 90 kHz clock.
+     */
+    public decode(data: Uint8Array, presentationTimestamp: number): DisplaySet[] {
+        const displaySets: DisplaySet[] = [];
+
+        // Transport streams prefix the segments with the data identifier 0x20 and the subtitle stream id 0x00.
+        let position = data[0] === 0x20 && data[1] === 0x00 ? 2 : 0;
+
+        while (position + 6 <= data.length && data[position] === 0x0F) {
+            const segmentType = data[position + 1];
+            const pageId = (data[position + 2] << 8) | data[position + 3];
+            const length = (data[position + 4] << 8) | data[position + 5];
+            const segmentEnd = position + 6 + length;
+            if (segmentEnd > data.length) break;
+
+            const segment = data.subarray(position + 6, segmentEnd);
+            position = segmentEnd;
+
+            if (segmentType === DvbSegmentType.pageComposition && this.compositionPageId === undefined) {
+                this.compositionPageId = pageId;
+            }
+            if (this.compositionPageId !== undefined && pageId !== this.compositionPageId &&
+                pageId !== this.ancillaryPageId) {
+                continue;
+            }
+
+            switch (segmentType) {
+                case DvbSegmentType.pageComposition:
+                    // A new page composition starts the next display set.
+                    this.finishPage(displaySets);
+                    this.readPageComposition(segment);
+                    this.pagePending = true;
+                    this.pagePresentationTimestamp = presentationTimestamp;
+                    break;
+                case DvbSegmentType.regionComposition:
+                    this.readRegionComposition(segment);
+                    break;
+                case DvbSegmentType.clutDefinition:
+                    this.readClutDefinition(segment);
+                    break;
+                case DvbSegmentType.objectData:
+                    this.readObjectData(segment);
+                    break;
+                case DvbSegmentType.displayDefinition:
+                    this.readDisplayDefinition(segment);
+                    break;
+                case DvbSegmentType.endOfDisplaySet:
+                    this.finishPage(displaySets);
+                    break;
+            }
+        }
+
+        // A display set can't span multiple PES packets.
+        this.finishPage(displaySets);
+        return displaySets;
+    }
+
+    /**
+     * Returns the display set that removes the last subtitle when its page times out.
+     * This must be called after the last packet.
+     */
+    public flush(): DisplaySet[] {
+        const displaySets: DisplaySet[] = [];
+        this.finishPage(displaySets);
+        if (this.timeoutTimestamp !== undefined) {
+            displaySets.push(this.createDisplaySet(this.timeoutTimestamp, []));
+            this.timeoutTimestamp = undefined;
+        }
+        return displaySets;
+    }
+
+    // region Segments
+
+    private readPageComposition(data: Uint8Array): void {
+        this.pageTimeout = data[0];
+        const pageState = (data[1] >> 2) & 0x03;
+
+        // Acquisition points and mode changes describe the complete page. The previous state is discarded.
+        if (pageState === 1 || pageState === 2) {
+            this.regions = new Map<number, DvbRegion>();
+            this.cluts = new Map<number, DvbClut>();
+        }
+
+        this.pageRegions = [];
+        for (let position = 2; position + 6 <= data.length; position += 6) {
+            this.pageRegions.push({
+                id: data[position],
+                x: (data[position + 2] << 8) | data[position + 3],
+                y: (data[position + 4] << 8) | data[position + 5],
+            });
+        }
+    }
+
+    private readRegionComposition(data: Uint8Array): void {
+        if (data.length < 10) return;
+
+        const id = data[0];
+        let region = this.regions.get(id);
+        if (!region) {
+            region = new DvbRegion();
+            region.id = id;
+            this.regions.set(id, region);
+        }
+        region.read(data);
+    }
+
+    private readClutDefinition(data: Uint8Array): void {
+        if (data.length < 2) return;
+
+        const clut = this.getClut(data[0]);
+        const version = data[1] >> 4;
+        if (version !== clut.version) {
+            clut.read(data);
+        }
+    }
+
+    private readObjectData(data: Uint8Array): void {
+        if (data.length < 3) return;
+
+        // The object is drawn into every region that references it.
+        const objectId = (data[0] << 8) | data[1];
+        this.regions.forEach(region => {
+            for (const placement of region.objects) {
+                if (placement.id === objectId && placement.type === 0) {
+                    DvbObjectData.draw(data, region, placement);
+                }
+            }
+        });
+    }
+
+    private readDisplayDefinition(data: Uint8Array): void {
+        if (data.length < 5) return;
+
+        const displayWindowFlag = (data[0] & 0x08) !== 0;
+        this.displayWidth = ((data[1] << 8) | data[2]) + 1;
+        this.displayHeight = ((data[3] << 8) | data[4]) + 1;
+
+        // Regions are positioned relative to the display window.
+        this.displayOffsetX = 0;
+        this.displayOffsetY = 0;
+        if (displayWindowFlag && data.length >= 13) {
+            this.displayOffsetX = (data[5] << 8) | data[6];
+            this.displayOffsetY = (data[9] << 8) | data[10];
+        }
+    }
+
+    private getClut(id: number): DvbClut {
+        let clut = this.cluts.get(id);
+        if (!clut) {
+            clut = new DvbClut(id);
+            this.cluts.set(id, clut);
+        }
+        return clut;
+    }
+
+    // endregion
+
+    // region Conversion
+
+    /**
+     * Converts the current page into a display set, if a page composition was received.
+     * @param displaySets The list to add the display sets to.
+     */
+    private finishPage(displaySets: DisplaySet[]): void {
+        if (!this.pagePending) return;
+        this.pagePending = false;
+
+        const timestamp = this.pagePresentationTimestamp;
+        // The previous subtitle timed out before this update.
+        if (this.timeoutTimestamp !== undefined && this.timeoutTimestamp < timestamp) {
+            displaySets.push(this.createDisplaySet(this.timeoutTimestamp, []));
+        }
+
+        const visibleRegions: DvbPageRegion[] = [];
+        for (const pageRegion of this.pageRegions) {
+            const region = this.regions.get(pageRegion.id);
+            if (region && region.width > 0 && region.height > 0 && this.isRegionVisible(region)) {
+                visibleRegions.push(pageRegion);
+            }
+        }
+
+        displaySets.push(this.createDisplaySet(timestamp, visibleRegions));
+        this.timeoutTimestamp = visibleRegions.length > 0
+            ? timestamp + (this.pageTimeout || DvbSubtitleDecoder.defaultTimeout) * 90000
+            : undefined;
+    }
+
+    /**
+     * Checks if the region contains any non-transparent pixel.
+     * @param region The region to check.
+     */
+    private isRegionVisible(region: DvbRegion): boolean {
+        const entries = this.getClut(region.clutId).getEntries(region.depth);
+        const pixels = region.pixels;
+        for (let i = 0; i < pixels.length; i++) {
+            if (entries[pixels[i]].alpha > 0) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Creates an epoch start display set with one window and object for every region.
+     * @param timestamp The presentation timestamp in the 90 kHz clock.
+     * @param pageRegions The visible regions. An empty list creates a display set that clears the screen.
+     */
+    private createDisplaySet(timestamp: number, pageRegions: DvbPageRegion[]): DisplaySet {
+        const displaySet = new DisplaySet();
+        displaySet.presentationTimestamp = timestamp;
+        displaySet.decodingTimestamp = timestamp;
+
+        const pcs = new PresentationCompositionSegment();
+        pcs.width = this.displayWidth;
+        pcs.height = this.displayHeight;
+        pcs.frameRate = 0x10;
+        pcs.compositionNumber = this.compositionNumber++ & 0xFFFF;
+        // Every page update is a new epoch, so no previous objects are needed.
+        pcs.compositionState = pageRegions.length > 0 ? 0x80 : 0x00;
+        displaySet.presentationComposition = pcs;
+        if (pageRegions.length === 0) {
+            return displaySet;
+        }
+
+        const wds = new WindowDefinitionSegment();
+        const pds = new PaletteDefinitionSegment();
+        // The regions can use different CLUTs and depths. They are merged into one palette by their color value.
+        const paletteIndices = new Map<number, number>();
+
+        for (let i = 0; i < pageRegions.length; i++) {
+            const pageRegion = pageRegions[i];
+            const region = this.regions.get(pageRegion.id)!;
+            const x = this.displayOffsetX + pageRegion.x;
+            const y = this.displayOffsetY + pageRegion.y;
+
+            const compositionObject = new CompositionObject();
+            compositionObject.id = i;
+            compositionObject.windowId = i;
+            compositionObject.horizontalPosition = x;
+            compositionObject.verticalPosition = y;
+            pcs.compositionObjects.push(compositionObject);
+
+            const window = new WindowDefinition();
+            window.id = i;
+            window.horizontalPosition = x;
+            window.verticalPosition = y;
+            window.width = region.width;
+            window.height = region.height;
+            wds.windows.push(window);
+
+            const indices = this.mapRegionPixels(region, pds, paletteIndices);
+            displaySet.objectDefinitions.push(ObjectDefinitionSegment.fromIndices(i, 0, region.width, region.height,
+                indices));
+        }
+
+        pds.updateRgba();
+        displaySet.windowDefinitions.push(wds);
+        displaySet.paletteDefinitions.push(pds);
+        return displaySet;
+    }
+
+    /**
+     * Converts the pixel codes of the region into indices of the merged palette.
+     * @param region The region to convert.
+     * @param pds The merged palette. New colors are added to this palette.
+     * @param paletteIndices The palette index for every color value of the merged palette.
+     */
+    private mapRegionPixels(region: DvbRegion, pds: PaletteDefinitionSegment,
+                            paletteIndices: Map<number, number>): Uint8Array {
+        const entries = this.getClut(region.clutId).getEntries(region.depth);
+        const codeMap = new Int16Array(entries.length).fill(-1);
+        const pixels = region.pixels;
+        const indices = new Uint8Array(pixels.length);
+
+        for (let i = 0; i < pixels.length; i++) {
+            const code = pixels[i];
+            let index = codeMap[code];
+            if (index < 0) {
+                index = DvbSubtitleDecoder.getPaletteIndex(entries[code], pds, paletteIndices);
+                codeMap[code] = index;
+            }
+            indices[i] = index;
+        }
+        return indices;
+    }
+
+    /**
+     * Returns the index of the given color in the merged palette. If the palette is full, the closest color is used.
+     * @param entry The color to look up.
+     * @param pds The merged palette.
+     * @param paletteIndices The palette index for every color value of the merged palette.
+     */
+    private static getPaletteIndex(entry: PaletteEntry, pds: PaletteDefinitionSegment,
+                                   paletteIndices: Map<number, number>): number {
+        // All transparent colors are equal.
+        const key = entry.alpha === 0
+            ? 0
+            : ((entry.y << 24) | (entry.cr << 16) | (entry.cb << 8) | entry.alpha) >>> 0;
+        const existing = paletteIndices.get(key);
+        if (existing !== undefined) return existing;
+
+        if (pds.entries.length < 256) {
+            const paletteEntry = new PaletteEntry();
+            paletteEntry.id = pds.entries.length;
+            paletteEntry.y = entry.y;
+            paletteEntry.cr = entry.cr;
+            paletteEntry.cb = entry.cb;
+            paletteEntry.alpha = entry.alpha;
+            pds.entries.push(paletteEntry);
+            paletteIndices.set(key, paletteEntry.id);
+            return paletteEntry.id;
+        }
+
+        let bestIndex = 0;
+        let bestDistance = Infinity;
+        for (const candidate of pds.entries) {
+            const distance = (candidate.y - entry.y) ** 2 + (candidate.cr - entry.cr) ** 2 +
+                (candidate.cb - entry.cb) ** 2 + (candidate.alpha - entry.alpha) ** 2;
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                bestIndex = candidate.id;
+            }
+        }
+        return bestIndex;
+    }
+
+    // endregion
+}
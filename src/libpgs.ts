@@ -3,4 +3,20 @@ import "core-js/stable/promise";
 import "whatwg-fetch";
 
 import {PgsRenderer} from "./pgsRenderer";
-export {PgsRenderer}
+import {Pgs} from "./pgs";
+import {SubtitleFormat} from "./subtitleFormat";
+import {MatroskaDemuxer} from "./matroska/matroskaDemuxer";
+import {TransportStreamDemuxer} from "./mpegts/transportStreamDemuxer";
+import {DvbSubtitleDecoder} from "./dvb/dvbSubtitleDecoder";
+import {SubtitleDisplayMode} from "./subtitleDisplayMode";
+import {ColorMatrix} from "./colorMatrix";
+import {ColorRange} from "./colorRange";
+import {RendererBackend} from "./rendererBackend";
+import {RenderResolution} from "./renderResolution";
+import {UpscalingFilter} from "./upscalingFilter";
+import {PalettePreset} from "./palettePreset";
+import {MediaElementClock} from "./clock/mediaElementClock";
+import {ManualClock} from "./clock/manualClock";
+import {SubtitleLoadError} from "./subtitleLoadError";
+import {SubtitleLoadErrorReason} from "./subtitleLoadErrorReason";
+export {PgsRenderer, Pgs, SubtitleFormat, SubtitleDisplayMode, ColorMatrix, ColorRange, RendererBackend, RenderResolution, UpscalingFilter, PalettePreset, MediaElementClock, ManualClock, SubtitleLoadError, SubtitleLoadErrorReason, MatroskaDemuxer, TransportStreamDemuxer, DvbSubtitleDecoder}
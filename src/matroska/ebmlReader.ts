@@ -0,0 +1,206 @@
+import {BinaryReader} from "../utils/binaryReader";
+import {AsyncBinaryReader} from "../utils/asyncBinaryReader";
+import {BigEndianBinaryReader} from "../utils/bigEndianBinaryReader";
+
+/**
+ * The header of an EBML element.
+ */
+export interface EbmlElementHeader {
+    /**
+     * The element id including the length marker bits.
+     */
+    id: number;
+
+    /**
+     * The size of the element data in bytes. This is `-1` if the size is unknown (e.g. for live streams).
+     */
+    size: number;
+}
+
+/**
+ * Reads EBML elements (the binary format of Matroska and WebM) from a binary reader.
+ */
+export class EbmlReader {
+    /**
+     * The big-endian binary reader.
+     */
+    public readonly reader: BigEndianBinaryReader;
+
+    /**
+     * The async base reader if the data is loaded partially.
+     */
+    private readonly asyncReader?: AsyncBinaryReader;
+
+    public constructor(reader: BinaryReader) {
+        this.reader = new BigEndianBinaryReader(reader);
+        if ('requestData' in reader) {
+            this.asyncReader = reader as AsyncBinaryReader;
+        }
+    }
+
+    public get position(): number {
+        return this.reader.position;
+    }
+
+    /**
+     * Ensures that the given number of bytes is available to read synchronously.
+     * @param count The number of bytes requested.
+     * @return Returns if the requested number of bytes could be loaded.
+     */
+    public async requestData(count: number): Promise<boolean> {
+        if (this.asyncReader) {
+            return await this.asyncReader.requestData(count);
+        }
+        return this.reader.position + count <= this.reader.length;
+    }
+
+    /**
+     * Reads the next element header. Returns `undefined` if the end of the data was reached.
+     */
+    public async readElementHeader(): Promise<EbmlElementHeader | undefined> {
+        // The id uses up to 4 bytes and the size up to 8 bytes.
+        await this.requestData(12);
+        if (this.reader.position >= this.reader.length) {
+            return undefined;
+        }
+
+        return EbmlReader.readElementHeader(this.reader);
+    }
+
+    /**
+     * Reads the data of the given element and returns it as separate reader.
+     * @param header The element header.
+     */
+    public async readElementData(header: EbmlElementHeader): Promise<BigEndianBinaryReader> {
+        if (header.size < 0) {
+            throw new Error(`Unknown size of EBML element ${header.id.toString(16)} is not supported!`);
+        }
+        return new BigEndianBinaryReader(await this.readBytes(header.size));
+    }
+
+    /**
+     * Reads the given number of bytes.
+     * @param size The number of bytes to read.
+     */
+    public async readBytes(size: number): Promise<Uint8Array> {
+        if (!await this.requestData(size)) {
+            throw new Error('Unexpected end of EBML data!');
+        }
+        return this.reader.readBytes(size);
+    }
+
+    /**
+     * Skips the given number of bytes.
+     * @param size The number of bytes to skip.
+     */
+    public async skip(size: number): Promise<void> {
+        await this.readBytes(size);
+    }
+
+    /**
+     * Reads an element header from the given reader. The data must be available.
+     * @param reader The reader to read from.
+     */
+    public static readElementHeader(reader: BigEndianBinaryReader): EbmlElementHeader {
+        const id = EbmlReader.readVariableInteger(reader, 4, false);
+        const size = EbmlReader.readElementSize(reader);
+        return { id, size };
+    }
+
+    /**
+     * Reads a variable size integer without the length marker (e.g. an element size or a block track number).
+     * @param reader The reader to read from.
+     */
+    public static readElementSize(reader: BigEndianBinaryReader): number {
+        return EbmlReader.readVariableInteger(reader, 8, true);
+    }
+
+    /**
+     * Reads all child elements of a fully loaded master element.
+     * @param reader The element data reader.
+     * @param callback Is called for every child element with the element id and a reader for its data.
+     */
+    public static readChildren(reader: BigEndianBinaryReader,
+                               callback: (id: number, data: BigEndianBinaryReader, size: number) => void): void {
+        while (reader.position < reader.length) {
+            const header = EbmlReader.readElementHeader(reader);
+            if (header.size < 0 || reader.position + header.size > reader.length) {
+                throw new Error('Invalid EBML element size!');
+            }
+            callback(header.id, new BigEndianBinaryReader(reader.readBytes(header.size)), header.size);
+        }
+    }
+
+    /**
+     * Reads an EBML variable size integer.
+     * @param reader The reader to read from.
+     * @param maxLength The maximum number of bytes.
+     * @param removeMarker If true, the length marker bit is removed from the value (element sizes). If false, the
+     * marker is kept (element ids).
+     */
+    private static readVariableInteger(reader: BigEndianBinaryReader, maxLength: number,
+                                       removeMarker: boolean): number {
+        const first = EbmlReader.readByte(reader);
+
+        // The number of leading zero bits defines the number of following bytes.
+        let length = 1;
+        let mask = 0x80;
+        while (length <= maxLength && (first & mask) === 0) {
+            length++;
+            mask >>= 1;
+        }
+        if (length > maxLength) {
+            throw new Error('Invalid EBML variable size integer!');
+        }
+
+        let value = removeMarker ? first & (mask - 1) : first;
+        let allOnes = value === mask - 1;
+        for (let i = 1; i < length; i++) {
+            const byte = EbmlReader.readByte(reader);
+            allOnes = allOnes && byte === 0xFF;
+            // Multiplication instead of bit-shifting. Sizes can exceed 32 bits.
+            value = value * 256 + byte;
+        }
+
+        // A size with all value bits set is reserved for unknown sizes.
+        if (removeMarker && allOnes) {
+            return -1;
+        }
+        return value;
+    }
+
+    private static readByte(reader: BigEndianBinaryReader): number {
+        if (reader.position >= reader.length) {
+            throw new Error('Unexpected end of EBML data!');
+        }
+        return reader.readUInt8();
+    }
+
+    /**
+     * Reads an unsigned integer element value.
+     * @param reader The element data reader.
+     * @param size The element size in bytes.
+     */
+    public static readUInt(reader: BigEndianBinaryReader, size: number): number {
+        let value = 0;
+        for (let i = 0; i < size; i++) {
+            value = value * 256 + reader.readUInt8();
+        }
+        return value;
+    }
+
+    /**
+     * Reads a string element value. Trailing null bytes are removed.
+     * @param reader The element data reader.
+     * @param size The element size in bytes.
+     */
+    public static readString(reader: BigEndianBinaryReader, size: number): string {
+        const bytes = reader.readBytes(size);
+        let end = bytes.length;
+        while (end > 0 && bytes[end - 1] === 0) {
+            end--;
+        }
+
+        return new TextDecoder('utf-8').decode(bytes.subarray(0, end));
+    }
+}
@@ -0,0 +1,19 @@
+/**
+ * A decoded frame of a Matroska block.
+ */
+export interface MatroskaBlock {
+    /**
+     * The track number this block belongs to.
+     */
+    trackNumber: number;
+
+    /**
+     * The presentation timestamp in the PGS 90 kHz clock.
+     */
+    presentationTimestamp: number;
+
+    /**
+     * The frame data with all content encodings removed.
+     */
+    data: Uint8Array;
+}
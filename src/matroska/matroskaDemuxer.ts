@@ -0,0 +1,280 @@
+import {BinaryReader} from "../utils/binaryReader";
+import {ArrayBinaryReader} from "../utils/arrayBinaryReader";
+import {BigEndianBinaryReader} from "../utils/bigEndianBinaryReader";
+import {EbmlElementHeader, EbmlReader} from "./ebmlReader";
+import {MatroskaElementId} from "./matroskaElementId";
+import {MatroskaContentEncoding, MatroskaTrack} from "./matroskaTrack";
+import {MatroskaBlock} from "./matroskaBlock";
+
+/**
+ * A minimal Matroska / WebM demuxer. It reads the track list and extracts the blocks of a single track.
+ * The file is read sequentially, so partially loaded streams (e.g. downloads) are supported.
+ */
+export class MatroskaDemuxer {
+    private readonly ebml: EbmlReader;
+
+    /**
+     * The timestamp scale in nanoseconds per block timestamp unit.
+     */
+    public timestampScale: number = 1000000;
+
+    /**
+     * The tracks of the Matroska file. This is filled by {@link readTracks}.
+     */
+    public tracks: MatroskaTrack[] = [];
+
+    private tracksRead: boolean = false;
+    private clusterTimestamp: number = 0;
+
+    public constructor(reader: BinaryReader | Uint8Array) {
+        this.ebml = new EbmlReader(reader instanceof Uint8Array ? new ArrayBinaryReader(reader) : reader);
+    }
+
+    /**
+     * Reads the file until the track list was found and returns all tracks.
+     */
+    public async readTracks(): Promise<MatroskaTrack[]> {
+        while (!this.tracksRead) {
+            if (!await this.readElement()) {
+                throw new Error('No Matroska tracks found!');
+            }
+        }
+        return this.tracks;
+    }
+
+    /**
+     * Reads the remaining file and returns every block of the given track.
+     * @param trackNumber The track number to extract.
+     * @param onBlock Is called for every block of the track in file order.
+     */
+    public async readBlocks(trackNumber: number,
+                            onBlock: (block: MatroskaBlock) => void | Promise<void>): Promise<void> {
+        await this.readTracks();
+        const track = this.tracks.find(t => t.number === trackNumber);
+        if (!track) {
+            throw new Error(`Matroska track ${trackNumber} not found!`);
+        }
+
+        while (await this.readElement(track, onBlock)) {
+            // Continue reading
+        }
+    }
+
+    /**
+     * Reads the next element.
+     * @param track The track to extract blocks from.
+     * @param onBlock Is called for every block of the track.
+     * @return Returns false if the end of the file was reached.
+     */
+    private async readElement(track?: MatroskaTrack,
+                              onBlock?: (block: MatroskaBlock) => void | Promise<void>): Promise<boolean> {
+        const header = await this.ebml.readElementHeader();
+        if (!header) return false;
+
+        switch (header.id) {
+            // The blocks are nested in these master elements. Instead of reading them as a whole, we continue with the
+            // child elements. Clusters and segments can have an unknown size in live streams.
+            case MatroskaElementId.segment:
+            case MatroskaElementId.blockGroup:
+                break;
+            case MatroskaElementId.cluster:
+                if (!this.tracksRead) {
+                    throw new Error('No Matroska tracks found before the first cluster!');
+                }
+                break;
+
+            case MatroskaElementId.info:
+                this.readInfo(await this.ebml.readElementData(header));
+                break;
+            case MatroskaElementId.tracks:
+                this.readTracksElement(await this.ebml.readElementData(header));
+                this.tracksRead = true;
+                break;
+            case MatroskaElementId.timestamp:
+                this.clusterTimestamp = EbmlReader.readUInt(await this.ebml.readElementData(header), header.size);
+                break;
+            case MatroskaElementId.simpleBlock:
+            case MatroskaElementId.block:
+                await this.readBlock(header, track, onBlock);
+                break;
+
+            default:
+                await this.skipElement(header);
+                break;
+        }
+        return true;
+    }
+
+    private async skipElement(header: EbmlElementHeader): Promise<void> {
+        if (header.size < 0) {
+            throw new Error(`Unknown size of EBML element ${header.id.toString(16)} is not supported!`);
+        }
+        await this.ebml.skip(header.size);
+    }
+
+    private readInfo(reader: BigEndianBinaryReader): void {
+        EbmlReader.readChildren(reader, (id, data, size) => {
+            if (id === MatroskaElementId.timestampScale) {
+                this.timestampScale = EbmlReader.readUInt(data, size);
+            }
+        });
+    }
+
+    private readTracksElement(reader: BigEndianBinaryReader): void {
+        this.tracks = [];
+        EbmlReader.readChildren(reader, (id, data) => {
+            if (id === MatroskaElementId.trackEntry) {
+                this.tracks.push(MatroskaDemuxer.readTrackEntry(data));
+            }
+        });
+    }
+
+    private static readTrackEntry(reader: BigEndianBinaryReader): MatroskaTrack {
+        const track = new MatroskaTrack();
+        let languageBcp47: string | undefined;
+        EbmlReader.readChildren(reader, (id, data, size) => {
+            switch (id) {
+                case MatroskaElementId.trackNumber:
+                    track.number = EbmlReader.readUInt(data, size);
+                    break;
+                case MatroskaElementId.trackType:
+                    track.type = EbmlReader.readUInt(data, size);
+                    break;
+                case MatroskaElementId.codecId:
+                    track.codecId = EbmlReader.readString(data, size);
+                    break;
+                case MatroskaElementId.codecPrivate:
+                    track.codecPrivate = data.readBytes(size);
+                    break;
+                case MatroskaElementId.language:
+                    track.language = EbmlReader.readString(data, size);
+                    break;
+                case MatroskaElementId.languageBcp47:
+                    languageBcp47 = EbmlReader.readString(data, size);
+                    break;
+                case MatroskaElementId.name:
+                    track.name = EbmlReader.readString(data, size);
+                    break;
+                case MatroskaElementId.flagEnabled:
+                    track.isEnabled = EbmlReader.readUInt(data, size) !== 0;
+                    break;
+                case MatroskaElementId.flagDefault:
+                    track.isDefault = EbmlReader.readUInt(data, size) !== 0;
+                    break;
+                case MatroskaElementId.flagForced:
+                    track.isForced = EbmlReader.readUInt(data, size) !== 0;
+                    break;
+                case MatroskaElementId.contentEncodings:
+                    EbmlReader.readChildren(data, (childId, childData) => {
+                        if (childId === MatroskaElementId.contentEncoding) {
+                            track.contentEncodings.push(MatroskaDemuxer.readContentEncoding(childData));
+                        }
+                    });
+                    break;
+            }
+        });
+
+        // The BCP 47 language overrides the legacy language element.
+        if (languageBcp47) {
+            track.language = languageBcp47;
+        }
+
+        // Decoding must start with the highest order.
+        track.contentEncodings.sort((a, b) => b.order - a.order);
+        return track;
+    }
+
+    private static readContentEncoding(reader: BigEndianBinaryReader): MatroskaContentEncoding {
+        const encoding = new MatroskaContentEncoding();
+        EbmlReader.readChildren(reader, (id, data, size) => {
+            switch (id) {
+                case MatroskaElementId.contentEncodingOrder:
+                    encoding.order = EbmlReader.readUInt(data, size);
+                    break;
+                case MatroskaElementId.contentEncodingScope:
+                    encoding.scope = EbmlReader.readUInt(data, size);
+                    break;
+                case MatroskaElementId.contentEncodingType:
+                    encoding.type = EbmlReader.readUInt(data, size);
+                    break;
+                case MatroskaElementId.contentCompression:
+                    EbmlReader.readChildren(data, (childId, childData, childSize) => {
+                        if (childId === MatroskaElementId.contentCompAlgo) {
+                            encoding.compressionAlgorithm = EbmlReader.readUInt(childData, childSize);
+                        } else if (childId === MatroskaElementId.contentCompSettings) {
+                            encoding.compressionSettings = childData.readBytes(childSize);
+                        }
+                    });
+                    break;
+            }
+        });
+        return encoding;
+    }
+
+    private async readBlock(header: EbmlElementHeader, track?: MatroskaTrack,
+                            onBlock?: (block: MatroskaBlock) => void | Promise<void>): Promise<void> {
+        const reader = await this.ebml.readElementData(header);
+        const trackNumber = EbmlReader.readElementSize(reader);
+        if (!track || !onBlock || trackNumber !== track.number) return;
+
+        // The block timestamp is a signed 16-bit value relative to the cluster timestamp.
+        const relativeTimestamp = (reader.readUInt16() << 16) >> 16;
+        const flags = reader.readUInt8();
+
+        // Subtitle tracks are never laced, since every frame needs its own timestamp.
+        const lacing = (flags >> 1) & 0x03;
+        if (lacing !== 0) return;
+
+        let data = reader.readBytes(header.size - reader.position);
+        data = await MatroskaDemuxer.decodeContent(track, data);
+
+        // Converting the timestamp to the PGS 90 kHz clock.
+        const timestamp = (this.clusterTimestamp + relativeTimestamp) * this.timestampScale;
+        await onBlock({
+            trackNumber: trackNumber,
+            presentationTimestamp: Math.round(timestamp * 9 / 100000),
+            data: data,
+        });
+    }
+
+    /**
+     * Removes the content encodings (compression) from the frame data.
+     * @param track The track of the frame.
+     * @param data The encoded frame data.
+     */
+    private static async decodeContent(track: MatroskaTrack, data: Uint8Array): Promise<Uint8Array> {
+        for (const encoding of track.contentEncodings) {
+            if ((encoding.scope & 0x01) === 0) continue;
+            if (encoding.type !== 0) {
+                throw new Error('Encrypted Matroska tracks are not supported!');
+            }
+
+            switch (encoding.compressionAlgorithm) {
+                // zlib
+                case 0:
+                    data = await MatroskaDemuxer.inflate(data);
+                    break;
+                // Header stripping
+                case 3:
+                    if (encoding.compressionSettings) {
+                        const combined = new Uint8Array(encoding.compressionSettings.length + data.length);
+                        combined.set(encoding.compressionSettings, 0);
+                        combined.set(data, encoding.compressionSettings.length);
+                        data = combined;
+                    }
+                    break;
+                default:
+                    throw new Error(`Unsupported Matroska compression algorithm ${encoding.compressionAlgorithm}!`);
+            }
+        }
+        return data;
+    }
+
+    private static async inflate(data: Uint8Array): Promise<Uint8Array> {
+        if (typeof DecompressionStream === 'undefined') {
+            throw new Error('zlib compressed Matroska tracks are not supported in this browser!');
+        }
+        const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+        return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+}
@@ -0,0 +1,38 @@
+/**
+ * The EBML element ids used by the Matroska demuxer.
+ */
+export enum MatroskaElementId {
+    ebml = 0x1A45DFA3,
+    segment = 0x18538067,
+
+    info = 0x1549A966,
+    timestampScale = 0x2AD7B1,
+
+    tracks = 0x1654AE6B,
+    trackEntry = 0xAE,
+    trackNumber = 0xD7,
+    trackType = 0x83,
+    codecId = 0x86,
+    codecPrivate = 0x63A2,
+    language = 0x22B59C,
+    languageBcp47 = 0x22B59D,
+    name = 0x536E,
+    flagEnabled = 0xB9,
+    flagDefault = 0x88,
+    flagForced = 0x55AA,
+
+    contentEncodings = 0x6D80,
+    contentEncoding = 0x6240,
+    contentEncodingOrder = 0x5031,
+    contentEncodingScope = 0x5032,
+    contentEncodingType = 0x5033,
+    contentCompression = 0x5034,
+    contentCompAlgo = 0x4254,
+    contentCompSettings = 0x4255,
+
+    cluster = 0x1F43B675,
+    timestamp = 0xE7,
+    simpleBlock = 0xA3,
+    blockGroup = 0xA0,
+    block = 0xA1,
+}
@@ -0,0 +1,72 @@
+/**
+ * The content encoding (compression) of a Matroska track.
+ */
+export class MatroskaContentEncoding {
+    /**
+     * The order in which the encodings were applied. The highest order was applied last.
+     */
+    public order: number = 0;
+
+    /**
+     * The parts of the track the encoding applies to. Bit `0x01` marks the frame data.
+     */
+    public scope: number = 1;
+
+    /**
+     * The encoding type: `0` for compression, `1` for encryption.
+     */
+    public type: number = 0;
+
+    /**
+     * The compression algorithm: `0` for zlib, `3` for header stripping.
+     */
+    public compressionAlgorithm: number = 0;
+
+    /**
+     * The compression settings. For header stripping these are the removed bytes of every frame.
+     */
+    public compressionSettings?: Uint8Array;
+}
+
+/**
+ * A track entry of a Matroska file.
+ */
+export class MatroskaTrack {
+    /**
+     * The codec id used for PGS subtitle tracks.
+     */
+    public static readonly codecIdPgs = 'S_HDMV/PGS';
+
+    /**
+     * The codec id used for DVB subtitle tracks.
+     */
+    public static readonly codecIdDvbSubtitle = 'S_DVBSUB';
+
+    /**
+     * The track type used for subtitle tracks.
+     */
+    public static readonly trackTypeSubtitle = 0x11;
+
+    public number: number = 0;
+    public type: number = 0;
+    public codecId: string = '';
+    public codecPrivate?: Uint8Array;
+    public language: string = 'eng';
+    public name: string = '';
+    public isEnabled: boolean = true;
+    public isDefault: boolean = true;
+    public isForced: boolean = false;
+    public contentEncodings: MatroskaContentEncoding[] = [];
+
+    public get isSubtitle(): boolean {
+        return this.type === MatroskaTrack.trackTypeSubtitle;
+    }
+
+    public get isPgs(): boolean {
+        return this.codecId === MatroskaTrack.codecIdPgs;
+    }
+
+    public get isDvbSubtitle(): boolean {
+        return this.codecId === MatroskaTrack.codecIdDvbSubtitle;
+    }
+}
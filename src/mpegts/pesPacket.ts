@@ -0,0 +1,24 @@
+/**
+ * A reassembled packetized elementary stream (PES) packet.
+ */
+export interface PesPacket {
+    /**
+     * The packet identifier of the stream.
+     */
+    pid: number;
+
+    /**
+     * The presentation timestamp in the 90 kHz clock if provided.
+     */
+    presentationTimestamp?: number;
+
+    /**
+     * The decoding timestamp in the 90 kHz clock if provided.
+     */
+    decodingTimestamp?: number;
+
+    /**
+     * The payload of the PES packet.
+     */
+    data: Uint8Array;
+}
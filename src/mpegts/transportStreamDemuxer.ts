@@ -0,0 +1,396 @@
+import {BinaryReader} from "../utils/binaryReader";
+import {AsyncBinaryReader} from "../utils/asyncBinaryReader";
+import {ArrayBinaryReader} from "../utils/arrayBinaryReader";
+import {TransportStreamTrack} from "./transportStreamTrack";
+import {PesPacket} from "./pesPacket";
+
+/**
+ * The collected payloads of a PES packet that is split into multiple transport stream packets.
+ */
+interface PesAssembler {
+    chunks: Uint8Array[];
+    length: number;
+    expectedLength: number;
+}
+
+/**
+ * A minimal MPEG-2 transport stream demuxer for `.ts` (188-byte packets) and Blu-ray `.m2ts` (192-byte packets) files.
+ * It reads the program map tables and reassembles the PES packets of the subtitle streams.
+ * The file is read sequentially, so partially loaded streams (e.g. downloads) are supported.
+ */
+export class TransportStreamDemuxer {
+    private static readonly syncByte = 0x47;
+
+    /**
+     * Blu-ray discs use these PIDs for PGS streams. This is used if a stream has no program map table.
+     */
+    private static readonly pgsPidFirst = 0x1200;
+    private static readonly pgsPidLast = 0x121F;
+
+    private readonly reader: BinaryReader;
+    private readonly asyncReader?: AsyncBinaryReader;
+
+    /**
+     * The packet size in bytes. This is detected on the first read. Blu-ray `.m2ts` files use 192-byte packets with a
+     * four byte timecode prefix.
+     */
+    public packetSize: number = 0;
+
+    /**
+     * The elementary streams found in the program map tables.
+     */
+    public tracks: TransportStreamTrack[] = [];
+
+    private prefix?: Uint8Array;
+    private programMapPids?: number[];
+    private readonly parsedProgramMapPids: number[] = [];
+    private readonly assemblers = new Map<number, PesAssembler>();
+    private readonly packetQueue: PesPacket[] = [];
+    private ended: boolean = false;
+
+    public constructor(reader: BinaryReader | Uint8Array) {
+        this.reader = reader instanceof Uint8Array ? new ArrayBinaryReader(reader) : reader;
+        if ('requestData' in this.reader) {
+            this.asyncReader = this.reader as AsyncBinaryReader;
+        }
+    }
+
+    /**
+     * Reads the file until all program map tables were found and returns all elementary streams.
+     * If the file has no program map table, the PGS streams are detected by the Blu-ray PID range.
+     * @param maxPackets The maximum number of packets to search for the program map tables.
+     */
+    public async readTracks(maxPackets: number = 10000): Promise<TransportStreamTrack[]> {
+        let count = 0;
+        while (!this.tracksComplete && count < maxPackets && await this.readNextPacket()) {
+            count++;
+        }
+        return this.tracks;
+    }
+
+    /**
+     * Reads the remaining file and returns every PES packet of the given stream.
+     * @param pid The packet identifier of the stream. If not provided, the first PGS or DVB subtitle stream is used.
+     * @param onPacket Is called for every PES packet of the stream in file order.
+     */
+    public async readPackets(pid: number | undefined,
+                             onPacket: (packet: PesPacket) => void | Promise<void>): Promise<void> {
+        let selectedPid = pid;
+        while (true) {
+            while (this.packetQueue.length > 0) {
+                const packet = this.packetQueue.shift()!;
+                if (selectedPid === undefined && this.getTrack(packet.pid)?.isSubtitle) {
+                    selectedPid = packet.pid;
+                }
+                if (packet.pid === selectedPid) {
+                    await onPacket(packet);
+                }
+            }
+
+            if (this.ended) break;
+            if (!await this.readNextPacket()) {
+                // Flushing the incomplete PES packets at the end of the file.
+                this.assemblers.forEach((assembler, assemblerPid) => {
+                    this.finishPesPacket(assemblerPid, assembler);
+                });
+                this.assemblers.clear();
+                this.ended = true;
+            }
+        }
+    }
+
+    private get tracksComplete(): boolean {
+        return this.programMapPids !== undefined &&
+            this.programMapPids.every(pid => this.parsedProgramMapPids.indexOf(pid) >= 0);
+    }
+
+    private getTrack(pid: number): TransportStreamTrack | undefined {
+        return this.tracks.find(t => t.pid === pid);
+    }
+
+    // region Packets
+
+    /**
+     * Reads and processes the next transport stream packet.
+     * @return Returns false if the end of the file was reached.
+     */
+    private async readNextPacket(): Promise<boolean> {
+        if (this.packetSize === 0) {
+            await this.detectPacketSize();
+        }
+
+        const data = await this.readBytes(this.packetSize);
+        if (!data) return false;
+
+        // Removes the four byte timecode prefix of Blu-ray streams.
+        const packet = this.packetSize === 192 ? data.subarray(4) : data;
+
+        // Skipping packets without sync byte. The next packet may be valid again.
+        if (packet[0] === TransportStreamDemuxer.syncByte) {
+            this.processPacket(packet);
+        }
+        return true;
+    }
+
+    private async detectPacketSize(): Promise<void> {
+        // Two packets are needed to verify the sync byte positions.
+        await this.asyncReader?.requestData(192 * 2);
+        const available = Math.min(this.reader.length - this.reader.position, 192 * 2);
+        const data = this.reader.readBytes(available);
+        this.prefix = data;
+
+        if (data[0] === TransportStreamDemuxer.syncByte &&
+            (data.length <= 188 || data[188] === TransportStreamDemuxer.syncByte)) {
+            this.packetSize = 188;
+        } else if (data[4] === TransportStreamDemuxer.syncByte &&
+            (data.length <= 196 || data[196] === TransportStreamDemuxer.syncByte)) {
+            this.packetSize = 192;
+        } else {
+            throw new Error('Invalid transport stream sync byte!');
+        }
+    }
+
+    /**
+     * Reads the given number of bytes. Returns `undefined` if not enough data is available.
+     * @param count The number of bytes to read.
+     */
+    private async readBytes(count: number): Promise<Uint8Array | undefined> {
+        const prefixLength = this.prefix?.length ?? 0;
+        await this.asyncReader?.requestData(count - prefixLength);
+        if (prefixLength + this.reader.length - this.reader.position < count) {
+            return undefined;
+        }
+
+        if (!this.prefix) {
+            return this.reader.readBytes(count);
+        }
+
+        // Using the bytes read ahead for the packet size detection first.
+        const result = new Uint8Array(count);
+        const fromPrefix = Math.min(prefixLength, count);
+        result.set(this.prefix.subarray(0, fromPrefix), 0);
+        this.prefix = fromPrefix < prefixLength ? this.prefix.subarray(fromPrefix) : undefined;
+        if (fromPrefix < count) {
+            result.set(this.reader.readBytes(count - fromPrefix), fromPrefix);
+        }
+        return result;
+    }
+
+    private processPacket(packet: Uint8Array): void {
+        const payloadUnitStart = (packet[1] & 0x40) !== 0;
+        const pid = ((packet[1] & 0x1F) << 8) | packet[2];
+        const adaptationFieldControl = (packet[3] >> 4) & 0x03;
+
+        let offset = 4;
+        if (adaptationFieldControl & 0x02) {
+            offset += 1 + packet[4];
+        }
+        if ((adaptationFieldControl & 0x01) === 0 || offset >= packet.length) return;
+        const payload = packet.subarray(offset);
+
+        if (pid === 0x0000) {
+            if (payloadUnitStart) this.readProgramAssociationTable(payload);
+        } else if (this.programMapPids && this.programMapPids.indexOf(pid) >= 0) {
+            if (payloadUnitStart) this.readProgramMapTable(pid, payload);
+        } else if (this.isSubtitlePid(pid)) {
+            this.assemblePesPacket(pid, payloadUnitStart, payload);
+        }
+    }
+
+    // endregion
+
+    // region Program tables
+
+    /**
+     * Reads the program association table (PAT) with the PIDs of the program map tables.
+     * @param payload The packet payload starting with the pointer field.
+     */
+    private readProgramAssociationTable(payload: Uint8Array): void {
+        const start = 1 + payload[0];
+        if (payload[start] !== 0x00) return;
+
+        const sectionLength = ((payload[start + 1] & 0x0F) << 8) | payload[start + 2];
+        // The section ends with a four byte CRC.
+        const end = Math.min(start + 3 + sectionLength - 4, payload.length);
+
+        const programMapPids: number[] = [];
+        for (let i = start + 8; i + 4 <= end; i += 4) {
+            const programNumber = (payload[i] << 8) | payload[i + 1];
+            const pid = ((payload[i + 2] & 0x1F) << 8) | payload[i + 3];
+            // Program number 0 is the network information table.
+            if (programNumber !== 0) {
+                programMapPids.push(pid);
+            }
+        }
+        this.programMapPids = programMapPids;
+    }
+
+    /**
+     * Reads a program map table (PMT) with the elementary streams of a program.
+     * @param pid The PID of the program map table.
+     * @param payload The packet payload starting with the pointer field.
+     */
+    private readProgramMapTable(pid: number, payload: Uint8Array): void {
+        const start = 1 + payload[0];
+        if (payload[start] !== 0x02) return;
+
+        const sectionLength = ((payload[start + 1] & 0x0F) << 8) | payload[start + 2];
+        const end = Math.min(start + 3 + sectionLength - 4, payload.length);
+        const programInfoLength = ((payload[start + 10] & 0x0F) << 8) | payload[start + 11];
+
+        let i = start + 12 + programInfoLength;
+        while (i + 5 <= end) {
+            const streamType = payload[i];
+            const streamPid = ((payload[i + 1] & 0x1F) << 8) | payload[i + 2];
+            const infoLength = ((payload[i + 3] & 0x0F) << 8) | payload[i + 4];
+
+            let track = this.getTrack(streamPid);
+            if (!track) {
+                track = new TransportStreamTrack();
+                track.pid = streamPid;
+                this.tracks.push(track);
+            }
+            track.streamType = streamType;
+            this.readStreamDescriptors(track, payload.subarray(i + 5, Math.min(i + 5 + infoLength, end)));
+
+            i += 5 + infoLength;
+        }
+
+        if (this.parsedProgramMapPids.indexOf(pid) < 0) {
+            this.parsedProgramMapPids.push(pid);
+        }
+    }
+
+    private readStreamDescriptors(track: TransportStreamTrack, descriptors: Uint8Array): void {
+        let i = 0;
+        while (i + 2 <= descriptors.length) {
+            const tag = descriptors[i];
+            const length = descriptors[i + 1];
+            // ISO 639 language descriptor
+            if (tag === 0x0A && length >= 3) {
+                track.language = String.fromCharCode(descriptors[i + 2], descriptors[i + 3], descriptors[i + 4]);
+            }
+            // DVB subtitling descriptor: only the first subtitle service is used.
+            if (tag === 0x59 && length >= 8) {
+                track.language = String.fromCharCode(descriptors[i + 2], descriptors[i + 3], descriptors[i + 4]);
+                track.compositionPageId = (descriptors[i + 6] << 8) | descriptors[i + 7];
+                track.ancillaryPageId = (descriptors[i + 8] << 8) | descriptors[i + 9];
+            }
+            i += 2 + length;
+        }
+    }
+
+    // endregion
+
+    // region PES
+
+    /**
+     * Checks if the PES packets of the given PID should be reassembled.
+     * @param pid The packet identifier.
+     */
+    private isSubtitlePid(pid: number): boolean {
+        const track = this.getTrack(pid);
+        if (track) {
+            return track.isSubtitle;
+        }
+
+        // Without program map table, we use the Blu-ray PID range for PGS streams.
+        if (!this.programMapPids && pid >= TransportStreamDemuxer.pgsPidFirst &&
+            pid <= TransportStreamDemuxer.pgsPidLast) {
+            const pgsTrack = new TransportStreamTrack();
+            pgsTrack.pid = pid;
+            pgsTrack.streamType = TransportStreamTrack.streamTypePgs;
+            this.tracks.push(pgsTrack);
+            return true;
+        }
+        return false;
+    }
+
+    private assemblePesPacket(pid: number, payloadUnitStart: boolean, payload: Uint8Array): void {
+        let assembler = this.assemblers.get(pid);
+        if (payloadUnitStart) {
+            if (assembler) {
+                this.finishPesPacket(pid, assembler);
+            }
+
+            // The PES packet length excludes the first six bytes. Zero is used for unbounded packets.
+            const packetLength = payload.length >= 6 ? (payload[4] << 8) | payload[5] : 0;
+            assembler = {
+                chunks: [],
+                length: 0,
+                expectedLength: packetLength > 0 ? packetLength + 6 : 0,
+            };
+            this.assemblers.set(pid, assembler);
+        }
+
+        // Skipping continued data of a packet we didn't see the start of.
+        if (!assembler) return;
+
+        // The payload is only a view into the read buffer. We need to copy the data.
+        assembler.chunks.push(payload.slice());
+        assembler.length += payload.length;
+
+        if (assembler.expectedLength > 0 && assembler.length >= assembler.expectedLength) {
+            this.finishPesPacket(pid, assembler);
+            this.assemblers.delete(pid);
+        }
+    }
+
+    private finishPesPacket(pid: number, assembler: PesAssembler): void {
+        const length = assembler.expectedLength > 0
+            ? Math.min(assembler.expectedLength, assembler.length)
+            : assembler.length;
+        const data = new Uint8Array(assembler.length);
+        let offset = 0;
+        for (const chunk of assembler.chunks) {
+            data.set(chunk, offset);
+            offset += chunk.length;
+        }
+
+        const packet = TransportStreamDemuxer.readPesPacket(pid, data.subarray(0, length));
+        if (packet) {
+            this.packetQueue.push(packet);
+        }
+    }
+
+    /**
+     * Reads the header of a PES packet.
+     * @param pid The packet identifier of the stream.
+     * @param data The complete PES packet.
+     */
+    private static readPesPacket(pid: number, data: Uint8Array): PesPacket | undefined {
+        // Checking the start code prefix.
+        if (data.length < 9 || data[0] !== 0x00 || data[1] !== 0x00 || data[2] !== 0x01) {
+            return undefined;
+        }
+
+        const ptsDtsFlags = data[7] >> 6;
+        const headerLength = data[8];
+        const packet: PesPacket = {
+            pid: pid,
+            data: data.subarray(9 + headerLength),
+        };
+        if (ptsDtsFlags & 0x02) {
+            packet.presentationTimestamp = TransportStreamDemuxer.readTimestamp(data, 9);
+        }
+        if (ptsDtsFlags === 0x03) {
+            packet.decodingTimestamp = TransportStreamDemuxer.readTimestamp(data, 14);
+        }
+        return packet;
+    }
+
+    /**
+     * Reads a 33-bit PES timestamp with marker bits.
+     * @param data The PES packet data.
+     * @param offset The offset of the timestamp.
+     */
+    private static readTimestamp(data: Uint8Array, offset: number): number {
+        // Multiplication instead of bit-shifting. The timestamp exceeds 32 bits.
+        const high = (data[offset] >> 1) & 0x07;
+        const middle = ((data[offset + 1] << 8) | data[offset + 2]) >> 1;
+        const low = ((data[offset + 3] << 8) | data[offset + 4]) >> 1;
+        return high * 0x40000000 + middle * 0x8000 + low;
+    }
+
+    // endregion
+}
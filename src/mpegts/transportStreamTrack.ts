@@ -0,0 +1,47 @@
+/**
+ * An elementary stream of a MPEG-2 transport stream.
+ */
+export class TransportStreamTrack {
+    /**
+     * The stream type used for PGS subtitle streams.
+     */
+    public static readonly streamTypePgs = 0x90;
+
+    /**
+     * The stream type used for private PES data like DVB subtitles. The subtitling descriptor identifies the stream.
+     */
+    public static readonly streamTypePrivateData = 0x06;
+
+    /**
+     * The packet identifier of this stream.
+     */
+    public pid: number = 0;
+
+    /**
+     * The stream type from the program map table.
+     */
+    public streamType: number = 0;
+
+    /**
+     * The ISO 639 language code if provided by the program map table.
+     */
+    public language?: string;
+
+    /**
+     * The DVB subtitle page ids if provided by the subtitling descriptor.
+     */
+    public compositionPageId?: number;
+    public ancillaryPageId?: number;
+
+    public get isPgs(): boolean {
+        return this.streamType === TransportStreamTrack.streamTypePgs;
+    }
+
+    public get isDvbSubtitle(): boolean {
+        return this.streamType === TransportStreamTrack.streamTypePrivateData && this.compositionPageId !== undefined;
+    }
+
+    public get isSubtitle(): boolean {
+        return this.isPgs || this.isDvbSubtitle;
+    }
+}
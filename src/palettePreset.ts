@@ -0,0 +1,22 @@
+export enum PalettePreset {
+    /**
+     * The original subtitle colors.
+     */
+    original = 'original',
+
+    /**
+     * Bright colors are mapped to white and dark colors to black. The transparency is kept.
+     */
+    white = 'white',
+
+    /**
+     * Bright colors are mapped to yellow and dark colors to black. The transparency is kept.
+     */
+    yellow = 'yellow',
+
+    /**
+     * Bright colors are mapped to white and dark colors to black without any transparency in between. Every visible
+     * palette entry is fully opaque.
+     */
+    highContrast = 'highContrast',
+}
@@ -3,21 +3,75 @@ import {DisplaySet} from "./pgs/displaySet";
 import {BinaryReader} from "./utils/binaryReader";
 import {ArrayBinaryReader} from "./utils/arrayBinaryReader";
 import {StreamBinaryReader} from "./utils/streamBinaryReader";
-import {SubtitleCompositionData, SubtitleData} from "./subtitleData";
-import {CompositionObject} from "./pgs/presentationCompositionSegment";
-import {PaletteDefinitionSegment} from "./pgs/paletteDefinitionSegment";
-import {ObjectDefinitionSegment} from "./pgs/objectDefinitionSegment";
+import {SubtitleCompositionData, SubtitleData, SubtitleIndexData} from "./subtitleData";
+import {CompositionObject, PresentationCompositionSegment} from "./pgs/presentationCompositionSegment";
+import {PaletteDefinitionSegment, PaletteEntry} from "./pgs/paletteDefinitionSegment";
 import {CombinedBinaryReader} from "./utils/combinedBinaryReader";
 import {RunLengthEncoding} from "./utils/runLengthEncoding";
 import {WindowDefinition} from "./pgs/windowDefinitionSegment";
 import {PgsRendererHelper} from "./pgsRendererHelper";
-
-export interface PgsLoadOptions {
+import {BigEndianBinaryWriter} from "./utils/bigEndianBinaryWriter";
+import {ArrayBinaryWriter} from "./utils/arrayBinaryWriter";
+import {SubtitleLoadOptions} from "./subtitleLoadOptions";
+import {SubtitleFormat} from "./subtitleFormat";
+import {MatroskaDemuxer} from "./matroska/matroskaDemuxer";
+import {TransportStreamDemuxer} from "./mpegts/transportStreamDemuxer";
+import {VobSubIndex} from "./vobsub/vobSubIndex";
+import {VobSubDecoder} from "./vobsub/vobSubDecoder";
+import {SegmentType} from "./pgs/segmentType";
+import {AsyncBinaryReader} from "./utils/asyncBinaryReader";
+import {DvbSubtitleDecoder} from "./dvb/dvbSubtitleDecoder";
+import {TolerantSupReader} from "./pgs/tolerantSupReader";
+import {SubtitleDiagnostic} from "./subtitleDiagnostic";
+import {TimestampNormalizer} from "./utils/timestampNormalizer";
+import {ColorMatrix} from "./colorMatrix";
+import {ColorRange} from "./colorRange";
+import {SubtitleColorAdjustment} from "./subtitleColorAdjustment";
+import {SubtitleStyle} from "./subtitleStyle";
+import {SubtitleCue, SubtitleCueBox} from "./subtitleCue";
+import {Rect} from "./utils/rect";
+import {SubtitleLoadProgress} from "./subtitleLoadProgress";
+import {SubtitleTrackInfo} from "./subtitleTrackInfo";
+import {SubtitleLoadError} from "./subtitleLoadError";
+import {SubtitleLoadErrorReason} from "./subtitleLoadErrorReason";
+import {SubtitleLoader, SubtitleUnauthorizedHandler} from "./subtitleLoader";
+
+export interface PgsLoadOptions extends SubtitleLoadOptions {
     /**
      * Async pgs streams can return partial updates. When invoked, the `displaySets` and `updateTimestamps` are updated
      * to the last available subtitle. There is a minimum threshold of one-second to prevent to many updates.
      */
-    onProgress?: () => void;
+    onProgress?: (progress: SubtitleLoadProgress) => void;
+
+    /**
+     * Is called for every problem found in a damaged subtitle file if `errorRecovery` is enabled.
+     */
+    onDiagnostic?: (diagnostic: SubtitleDiagnostic) => void;
+
+    /**
+     * Cancels the download and parsing. The load is rejected with an `aborted` load error.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Loads the subtitle urls instead of `fetch`.
+     */
+    loader?: SubtitleLoader;
+
+    /**
+     * Is called if a subtitle request was rejected with `401 Unauthorized` to retry it with new request options.
+     */
+    onUnauthorized?: SubtitleUnauthorizedHandler;
+}
+
+/**
+ * An object in the object buffer of the current epoch. The object data can be split into multiple segments.
+ */
+interface PgsObjectBuffer {
+    versionNumber: number;
+    width: number;
+    height: number;
+    dataChunks: Uint8Array[];
 }
 
 /**
@@ -73,25 +127,121 @@ export class Pgs {
     public displaySets: DisplaySet[] = [];
 
     /**
-     * The PGS timestamps when a display set with the same index is presented.
+     * The PGS timestamps when a display set with the same index is presented. These are the presentation timestamps
+     * of the display sets in the 90 kHz clock, corrected for clock wraparounds and discontinuities. The values are
+     * always increasing.
      */
     public updateTimestamps: number[] = [];
 
+    private readonly timestampNormalizer = new TimestampNormalizer();
+
     /**
      * LRU cache for computed subtitle data.
      */
     private subtitleCache = new SubtitleCache(8);
 
     /**
-     * Loads the subtitle file from the given url.
+     * The cues are built on first request and are reset when display sets are added or changed.
+     */
+    private cues?: SubtitleCue[];
+
+    private colorMatrix: ColorMatrix = ColorMatrix.bt601;
+    private colorRange: ColorRange = ColorRange.full;
+    private colorAdjustment?: SubtitleColorAdjustment;
+    private style?: SubtitleStyle;
+    private indexedOutput: boolean = false;
+
+    /**
+     * The decoded palette indices by the first data chunk of the object. Palette-only updates and acquisition points
+     * reuse the same object data, so the indices don't need to be decoded again.
+     */
+    private readonly indexDataCache = new WeakMap<Uint8Array, { chunkCount: number, indexData: SubtitleIndexData }>();
+
+    /**
+     * The id of the last decoded index data. Every decoded object gets a new id.
+     */
+    private lastIndexDataId: number = 0;
+
+    /**
+     * Maps every palette index to itself. This is used to decode the palette indices without color lookup.
+     */
+    private static readonly identityIndices = new Uint8Array(256).map((_, i) => i);
+
+    /**
+     * Sets the YCbCr to RGB conversion of the palettes. This discards all cached subtitle data.
+     * @param matrix The YCbCr matrix. `auto` selects the matrix by the video size of each presentation composition.
+     * Defaults to BT.601.
+     * @param range The value range of the palette entries. Defaults to the full range.
+     */
+    public setColorConversion(matrix: ColorMatrix = ColorMatrix.bt601, range: ColorRange = ColorRange.full): void {
+        this.colorMatrix = matrix;
+        this.colorRange = range;
+        this.subtitleCache.clear();
+    }
+
+    /**
+     * Sets the brightness, gamma and opacity adjustment of the palettes. This discards all cached subtitle data, but
+     * the display sets don't need to be loaded again.
+     * @param adjustment The new adjustment or undefined to show the original colors.
+     */
+    public setColorAdjustment(adjustment?: SubtitleColorAdjustment): void {
+        this.colorAdjustment = adjustment;
+        this.subtitleCache.clear();
+    }
+
+    /**
+     * Sets the subtitle style. Only the palette preset and the tint are applied to the palettes, the other effects
+     * are drawn by the renderer. This discards all cached subtitle data.
+     * @param style The new style or undefined to show the original colors.
+     */
+    public setStyle(style?: SubtitleStyle): void {
+        this.style = style;
+        this.subtitleCache.clear();
+    }
+
+    /**
+     * Sets if the subtitles are built as palette indices with a separate palette instead of RGBA pixel data. This is
+     * used by renderers that look up the colors on their own, e.g. the WebGL renderer. This discards all cached
+     * subtitle data.
+     * @param indexedOutput If true, the `indexData` and `palette` are provided instead of the `pixelData`.
+     */
+    public setIndexedOutput(indexedOutput: boolean): void {
+        this.indexedOutput = indexedOutput;
+        this.subtitleCache.clear();
+    }
+
+    /**
+     * Returns the YCbCr matrix used for the given presentation composition.
+     * @param presentationComposition The presentation composition defining the video size.
+     */
+    public getColorMatrix(presentationComposition: PresentationCompositionSegment): ColorMatrix {
+        if (this.colorMatrix !== ColorMatrix.auto) return this.colorMatrix;
+        const width = presentationComposition.width;
+        const height = presentationComposition.height;
+        if (width > 1920 || height > 1080) return ColorMatrix.bt2020;
+        if (width > 720 || height > 576) return ColorMatrix.bt709;
+        return ColorMatrix.bt601;
+    }
+
+    /**
+     * Loads the subtitle file from the given url. A new load cancels the previous one.
      * @param url The url to the PGS file.
      * @param options Optional loading options. Use `onProgress` as callback for partial update while loading.
+     * @returns The track info. Failed and cancelled loads are rejected with a `SubtitleLoadError`.
      */
-    public async loadFromUrl(url: string, options?: PgsLoadOptions): Promise<void> {
-        const response = await fetch(url);
-        if (!response.ok) {
-            throw new Error(`HTTP error: ${response.status}`);
+    public async loadFromUrl(url: string, options?: PgsLoadOptions): Promise<SubtitleTrackInfo> {
+        return this.runLoad(options?.signal, signal => this.loadFromResponse(url, { ...options, signal: signal }));
+    }
+
+    private async loadFromResponse(url: string, options: PgsLoadOptions): Promise<void> {
+        // VobSub subtitles require the separate index file.
+        if (options.format === SubtitleFormat.vobSub && options.vobSubIndex === undefined) {
+            const indexUrl = options.vobSubIndexUrl ?? url.replace(/\.sub$/i, '.idx');
+            const indexResponse = await Pgs.fetch(indexUrl, options);
+            options = { ...options, vobSubIndex: await indexResponse.text() };
         }
+
+        const response = await Pgs.fetch(url, options);
         // The `body` and therefore readable streams are only available since Chrome 105. With this available we can utilize
         // partial reading while downloading. As a fallback we wait for the whole file to download before reading.
         const stream = response.body?.getReader();
@@ -103,52 +253,435 @@ export class Pgs {
             reader = new ArrayBinaryReader(new Uint8Array(buffer));
         }
 
-        await this.loadFromReader(reader, options);
+        // The content length is only a hint. It is the compressed size if the response is encoded.
+        const contentLength = parseInt(response.headers.get('Content-Length') ?? '', 10);
+        await this.loadFromReaderWithSize(reader, isNaN(contentLength) ? undefined : contentLength, options);
     }
 
     /**
-     * Loads the subtitle file from the given buffer.
+     * Fetches the given url with the request options and loader of the load options. Unauthorized requests are retried
+     * once if the handler returns new request options. Failed requests are converted into network errors.
+     * @param url The url to fetch.
+     * @param options The load options.
+     */
+    private static async fetch(url: string, options: PgsLoadOptions): Promise<Response> {
+        const loader = options.loader ?? ((url: string, init: RequestInit) => fetch(url, init));
+        const init: RequestInit = { ...options.requestInit, signal: options.signal };
+        let response: Response;
+        try {
+            response = await loader(url, init);
+            if (response.status === 401 && options.onUnauthorized) {
+                const retryInit = await options.onUnauthorized(url, init);
+                if (retryInit) {
+                    response = await loader(url, { ...retryInit, signal: options.signal });
+                }
+            }
+        } catch (error) {
+            throw new SubtitleLoadError(SubtitleLoadErrorReason.network,
+                error instanceof Error ? error.message : String(error));
+        }
+        if (!response.ok) {
+            throw new SubtitleLoadError(SubtitleLoadErrorReason.network, `HTTP error: ${response.status}`);
+        }
+        return response;
+    }
+
+    /**
+     * Loads the subtitle file from the given buffer. A new load cancels the previous one.
      * @param buffer The PGS data.
      * @param options Optional loading options. Use `onProgress` as callback for partial update while loading.
+     * @returns The track info. Failed and cancelled loads are rejected with a `SubtitleLoadError`.
      */
-    public async loadFromBuffer(buffer: ArrayBuffer, options?: PgsLoadOptions): Promise<void> {
-        await this.loadFromReader(new ArrayBinaryReader(new Uint8Array(buffer)), options);
+    public async loadFromBuffer(buffer: ArrayBuffer, options?: PgsLoadOptions): Promise<SubtitleTrackInfo> {
+        return this.runLoad(options?.signal, signal => this.loadFromReaderWithSize(
+            new ArrayBinaryReader(new Uint8Array(buffer)),
+            buffer.byteLength, { ...options, signal: signal }));
     }
 
     /**
-     * Loads the subtitle file from the given buffer.
+     * Loads the subtitle file from the given buffer. A new load cancels the previous one.
      * @param reader The PGS data reader.
      * @param options Optional loading options. Use `onProgress` as callback for partial update while loading.
+     * @returns The track info. Failed and cancelled loads are rejected with a `SubtitleLoadError`.
      */
-    public async loadFromReader(reader: BinaryReader, options?: PgsLoadOptions): Promise<void> {
-        this.displaySets = [];
-        this.updateTimestamps = [];
-        this.subtitleCache.clear();
+    public async loadFromReader(reader: BinaryReader, options?: PgsLoadOptions): Promise<SubtitleTrackInfo> {
+        return this.runLoad(options?.signal, signal => this.loadFromReaderWithSize(reader, undefined,
+            { ...options, signal: signal }));
+    }
+
+    /**
+     * Cancels the current load. The load is rejected with an `aborted` load error.
+     */
+    public abortLoad(): void {
+        this.loadAbortController?.abort();
+        this.loadAbortController = undefined;
+    }
+
+    private loadAbortController?: AbortController;
+
+    /**
+     * Runs the given load and converts errors into load errors. The previous load is cancelled, since it would
+     * otherwise add its display sets to the new subtitle.
+     * @param callerSignal The optional signal of the caller to cancel the load.
+     * @param load The load to run with the signal of this load.
+     */
+    private async runLoad(callerSignal: AbortSignal | undefined,
+                          load: (signal: AbortSignal) => Promise<void>): Promise<SubtitleTrackInfo> {
+        this.abortLoad();
+        const controller = new AbortController();
+        this.loadAbortController = controller;
+        const signal = controller.signal;
+        const onAbort = () => controller.abort();
+        if (callerSignal?.aborted) {
+            controller.abort();
+        } else {
+            callerSignal?.addEventListener('abort', onAbort, { once: true });
+        }
+
+        try {
+            await load(signal);
+            Pgs.throwIfAborted(signal);
+        } catch (error) {
+            throw SubtitleLoadError.from(error, signal.aborted);
+        } finally {
+            // Long-lived caller signals must not keep finished loads alive.
+            callerSignal?.removeEventListener('abort', onAbort);
+            if (this.loadAbortController === controller) {
+                this.loadAbortController = undefined;
+            }
+        }
+        return this.getTrackInfo();
+    }
+
+    private static throwIfAborted(signal?: AbortSignal): void {
+        if (signal?.aborted) {
+            throw SubtitleLoadError.aborted();
+        }
+    }
+
+    /**
+     * Gets the metadata of the loaded display sets.
+     */
+    public getTrackInfo(): SubtitleTrackInfo {
+        const presentationComposition = this.displaySets.find(displaySet => displaySet.presentationComposition)
+            ?.presentationComposition;
+        const updateTimestampCount = this.updateTimestamps.length;
+        const duration = updateTimestampCount > 0
+            ? (this.updateTimestamps[updateTimestampCount - 1] - this.updateTimestamps[0]) / 90000
+            : 0;
+        return {
+            width: presentationComposition?.width ?? 0,
+            height: presentationComposition?.height ?? 0,
+            displaySetCount: this.displaySets.length,
+            duration: duration
+        };
+    }
+
+    /**
+     * The reader and file size of the current load, used to report the progress.
+     */
+    private loadingReader?: BinaryReader;
+    private loadingTotalBytes?: number;
+
+    private async loadFromReaderWithSize(reader: BinaryReader, totalBytes: number | undefined,
+                                         options?: PgsLoadOptions): Promise<void> {
+        this.clear();
+        this.loadingReader = reader;
+        this.loadingTotalBytes = totalBytes;
+        try {
+            await this.loadFromFormatReader(reader, options);
+        } finally {
+            // A cancelled load can finish after the next load has started.
+            if (this.loadingReader === reader) {
+                this.loadingReader = undefined;
+                this.loadingTotalBytes = undefined;
+            }
+        }
+    }
+
+    private async loadFromFormatReader(reader: BinaryReader, options?: PgsLoadOptions): Promise<void> {
+        switch (options?.format ?? SubtitleFormat.sup) {
+            case SubtitleFormat.sup:
+                await this.loadFromSupReader(reader, options);
+                break;
+            case SubtitleFormat.matroska:
+                await this.loadFromMatroskaReader(reader, options);
+                break;
+            case SubtitleFormat.transportStream:
+                await this.loadFromTransportStreamReader(reader, options);
+                break;
+            case SubtitleFormat.vobSub:
+                await this.loadFromVobSubReader(reader, options);
+                break;
+        }
+
+        // Call final update.
+        if (options?.onProgress) {
+            options.onProgress(this.getLoadProgress());
+        }
+    }
 
-        let lastUpdateTime = performance.now();
+    private async loadFromSupReader(reader: BinaryReader, options?: PgsLoadOptions): Promise<void> {
+        if (options?.errorRecovery) {
+            const tolerantReader = new TolerantSupReader(reader, options.onDiagnostic);
+            let displaySet: DisplaySet | undefined;
+            while ((displaySet = await tolerantReader.readDisplaySet())) {
+                this.addDisplaySet(displaySet, options);
+            }
+            return;
+        }
 
         const bigEndianReader = new BigEndianBinaryReader(reader);
         while (!reader.eof) {
             const displaySet = new DisplaySet();
             await displaySet.read(bigEndianReader, true);
-            this.displaySets.push(displaySet);
-            this.updateTimestamps.push(displaySet.presentationTimestamp);
-
-            // For async loading, we support frequent progress updates. Sending one update for every new display set
-            // would be too much. Instead, we use a one-second threshold.
-            if (options?.onProgress) {
-                const now = performance.now();
-                if (now > lastUpdateTime + 1000) {
-                    lastUpdateTime = now;
-                    options.onProgress();
-                }
+            this.addDisplaySet(displaySet, options);
+        }
+    }
+
+    private async loadFromMatroskaReader(reader: BinaryReader, options?: PgsLoadOptions): Promise<void> {
+        const demuxer = new MatroskaDemuxer(reader);
+        const tracks = await demuxer.readTracks();
+
+        const track = options?.trackNumber !== undefined
+            ? tracks.find(t => t.number === options.trackNumber)
+            : tracks.find(t => t.isPgs || t.isDvbSubtitle);
+        if (!track) {
+            throw new Error('No subtitle track found in Matroska file!');
+        }
+
+        if (track.isDvbSubtitle) {
+            // The codec private data contains the composition and ancillary page id.
+            const codecPrivate = track.codecPrivate;
+            const decoder = codecPrivate && codecPrivate.length >= 4
+                ? new DvbSubtitleDecoder((codecPrivate[0] << 8) | codecPrivate[1],
+                    (codecPrivate[2] << 8) | codecPrivate[3])
+                : new DvbSubtitleDecoder();
+            await demuxer.readBlocks(track.number, (block) => {
+                this.addDisplaySets(decoder.decode(block.data, block.presentationTimestamp), options);
+            });
+            this.addDisplaySets(decoder.flush(), options);
+            return;
+        }
+        if (!track.isPgs) {
+            throw new Error(`Unsupported Matroska codec ${track.codecId}!`);
+        }
+
+        // Matroska blocks contain the PGS segments without the header. The timestamp is stored in the block.
+        await demuxer.readBlocks(track.number, async (block) => {
+            await this.appendSegments(block.data, block.presentationTimestamp, block.presentationTimestamp, options);
+        });
+    }
+
+    private async loadFromTransportStreamReader(reader: BinaryReader, options?: PgsLoadOptions): Promise<void> {
+        const demuxer = new TransportStreamDemuxer(reader);
+
+        // DVB subtitle streams need their own decoder. It is created with the first packet of the stream.
+        let dvbDecoder: DvbSubtitleDecoder | undefined;
+        let dvbPresentationTimestamp = 0;
+
+        // Every PES packet contains PGS segments without the header. The timestamps are stored in the PES header.
+        await demuxer.readPackets(options?.pid, async (packet) => {
+            const track = demuxer.tracks.find(t => t.pid === packet.pid);
+            if (track?.isDvbSubtitle) {
+                dvbDecoder = dvbDecoder ?? new DvbSubtitleDecoder(track.compositionPageId, track.ancillaryPageId);
+                dvbPresentationTimestamp = packet.presentationTimestamp ?? dvbPresentationTimestamp;
+                this.addDisplaySets(dvbDecoder.decode(packet.data, dvbPresentationTimestamp), options);
+                return;
             }
+
+            const presentationTimestamp = packet.presentationTimestamp ?? this.pendingPresentationTimestamp;
+            const decodingTimestamp = packet.decodingTimestamp ?? presentationTimestamp;
+            await this.appendSegments(packet.data, presentationTimestamp, decodingTimestamp, options);
+        });
+
+        if (dvbDecoder) {
+            this.addDisplaySets(dvbDecoder.flush(), options);
         }
+    }
 
-        // Call final update.
+    private async loadFromVobSubReader(reader: BinaryReader, options?: PgsLoadOptions): Promise<void> {
+        if (options?.vobSubIndex === undefined) {
+            throw new Error('The VobSub index file is missing!');
+        }
+
+        // The index file points to random positions in the `.sub` file. We need the whole file in memory.
+        if ('requestData' in reader) {
+            const asyncReader = reader as AsyncBinaryReader;
+            while (await asyncReader.requestData(asyncReader.length - asyncReader.position + 1)) {
+                // Continue loading
+            }
+        }
+        const data = reader.readBytes(reader.length - reader.position);
+
+        const decoder = new VobSubDecoder(VobSubIndex.parse(options.vobSubIndex), data);
+        this.addDisplaySets(decoder.decodeDisplaySets(options.trackNumber), options);
+    }
+
+    /**
+     * Removes all display sets and resets the segment parser of `appendSegments`.
+     */
+    public clear(): void {
+        this.displaySets = [];
+        this.updateTimestamps = [];
+        this.timestampNormalizer.reset();
+        this.subtitleCache.clear();
+        this.cues = undefined;
+        this.pendingSegments = [];
+        this.partialSegment = undefined;
+        this.lastProgressTime = performance.now();
+    }
+
+    /**
+     * The complete segments of the current display set received by `appendSegments`, waiting for the end segment.
+     */
+    private pendingSegments: Uint8Array[] = [];
+    private pendingPresentationTimestamp: number = 0;
+    private pendingDecodingTimestamp: number = 0;
+
+    /**
+     * The incomplete segment at the end of the last packet received by `appendSegments`.
+     */
+    private partialSegment?: Uint8Array;
+    private partialPresentationTimestamp: number = 0;
+    private partialDecodingTimestamp: number = 0;
+
+    /**
+     * Appends PGS segments without the "PG" header, as delivered by container demuxers or media source pipelines.
+     * A display set is added to `displaySets` and `updateTimestamps` once its end segment was received. Segments can
+     * be split across multiple packets. Use `clear` before appending a new subtitle stream.
+     * @param data The segment data. This can contain multiple segments or only a part of a segment.
+     * @param presentationTimestamp The presentation timestamp of this packet in the 90 kHz clock.
+     * @param decodingTimestamp The decoding timestamp of this packet in the 90 kHz clock. Defaults to the presentation
+     * timestamp.
+     * @param options Optional loading options. Use `onProgress` as callback for partial updates.
+     * @return Returns the number of completed display sets.
+     */
+    public async appendSegments(data: Uint8Array, presentationTimestamp: number, decodingTimestamp?: number,
+                                options?: PgsLoadOptions): Promise<number> {
+        decodingTimestamp = decodingTimestamp ?? presentationTimestamp;
+
+        // Continues the incomplete segment of the previous packet. The timestamps of a segment are taken from the
+        // packet it started in.
+        let segmentPresentationTimestamp = presentationTimestamp;
+        let segmentDecodingTimestamp = decodingTimestamp;
+        if (this.partialSegment) {
+            const combined = new Uint8Array(this.partialSegment.length + data.length);
+            combined.set(this.partialSegment, 0);
+            combined.set(data, this.partialSegment.length);
+            data = combined;
+            segmentPresentationTimestamp = this.partialPresentationTimestamp;
+            segmentDecodingTimestamp = this.partialDecodingTimestamp;
+            this.partialSegment = undefined;
+        }
+
+        let count = 0;
+        let position = 0;
+        while (position + 3 <= data.length) {
+            const type = data[position];
+            const size = (data[position + 1] << 8) + data[position + 2];
+            if (position + 3 + size > data.length) break;
+
+            // The packet data may be reused by the caller. We need to copy the segments.
+            this.pendingSegments.push(data.slice(position, position + 3 + size));
+            position += 3 + size;
+
+            // The display set timestamp is taken from the presentation composition like in `DisplaySet.read`.
+            if (type === SegmentType.presentationComposition) {
+                this.pendingPresentationTimestamp = segmentPresentationTimestamp;
+                this.pendingDecodingTimestamp = segmentDecodingTimestamp;
+            }
+            segmentPresentationTimestamp = presentationTimestamp;
+            segmentDecodingTimestamp = decodingTimestamp;
+
+            if (type === SegmentType.end) {
+                const displaySet = new DisplaySet();
+                await displaySet.read(new BigEndianBinaryReader(new CombinedBinaryReader(this.pendingSegments)), false);
+                displaySet.presentationTimestamp = this.pendingPresentationTimestamp;
+                displaySet.decodingTimestamp = this.pendingDecodingTimestamp;
+                this.pendingSegments = [];
+                this.addDisplaySet(displaySet, options);
+                count++;
+            }
+        }
+
+        if (position < data.length) {
+            this.partialSegment = data.slice(position);
+            this.partialPresentationTimestamp = segmentPresentationTimestamp;
+            this.partialDecodingTimestamp = segmentDecodingTimestamp;
+        }
+        return count;
+    }
+
+    private lastProgressTime: number = 0;
+
+    /**
+     * Gets the loading state of the current load.
+     */
+    private getLoadProgress(): SubtitleLoadProgress {
+        return {
+            loadedBytes: this.loadingReader?.position ?? 0,
+            totalBytes: this.loadingTotalBytes,
+            displaySets: this.displaySets.length
+        };
+    }
+
+    /**
+     * Adds a loaded display set and invokes the progress update.
+     * @param displaySet The loaded display set.
+     * @param options Optional loading options.
+     */
+    private addDisplaySet(displaySet: DisplaySet, options?: PgsLoadOptions): void {
+        // Stops a cancelled load before it modifies the display sets of the next load.
+        Pgs.throwIfAborted(options?.signal);
+        this.displaySets.push(displaySet);
+        this.updateTimestamps.push(this.timestampNormalizer.normalize(displaySet.presentationTimestamp));
+        this.cues = undefined;
+
+        // For async loading, we support frequent progress updates. Sending one update for every new display set
+        // would be too much. Instead, we use a one-second threshold.
         if (options?.onProgress) {
-            options.onProgress();
+            const now = performance.now();
+            if (now > this.lastProgressTime + 1000) {
+                this.lastProgressTime = now;
+                options.onProgress(this.getLoadProgress());
+            }
+        }
+    }
+
+    /**
+     * Adds the display sets of a decoder that converts another subtitle format.
+     * @param displaySets The converted display sets.
+     * @param options Optional loading options.
+     */
+    private addDisplaySets(displaySets: DisplaySet[], options?: PgsLoadOptions): void {
+        for (const displaySet of displaySets) {
+            this.addDisplaySet(displaySet, options);
+        }
+    }
+
+    /**
+     * Rebuilds the update timestamps and clears the subtitle cache. This must be called after modifying the
+     * `displaySets`.
+     */
+    public invalidate(): void {
+        this.timestampNormalizer.reset();
+        this.updateTimestamps = this.displaySets.map(displaySet =>
+            this.timestampNormalizer.normalize(displaySet.presentationTimestamp));
+        this.subtitleCache.clear();
+        this.cues = undefined;
+    }
+
+    /**
+     * Writes the current display sets as PGS file.
+     */
+    public saveToBuffer(): ArrayBuffer {
+        const arrayWriter = new ArrayBinaryWriter();
+        const writer = new BigEndianBinaryWriter(arrayWriter);
+        for (const displaySet of this.displaySets) {
+            displaySet.write(writer, true);
         }
+        return arrayWriter.toUint8Array().buffer as ArrayBuffer;
     }
 
     /**
@@ -157,6 +690,9 @@ export class Pgs {
      * @param index The index of the display set to cache.
      */
     public cacheSubtitleAtIndex(index: number): void {
+        // Display sets can still be appended. We must not cache an empty result for indices that are not loaded yet.
+        if (index < 0 || index >= this.displaySets.length) return;
+
         // Only cache if not already cached
         if (this.subtitleCache.get(index) === null) {
             const subtitleData = this.computeSubtitleAtIndex(index);
@@ -164,6 +700,83 @@ export class Pgs {
         }
     }
 
+    /**
+     * Returns the indices of all display sets containing forced subtitles.
+     */
+    public getForcedIndices(): number[] {
+        const indices: number[] = [];
+        for (let i = 0; i < this.displaySets.length; i++) {
+            if (this.displaySets[i].isForced) {
+                indices.push(i);
+            }
+        }
+        return indices;
+    }
+
+    /**
+     * Gets the visible subtitles with start and end time. Each display set with visible composition objects starts a
+     * cue, which ends with the next display set that clears or replaces it. The last display set is never shown, so
+     * a cue without end is not included.
+     */
+    public getCues(): SubtitleCue[] {
+        if (this.cues) return this.cues;
+
+        const cues: SubtitleCue[] = [];
+        const objects = new Map<number, PgsObjectBuffer>();
+        const palettes = new Map<number, PaletteDefinitionSegment>();
+        const windows = new Map<number, WindowDefinition>();
+        const area = new Rect();
+        let current: SubtitleCue | undefined = undefined;
+        for (let i = 0; i < this.displaySets.length; i++) {
+            const displaySet = this.displaySets[i];
+            Pgs.applyDisplaySet(displaySet, objects, palettes, windows);
+            const presentationComposition = displaySet.presentationComposition;
+            if (!presentationComposition) continue;
+
+            // A palette-only update keeps the shown objects, so fades are part of the current cue.
+            if (current && (presentationComposition.paletteUpdateFlag & 0x80)) continue;
+
+            const time = this.updateTimestamps[i] / 90000;
+            if (current) {
+                current.endTime = time;
+                cues.push(current);
+                current = undefined;
+            }
+
+            const boundingBoxes: SubtitleCueBox[] = [];
+            let forced = false;
+            for (const compositionObject of presentationComposition.compositionObjects) {
+                const window = windows.get(compositionObject.windowId);
+                const object = objects.get(compositionObject.id);
+                if (!window || !object || object.dataChunks.length === 0) continue;
+
+                PgsRendererHelper.getVisibleArea(new SubtitleCompositionData(compositionObject, window),
+                    object.width, object.height, area);
+                if (area.empty) continue;
+
+                boundingBoxes.push({ x: area.x, y: area.y, width: area.width, height: area.height });
+                forced = forced || compositionObject.isForced;
+            }
+
+            if (boundingBoxes.length > 0) {
+                current = {
+                    index: cues.length,
+                    displaySetIndex: i,
+                    startTime: time,
+                    endTime: time,
+                    compositionCount: boundingBoxes.length,
+                    forced: forced,
+                    width: presentationComposition.width,
+                    height: presentationComposition.height,
+                    boundingBoxes: boundingBoxes
+                };
+            }
+        }
+
+        this.cues = cues;
+        return cues;
+    }
+
     /**
      * Renders the subtitle at the given timestamp.
      * @param time The timestamp in seconds.
@@ -178,6 +791,8 @@ export class Pgs {
      * @param index The index of the display set to render.
      */
     public getSubtitleAtIndex(index: number): SubtitleData | undefined {
+        if (index < 0 || index >= this.displaySets.length) return undefined;
+
         // Check cache first
         const cached = this.subtitleCache.get(index);
         if (cached !== null) {
@@ -200,85 +815,173 @@ export class Pgs {
         }
 
         const displaySet = this.displaySets[index];
-        if (!displaySet.presentationComposition) return undefined;
-
-        // We need to collect all valid objects and palettes up to this point. PGS can update and reuse elements from
-        // previous display sets. The `compositionState` defines if the previous elements should be cleared.
-        // If it is `0` previous elements should be kept. Because the user can seek through the file, we can not store
-        // previous elements, and we should collect these elements for every new render.
-        const ctxObjects: ObjectDefinitionSegment[] = [];
-        const ctxPalettes: PaletteDefinitionSegment[] = [];
-        const ctxWindows: WindowDefinition[] = [];
-        let curIndex = index;
-        while (curIndex >= 0) {
-            const currentSet = this.displaySets[curIndex];
-            // Because we are moving backwards, we would end up with the inverted array order.
-            // We'll use `unshift` to add these elements to the front of the array.
-            ctxObjects.unshift(...currentSet.objectDefinitions);
-            ctxPalettes.unshift(...currentSet.paletteDefinitions);
-            // `flatMap` is available since Chrome 69.
-            for (const windowDefinition of currentSet.windowDefinitions) {
-                ctxWindows.unshift(...windowDefinition.windows);
-            }
-
-            // Any other state that `0` frees all previous segments, so we can stop here.
-            if (currentSet.presentationComposition?.compositionState !== 0) {
-                break;
-            }
+        const presentationComposition = displaySet.presentationComposition;
+        if (!presentationComposition) return undefined;
+
+        // PGS follows the HDMV decoder model: objects, palettes and windows are kept in buffers for the whole epoch
+        // and can be updated by id and version in later display sets. Because the user can seek through the file, we
+        // can not keep these buffers between renders. Instead, the buffers are rebuilt from the epoch start.
+        let startIndex = index;
+        while (startIndex > 0 && !Pgs.isEpochStart(this.displaySets[startIndex])) {
+            startIndex--;
+        }
 
-            curIndex--;
+        const objects = new Map<number, PgsObjectBuffer>();
+        const palettes = new Map<number, PaletteDefinitionSegment>();
+        const windows = new Map<number, WindowDefinition>();
+        for (let i = startIndex; i <= index; i++) {
+            Pgs.applyDisplaySet(this.displaySets[i], objects, palettes, windows);
         }
 
         // Find the used palette for this composition.
-        const palette = ctxPalettes
-            .find(w => w.id === displaySet.presentationComposition?.paletteId);
+        const palette = palettes.get(presentationComposition.paletteId);
         if (!palette) return undefined;
+        // The color lookup is rebuilt on every render. A palette can be shared by compositions of different sizes.
+        palette.updateRgba(this.getColorMatrix(presentationComposition), this.colorRange, this.colorAdjustment,
+            this.style);
 
         const compositionData: SubtitleCompositionData[] = [];
-        for (const compositionObject of displaySet.presentationComposition.compositionObjects) {
+        for (const compositionObject of presentationComposition.compositionObjects) {
             // Find the window to draw on.
-            const window = ctxWindows.find(w => w.id === compositionObject.windowId);
+            const window = windows.get(compositionObject.windowId);
             if (!window) continue;
 
             // Builds the subtitle.
-            const pixelData = this.getPixelDataFromComposition(compositionObject, palette, ctxObjects);
-            if (pixelData) {
-                compositionData.push(new SubtitleCompositionData(compositionObject, window, pixelData));
+            if (this.indexedOutput) {
+                const indexData = this.getIndexDataFromComposition(compositionObject, objects);
+                if (indexData) {
+                    compositionData.push(new SubtitleCompositionData(compositionObject, window, undefined, indexData));
+                }
+            } else {
+                const pixelData = this.getPixelDataFromComposition(compositionObject, palette, objects);
+                if (pixelData) {
+                    compositionData.push(new SubtitleCompositionData(compositionObject, window, pixelData));
+                }
             }
         }
 
         if (compositionData.length === 0) return undefined;
 
-        return new SubtitleData(displaySet.presentationComposition.width, displaySet.presentationComposition.height,
-            compositionData);
+        return new SubtitleData(presentationComposition.width, presentationComposition.height, compositionData,
+            this.indexedOutput ? Pgs.getPaletteColors(palette) : undefined);
+    }
+
+    private static isEpochStart(displaySet: DisplaySet): boolean {
+        return ((displaySet.presentationComposition?.compositionState ?? 0) & 0x80) !== 0;
     }
 
+    /**
+     * Updates the decoder buffers with the segments of the given display set.
+     * @param displaySet The display set to apply.
+     * @param objects The object buffer by object id.
+     * @param palettes The palettes by palette id.
+     * @param windows The windows by window id.
+     */
+    private static applyDisplaySet(displaySet: DisplaySet, objects: Map<number, PgsObjectBuffer>,
+                                   palettes: Map<number, PaletteDefinitionSegment>,
+                                   windows: Map<number, WindowDefinition>): void {
+        // An epoch start frees all previous elements. Acquisition points and normal cases keep them.
+        if (Pgs.isEpochStart(displaySet)) {
+            objects.clear();
+            palettes.clear();
+            windows.clear();
+        }
 
-    private getPixelDataFromComposition(composition: CompositionObject, palette: PaletteDefinitionSegment,
-                                        ctxObjects: ObjectDefinitionSegment[]): ImageData | undefined {
-        // Multiple object definition can define a single subtitle image.
-        // However, only the first element in sequence hold the image size.
-        let width: number = 0;
-        let height: number = 0;
-        const dataChunks: Uint8Array[] = [];
-        for (const ods of ctxObjects) {
-            if (ods.id != composition.id) continue;
-            if (ods.isFirstInSequence) {
-                width = ods.width;
-                height = ods.height;
+        for (const windowDefinition of displaySet.windowDefinitions) {
+            for (const window of windowDefinition.windows) {
+                windows.set(window.id, window);
             }
+        }
 
-            if (ods.data) {
-                dataChunks.push(ods.data);
+        for (const pds of displaySet.paletteDefinitions) {
+            // A palette definition only replaces the given entries. All other entries keep their previous color.
+            // This is used for fades, which only update the alpha values.
+            const entries: PaletteEntry[] = [];
+            for (const entry of palettes.get(pds.id)?.entries ?? []) {
+                entries[entry.id] = entry;
+            }
+            for (const entry of pds.entries) {
+                entries[entry.id] = entry;
+            }
+
+            // The loaded segments must not be modified, not even the first palette of the epoch. They are shared by
+            // every render.
+            const palette = new PaletteDefinitionSegment();
+            palette.id = pds.id;
+            palette.versionNumber = pds.versionNumber;
+            palette.entries = entries.filter(entry => entry !== undefined);
+            palettes.set(pds.id, palette);
+        }
+
+        // A palette-only update keeps the current objects.
+        if ((displaySet.presentationComposition?.paletteUpdateFlag ?? 0) & 0x80) return;
+
+        for (const ods of displaySet.objectDefinitions) {
+            if (ods.isFirstInSequence) {
+                // A new object definition replaces the previous object with the same id.
+                objects.set(ods.id, {
+                    versionNumber: ods.versionNumber,
+                    width: ods.width,
+                    height: ods.height,
+                    dataChunks: ods.data ? [ods.data] : [],
+                });
+            } else {
+                // Continued data is only added to the same object version.
+                const object = objects.get(ods.id);
+                if (object && object.versionNumber === ods.versionNumber && ods.data) {
+                    object.dataChunks.push(ods.data);
+                }
             }
         }
-        if (dataChunks.length == 0) {
+    }
+
+    private getIndexDataFromComposition(composition: CompositionObject,
+                                        objects: Map<number, PgsObjectBuffer>): SubtitleIndexData | undefined {
+        const object = objects.get(composition.id);
+        if (!object || object.dataChunks.length == 0) {
+            return undefined;
+        }
+
+        const key = object.dataChunks[0];
+        const cached = this.indexDataCache.get(key);
+        if (cached && cached.chunkCount === object.dataChunks.length) {
+            return cached.indexData;
+        }
+
+        // The pixel data is run-length encoded. The decoded value is the palette entry index.
+        const indices = new Uint8Array(object.width * object.height);
+        RunLengthEncoding.decode(new CombinedBinaryReader(object.dataChunks), Pgs.identityIndices, indices);
+
+        const indexData = new SubtitleIndexData(++this.lastIndexDataId, object.width, object.height, indices);
+        this.indexDataCache.set(key, { chunkCount: object.dataChunks.length, indexData: indexData });
+        return indexData;
+    }
+
+    /**
+     * Returns the RGBA colors of all 256 palette entries. Undefined entries are transparent.
+     * @param palette The palette with the converted colors.
+     */
+    private static getPaletteColors(palette: PaletteDefinitionSegment): Uint32Array {
+        const colors = new Uint32Array(256);
+        palette.rgba.forEach((color, id) => {
+            colors[id] = color;
+        });
+        return colors;
+    }
+
+    private getPixelDataFromComposition(composition: CompositionObject, palette: PaletteDefinitionSegment,
+                                        objects: Map<number, PgsObjectBuffer>): ImageData | undefined {
+        // Multiple object definition can define a single subtitle image. These are collected in the object buffer.
+        const object = objects.get(composition.id);
+        if (!object || object.dataChunks.length == 0) {
             return undefined;
         }
+        const width = object.width;
+        const height = object.height;
 
         // Using a combined reader instead of stitching the data together.
         // This hopefully avoids a larger memory allocation.
-        const data = new CombinedBinaryReader(dataChunks);
+        const data = new CombinedBinaryReader(object.dataChunks);
 
         // Detect if we are running in a web-worker or in main browser
         if (typeof document !== 'undefined') {
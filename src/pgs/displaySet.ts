@@ -5,6 +5,10 @@ import {ObjectDefinitionSegment} from "./objectDefinitionSegment";
 import {WindowDefinitionSegment} from "./windowDefinitionSegment";
 import {SegmentType} from "./segmentType";
 import {AsyncBinaryReader} from "../utils/asyncBinaryReader";
+import {BigEndianBinaryWriter} from "../utils/bigEndianBinaryWriter";
+import {ArrayBinaryWriter} from "../utils/arrayBinaryWriter";
+import {Segment} from "./segment";
+import {EndSegment} from "./endSegment";
 
 /**
  * The PGS display set holds all data for the current subtitle update at a given timestamp.
@@ -17,6 +21,13 @@ export class DisplaySet {
     public objectDefinitions: ObjectDefinitionSegment[] = [];
     public windowDefinitions: WindowDefinitionSegment[] = [];
 
+    /**
+     * Gets if this display set contains any forced composition object.
+     */
+    public get isForced(): boolean {
+        return this.presentationComposition?.compositionObjects.some(o => o.isForced) ?? false;
+    }
+
     /**
      * Reads a display set from the given binary reader. The current data is cleared.
      * @param reader The binary reader to read from.
@@ -94,4 +105,44 @@ export class DisplaySet {
             }
         }
     }
+
+    /**
+     * Writes this display set to the given binary writer. Segments are written in decoding order and the display set
+     * is terminated with an end segment. Objects exceeding the maximum segment size are split automatically.
+     * @param writer The binary writer to write to.
+     * @param includeHeader If true, the magic-number and timestamps are written before every segment. If false, only
+     * the segments are written.
+     */
+    public write(writer: BigEndianBinaryWriter, includeHeader: boolean): void {
+        const segments: Segment[] = [];
+        if (this.presentationComposition) {
+            segments.push(this.presentationComposition);
+        }
+        segments.push(...this.windowDefinitions);
+        segments.push(...this.paletteDefinitions);
+        for (const objectDefinition of this.objectDefinitions) {
+            segments.push(...objectDefinition.split());
+        }
+        segments.push(new EndSegment());
+
+        for (const segment of segments) {
+            // The segment size is required in the header. We need to write the segment data first.
+            const segmentWriter = new ArrayBinaryWriter();
+            segment.write(new BigEndianBinaryWriter(segmentWriter));
+            const data = segmentWriter.toUint8Array();
+            if (data.length > 0xFFFF) {
+                throw new Error(`Segment type ${segment.segmentType} exceeds the maximum segment size!`);
+            }
+
+            if (includeHeader) {
+                writer.writeUInt16(0x5047);
+                writer.writeUInt32(this.presentationTimestamp);
+                writer.writeUInt32(this.decodingTimestamp);
+            }
+
+            writer.writeUInt8(segment.segmentType);
+            writer.writeUInt16(data.length);
+            writer.writeBytes(data);
+        }
+    }
 }
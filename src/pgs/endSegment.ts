@@ -1,4 +1,5 @@
 import { BigEndianBinaryReader } from "../utils/bigEndianBinaryReader";
+import {BigEndianBinaryWriter} from "../utils/bigEndianBinaryWriter";
 import {Segment} from "./segment";
 import {SegmentType} from "./segmentType";
 
@@ -12,4 +13,8 @@ export class EndSegment implements Segment {
         // No data to read
     }
 
+    public write(writer: BigEndianBinaryWriter): void {
+        // No data to write
+    }
+
 }
@@ -1,8 +1,15 @@
 import {Segment} from "./segment";
 import {SegmentType} from "./segmentType";
 import {BigEndianBinaryReader} from "../utils/bigEndianBinaryReader";
+import {BigEndianBinaryWriter} from "../utils/bigEndianBinaryWriter";
+import {RunLengthEncoding} from "../utils/runLengthEncoding";
 
 export class ObjectDefinitionSegment implements Segment {
+    /**
+     * The maximum data size of a single segment. The segment size is stored as 16-bit value.
+     */
+    public static readonly maxSegmentSize = 0xFFFF;
+
     public id: number = 0;
     public versionNumber: number = 0;
     public lastInSequenceFlag: number = 0;
@@ -39,4 +46,80 @@ export class ObjectDefinitionSegment implements Segment {
             this.data = reader.readBytes(length - 4);
         }
     }
+
+    public write(writer: BigEndianBinaryWriter): void {
+        writer.writeUInt16(this.id);
+        writer.writeUInt8(this.versionNumber);
+        writer.writeUInt8(this.lastInSequenceFlag);
+        if (this.isFirstInSequence) {
+            writer.writeUInt24(this.dataLength);
+            writer.writeUInt16(this.width);
+            writer.writeUInt16(this.height);
+        }
+        if (this.data) {
+            writer.writeBytes(this.data);
+        }
+    }
+
+    /**
+     * Splits this object into a sequence of segments that fit into the maximum segment size. The first segment keeps
+     * the image size, all following segments only contain the continued data. Returns this segment itself if no split
+     * is needed or if this segment is already part of a sequence.
+     */
+    public split(): ObjectDefinitionSegment[] {
+        const data = this.data ?? new Uint8Array(0);
+        const firstCapacity = ObjectDefinitionSegment.maxSegmentSize - 11;
+        const continuationCapacity = ObjectDefinitionSegment.maxSegmentSize - 4;
+
+        // Only a complete object (first and last in sequence) can be split.
+        if (!this.isFirstInSequence || !this.isLastInSequence || data.length <= firstCapacity) {
+            return [this];
+        }
+
+        const segments: ObjectDefinitionSegment[] = [];
+        let offset = 0;
+        while (offset < data.length) {
+            const isFirst = offset === 0;
+            const capacity = isFirst ? firstCapacity : continuationCapacity;
+            const end = Math.min(offset + capacity, data.length);
+
+            const segment = new ObjectDefinitionSegment();
+            segment.id = this.id;
+            segment.versionNumber = this.versionNumber;
+            segment.lastInSequenceFlag = (isFirst ? 0x80 : 0x00) | (end === data.length ? 0x40 : 0x00);
+            if (isFirst) {
+                segment.dataLength = this.dataLength;
+                segment.width = this.width;
+                segment.height = this.height;
+            }
+            segment.data = data.subarray(offset, end);
+            segments.push(segment);
+
+            offset = end;
+        }
+        return segments;
+    }
+
+    /**
+     * Creates a complete object from the given palette index image. The pixel data is run length encoded.
+     * Use {@link split} to divide large objects into multiple segments.
+     * @param id The object id.
+     * @param versionNumber The object version.
+     * @param width The width of the image.
+     * @param height The height of the image.
+     * @param indices The palette index for every pixel, line by line.
+     */
+    public static fromIndices(id: number, versionNumber: number, width: number, height: number,
+                              indices: number[] | Uint8Array): ObjectDefinitionSegment {
+        const segment = new ObjectDefinitionSegment();
+        segment.id = id;
+        segment.versionNumber = versionNumber;
+        segment.lastInSequenceFlag = 0x80 | 0x40;
+        segment.width = width;
+        segment.height = height;
+        segment.data = RunLengthEncoding.encode(indices, width, height);
+        // The data length includes the four bytes of the image size.
+        segment.dataLength = segment.data.length + 4;
+        return segment;
+    }
 }
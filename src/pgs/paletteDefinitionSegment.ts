@@ -1,12 +1,69 @@
 import {Segment} from "./segment";
 import {SegmentType} from "./segmentType";
 import {BigEndianBinaryReader} from "../utils/bigEndianBinaryReader";
+import {BigEndianBinaryWriter} from "../utils/bigEndianBinaryWriter";
+import {ColorMatrix} from "../colorMatrix";
+import {ColorRange} from "../colorRange";
+import {SubtitleColorAdjustment} from "../subtitleColorAdjustment";
+import {SubtitleStyle} from "../subtitleStyle";
+import {PalettePreset} from "../palettePreset";
+import {Color} from "../utils/color";
+
+export class PaletteEntry {
+    public id: number = 0;
+    public y: number = 0;
+    public cr: number = 0;
+    public cb: number = 0;
+    public alpha: number = 0;
+
+    /**
+     * Creates a palette entry from the given RGBA color. This is the inverse of the default conversion in
+     * {@link PaletteDefinitionSegment.updateRgba} (BT.601, full range).
+     * @param id The palette entry id.
+     * @param r The red value (0-255).
+     * @param g The green value (0-255).
+     * @param b The blue value (0-255).
+     * @param alpha The alpha value (0-255).
+     */
+    public static fromRgba(id: number, r: number, g: number, b: number, alpha: number): PaletteEntry {
+        const entry = new PaletteEntry();
+        entry.id = id;
+        entry.y = PaletteEntry.clamp(Math.round(0.299 * r + 0.587 * g + 0.114 * b));
+        entry.cr = PaletteEntry.clamp(Math.round(128 + 0.5 * r - 0.418688 * g - 0.081312 * b));
+        entry.cb = PaletteEntry.clamp(Math.round(128 - 0.168736 * r - 0.331264 * g + 0.5 * b));
+        entry.alpha = alpha;
+        return entry;
+    }
+
+    private static clamp(value: number): number {
+        return value < 0 ? 0 : value > 255 ? 255 : value;
+    }
+}
 
 export class PaletteDefinitionSegment implements Segment {
     public id: number = 0;
     public versionNumber: number = 0;
+    public entries: PaletteEntry[] = [];
     public rgba: number[] = [];
 
+    /**
+     * The YCbCr to RGB coefficients by matrix: Cr to red, Cb to green, Cr to green and Cb to blue.
+     */
+    private static readonly coefficients: { [matrix: string]: number[] } = {
+        [ColorMatrix.bt601]: [1.40200, 0.34414, 0.71414, 1.77200],
+        [ColorMatrix.bt709]: [1.57480, 0.18732, 0.46812, 1.85560],
+        [ColorMatrix.bt2020]: [1.47460, 0.16455, 0.57135, 1.88140],
+    };
+
+    /**
+     * The dark and bright color of the palette presets. The brightness of every palette color is mapped between them.
+     */
+    private static readonly presets: { [preset: string]: number[][] } = {
+        [PalettePreset.white]: [[0, 0, 0], [255, 255, 255]],
+        [PalettePreset.yellow]: [[0, 0, 0], [255, 255, 0]],
+        [PalettePreset.highContrast]: [[0, 0, 0], [255, 255, 255]],
+    };
+
     public get segmentType(): number {
         return SegmentType.paletteDefinition;
     }
@@ -17,36 +74,111 @@ export class PaletteDefinitionSegment implements Segment {
 
         const count = (length - 2) / 5;
 
+        this.entries = [];
+        for (let i = 0; i < count; i++) {
+            // Load the YCrCbA value
+            const entry = new PaletteEntry();
+            entry.id = reader.readUInt8();
+            entry.y = reader.readUInt8();
+            entry.cr = reader.readUInt8();
+            entry.cb = reader.readUInt8();
+            entry.alpha = reader.readUInt8();
+            this.entries.push(entry);
+        }
+
+        this.updateRgba();
+    }
+
+    public write(writer: BigEndianBinaryWriter): void {
+        writer.writeUInt8(this.id);
+        writer.writeUInt8(this.versionNumber);
+        for (const entry of this.entries) {
+            writer.writeUInt8(entry.id);
+            writer.writeUInt8(entry.y);
+            writer.writeUInt8(entry.cr);
+            writer.writeUInt8(entry.cb);
+            writer.writeUInt8(entry.alpha);
+        }
+    }
+
+    /**
+     * Rebuilds the `rgba` lookup from the YCrCbA palette entries. This must be called after modifying `entries`.
+     * @param matrix The YCbCr matrix to convert with. `auto` must be resolved by the caller and is handled as BT.601.
+     * @param range The value range of the palette entries.
+     * @param adjustment The optional brightness, gamma and opacity adjustment of the converted colors.
+     * @param style The optional style. Only the palette preset and the tint are applied to the palette.
+     */
+    public updateRgba(matrix: ColorMatrix = ColorMatrix.bt601, range: ColorRange = ColorRange.full,
+                      adjustment?: SubtitleColorAdjustment, style?: SubtitleStyle): void {
         // Creates a buffer to store the mapping as the 4 byte color data.
         const data32 = new Uint32Array(1);
         const data8 = new Uint8Array(data32.buffer);
 
-        this.rgba = [];
-        for (let i = 0; i < count; i++) {
-            const id = reader.readUInt8();
+        const [crToR, cbToG, crToG, cbToB] = PaletteDefinitionSegment.coefficients[matrix] ??
+            PaletteDefinitionSegment.coefficients[ColorMatrix.bt601];
 
-            // Load the YCrCbA value
-            const y = reader.readUInt8();
-            const cr = reader.readUInt8() - 128;
-            const cb = reader.readUInt8() - 128;
-            const a = reader.readUInt8();
+        // Limited range values are stretched to the full range first.
+        const limited = range === ColorRange.limited;
+        const yOffset = limited ? 16 : 0;
+        const yScale = limited ? 255 / 219 : 1;
+        const cScale = limited ? 255 / 224 : 1;
+
+        const brightness = Math.max(0, adjustment?.brightness ?? 1);
+        const gamma = adjustment?.gamma && adjustment.gamma > 0 ? adjustment.gamma : 1;
+        const opacity = PaletteDefinitionSegment.clamp(adjustment?.opacity ?? 1, 0, 1);
+        const adjusted = brightness !== 1 || gamma !== 1;
+
+        const preset = style?.palette ? PaletteDefinitionSegment.presets[style.palette] : undefined;
+        const binary = style?.palette === PalettePreset.highContrast;
+        const tint = style?.tint ? Color.parse(style.tint) : undefined;
+
+        this.rgba = [];
+        for (const entry of this.entries) {
+            const y = (entry.y - yOffset) * yScale;
+            const cr = (entry.cr - 128) * cScale;
+            const cb = (entry.cb - 128) * cScale;
 
             // Convert to rgba
-            const r = PaletteDefinitionSegment.clamp(Math.round(y + 1.40200 * cr), 0, 255);
-            const g = PaletteDefinitionSegment.clamp(Math.round(y - 0.34414 * cb - 0.71414 * cr), 0, 255);
-            const b = PaletteDefinitionSegment.clamp(Math.round(y + 1.77200 * cb), 0, 255);
+            let r = PaletteDefinitionSegment.clamp(Math.round(y + crToR * cr), 0, 255);
+            let g = PaletteDefinitionSegment.clamp(Math.round(y - cbToG * cb - crToG * cr), 0, 255);
+            let b = PaletteDefinitionSegment.clamp(Math.round(y + cbToB * cb), 0, 255);
+            let alpha = entry.alpha;
+
+            // The preset maps the luminance between its dark and bright color.
+            if (preset) {
+                const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+                const t = binary ? (luminance >= 0.5 ? 1 : 0) : luminance;
+                const [dark, bright] = preset;
+                r = Math.round(dark[0] + (bright[0] - dark[0]) * t);
+                g = Math.round(dark[1] + (bright[1] - dark[1]) * t);
+                b = Math.round(dark[2] + (bright[2] - dark[2]) * t);
+                if (binary && alpha > 0) {
+                    alpha = 255;
+                }
+            }
+            if (tint) {
+                r = Math.round(r * tint[0] / 255);
+                g = Math.round(g * tint[1] / 255);
+                b = Math.round(b * tint[2] / 255);
+                alpha = Math.round(alpha * tint[3] / 255);
+            }
 
             // Convert to 32bit number for faster copy in the image decode.
             // We cannot use the bit-shifting here. The buffers will keep the systems endianness. The same endianness
             // must be used to write the rgba values to the pixel buffer to even out.
-            data8[0] = r;
-            data8[1] = g;
-            data8[2] = b;
-            data8[3] = a;
-            this.rgba[id] = data32[0];
+            data8[0] = adjusted ? PaletteDefinitionSegment.adjust(r, brightness, gamma) : r;
+            data8[1] = adjusted ? PaletteDefinitionSegment.adjust(g, brightness, gamma) : g;
+            data8[2] = adjusted ? PaletteDefinitionSegment.adjust(b, brightness, gamma) : b;
+            data8[3] = Math.round(alpha * opacity);
+            this.rgba[entry.id] = data32[0];
         }
     }
 
+    private static adjust(value: number, brightness: number, gamma: number): number {
+        const result = Math.round(Math.pow(value / 255, gamma) * brightness * 255);
+        return PaletteDefinitionSegment.clamp(result, 0, 255);
+    }
+
     private static clamp(value: number, min: number, max: number): number {
         return value < min ? min : value > max ? max : value;
     }
@@ -1,6 +1,7 @@
 import {Segment} from "./segment";
 import {SegmentType} from "./segmentType";
 import {BigEndianBinaryReader} from "../utils/bigEndianBinaryReader";
+import {BigEndianBinaryWriter} from "../utils/bigEndianBinaryWriter";
 
 export class CompositionObject {
     public id: number = 0;
@@ -15,6 +16,14 @@ export class CompositionObject {
     public get hasCropping(): boolean {
         return (this.croppedFlag & 0x80) != 0
     }
+
+    /**
+     * Gets if this object is forced. Forced subtitles should be displayed even if subtitles are disabled, e.g. for
+     * foreign dialogue and signs.
+     */
+    public get isForced(): boolean {
+        return (this.croppedFlag & 0x40) != 0
+    }
 }
 
 export class PresentationCompositionSegment implements Segment {
@@ -59,4 +68,29 @@ export class PresentationCompositionSegment implements Segment {
             this.compositionObjects.push(compositionObject);
         }
     }
+
+    public write(writer: BigEndianBinaryWriter): void {
+        writer.writeUInt16(this.width);
+        writer.writeUInt16(this.height);
+        writer.writeUInt8(this.frameRate);
+        writer.writeUInt16(this.compositionNumber);
+        writer.writeUInt8(this.compositionState);
+        writer.writeUInt8(this.paletteUpdateFlag);
+        writer.writeUInt8(this.paletteId);
+
+        writer.writeUInt8(this.compositionObjects.length);
+        for (const compositionObject of this.compositionObjects) {
+            writer.writeUInt16(compositionObject.id);
+            writer.writeUInt8(compositionObject.windowId);
+            writer.writeUInt8(compositionObject.croppedFlag);
+            writer.writeUInt16(compositionObject.horizontalPosition);
+            writer.writeUInt16(compositionObject.verticalPosition);
+            if (compositionObject.hasCropping) {
+                writer.writeUInt16(compositionObject.croppingHorizontalPosition);
+                writer.writeUInt16(compositionObject.croppingVerticalPosition);
+                writer.writeUInt16(compositionObject.croppingWidth);
+                writer.writeUInt16(compositionObject.croppingHeight);
+            }
+        }
+    }
 }
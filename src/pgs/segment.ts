@@ -1,4 +1,5 @@
 import {BigEndianBinaryReader} from "../utils/bigEndianBinaryReader";
+import {BigEndianBinaryWriter} from "../utils/bigEndianBinaryWriter";
 
 export interface Segment {
     /**
@@ -12,4 +13,10 @@ export interface Segment {
      * @param length The length of the segment in bytes.
      */
     read(reader: BigEndianBinaryReader, length: number): void;
+
+    /**
+     * Writes the segment data without the segment header to the data stream.
+     * @param writer The binary writer to write to.
+     */
+    write(writer: BigEndianBinaryWriter): void;
 }
@@ -0,0 +1,301 @@
+import {BinaryReader} from "../utils/binaryReader";
+import {AsyncBinaryReader} from "../utils/asyncBinaryReader";
+import {BigEndianBinaryReader} from "../utils/bigEndianBinaryReader";
+import {CombinedBinaryReader} from "../utils/combinedBinaryReader";
+import {SubtitleDiagnostic} from "../subtitleDiagnostic";
+import {DisplaySet} from "./displaySet";
+import {SegmentType} from "./segmentType";
+
+/**
+ * A segment of a PGS file with its header values.
+ */
+interface SupSegment {
+    /**
+     * The byte offset of the segment header in the file.
+     */
+    offset: number;
+    presentationTimestamp: number;
+    decodingTimestamp: number;
+    type: number;
+
+    /**
+     * The segment without the "PG" header: the type, the size and the segment data.
+     */
+    data: Uint8Array;
+}
+
+/**
+ * Reads display sets from damaged PGS files (`.sup`). Instead of aborting on the first error, the reader scans
+ * forward to the next valid segment header, also if a damaged segment size skips it, skips unknown segments and
+ * ignores truncated data at the end. Every problem is reported to the diagnostics callback.
+ */
+export class TolerantSupReader {
+    private static readonly headerSize = 13;
+    private static readonly magicNumber = 0x5047;
+
+    private readonly reader: BinaryReader;
+    private readonly asyncReader?: AsyncBinaryReader;
+    private readonly onDiagnostic?: (diagnostic: SubtitleDiagnostic) => void;
+
+    /**
+     * The read-ahead buffer. Data can't be read twice from the base reader, but resynchronization needs to look
+     * ahead.
+     */
+    private buffer: Uint8Array = new Uint8Array(0);
+    private bufferPosition: number = 0;
+    private bufferOffset: number;
+
+    /**
+     * A presentation composition that started the next display set while the previous one wasn't finished.
+     */
+    private nextSegment?: SupSegment;
+
+    /**
+     * Creates the reader.
+     * @param reader The PGS data reader.
+     * @param onDiagnostic Is called for every problem found in the data.
+     */
+    public constructor(reader: BinaryReader, onDiagnostic?: (diagnostic: SubtitleDiagnostic) => void) {
+        this.reader = reader;
+        this.bufferOffset = reader.position;
+        this.onDiagnostic = onDiagnostic;
+        if ('requestData' in reader) {
+            this.asyncReader = reader as AsyncBinaryReader;
+        }
+    }
+
+    /**
+     * Reads the next display set. Returns `undefined` at the end of the file.
+     */
+    public async readDisplaySet(): Promise<DisplaySet | undefined> {
+        let segments: SupSegment[] = [];
+
+        while (true) {
+            const segment = this.nextSegment ?? await this.readSegment();
+            this.nextSegment = undefined;
+
+            if (!segment) {
+                if (segments.length === 0) return undefined;
+                this.report(segments[0].offset, 'Missing end segment at the end of the file');
+                return await this.createDisplaySet(segments);
+            }
+
+            // Every display set starts with a presentation composition.
+            if (segments.length === 0 && segment.type !== SegmentType.presentationComposition) {
+                this.report(segment.offset, `Skipped segment type ${segment.type} without presentation composition`);
+                continue;
+            }
+
+            // The end segment of the previous display set is missing. The next display set is already starting.
+            if (segments.length > 0 && segment.type === SegmentType.presentationComposition) {
+                this.report(segments[0].offset, 'Missing end segment');
+                this.nextSegment = segment;
+                const displaySet = await this.createDisplaySet(segments);
+                if (displaySet) return displaySet;
+                segments = [];
+                continue;
+            }
+
+            segments.push(segment);
+            if (segment.type === SegmentType.end) {
+                const displaySet = await this.createDisplaySet(segments);
+                if (displaySet) return displaySet;
+                segments = [];
+            }
+        }
+    }
+
+    /**
+     * Parses the collected segments. Returns `undefined` if the segment data is invalid.
+     * @param segments The segments of the display set, starting with the presentation composition.
+     */
+    private async createDisplaySet(segments: SupSegment[]): Promise<DisplaySet | undefined> {
+        const data = segments.map(segment => segment.data);
+        if (segments[segments.length - 1].type !== SegmentType.end) {
+            data.push(new Uint8Array([SegmentType.end, 0x00, 0x00]));
+        }
+
+        const displaySet = new DisplaySet();
+        try {
+            await displaySet.read(new BigEndianBinaryReader(new CombinedBinaryReader(data)), false);
+        } catch (e) {
+            this.report(segments[0].offset, `Invalid display set: ${(e as Error).message}`);
+            return undefined;
+        }
+
+        displaySet.presentationTimestamp = segments[0].presentationTimestamp;
+        displaySet.decodingTimestamp = segments[0].decodingTimestamp;
+        return displaySet;
+    }
+
+    // region Segments
+
+    /**
+     * Reads the next segment with a valid header. Returns `undefined` at the end of the file.
+     */
+    private async readSegment(): Promise<SupSegment | undefined> {
+        while (true) {
+            if (!await this.ensureData(TolerantSupReader.headerSize)) {
+                this.skipTruncatedData();
+                return undefined;
+            }
+
+            const offset = this.offset;
+            const buffer = this.buffer;
+            const position = this.bufferPosition;
+            if (!this.hasMagicNumberAt(position)) {
+                this.report(offset, 'Invalid magic number');
+                await this.resynchronize();
+                continue;
+            }
+
+            const type = buffer[position + 10];
+            const size = (buffer[position + 11] << 8) | buffer[position + 12];
+            const segmentSize = TolerantSupReader.headerSize + size;
+            const complete = await this.ensureData(segmentSize);
+            // Without any following header, this is the truncated last segment.
+            if (!complete && !this.hasHeaderBetween(this.bufferPosition + 1, this.buffer.length)) {
+                this.skipTruncatedData();
+                return undefined;
+            }
+            if (!complete || await this.isDamagedSize(segmentSize)) {
+                this.report(offset, `Invalid segment size ${size}`);
+                await this.resynchronize();
+                continue;
+            }
+
+            // The buffer may have been replaced while loading more data.
+            const segmentStart = this.bufferPosition;
+            const segmentBuffer = this.buffer;
+            this.bufferPosition += segmentSize;
+
+            if (!TolerantSupReader.isKnownSegmentType(type)) {
+                this.report(offset, `Skipped unsupported segment type ${type}`);
+                continue;
+            }
+
+            return {
+                offset: offset,
+                presentationTimestamp: TolerantSupReader.readUInt32(segmentBuffer, segmentStart + 2),
+                decodingTimestamp: TolerantSupReader.readUInt32(segmentBuffer, segmentStart + 6),
+                type: type,
+                data: segmentBuffer.slice(segmentStart + 10, segmentStart + segmentSize),
+            };
+        }
+    }
+
+    /**
+     * Checks if the size of the segment at the buffer position is damaged. A damaged size would skip valid segments.
+     * The size is valid if the next segment header follows the segment or the segment ends with the data. Otherwise,
+     * it is damaged if a segment header starts within the segment.
+     * @param segmentSize The size of the segment including the header.
+     */
+    private async isDamagedSize(segmentSize: number): Promise<boolean> {
+        if (!await this.ensureData(segmentSize + 2) || this.hasMagicNumberAt(this.bufferPosition + segmentSize)) {
+            return false;
+        }
+        return this.hasHeaderBetween(this.bufferPosition + 1, this.bufferPosition + segmentSize);
+    }
+
+    /**
+     * Scans forward to the next position with a valid segment header.
+     */
+    private async resynchronize(): Promise<void> {
+        const start = this.offset;
+        this.bufferPosition++;
+        while (await this.ensureData(TolerantSupReader.headerSize)) {
+            if (this.hasHeaderAt(this.bufferPosition)) {
+                break;
+            }
+            this.bufferPosition++;
+        }
+        this.report(start, `Skipped ${this.offset - start} bytes to resynchronize`);
+    }
+
+    /**
+     * Checks if a segment header starts in the given range of the buffered data.
+     * @param start The first buffer position to check.
+     * @param end The buffer position after the range.
+     */
+    private hasHeaderBetween(start: number, end: number): boolean {
+        const last = Math.min(end, this.buffer.length - TolerantSupReader.headerSize + 1);
+        for (let position = start; position < last; position++) {
+            if (this.hasHeaderAt(position)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Checks for a segment header at the given buffer position. Only headers with a known segment type are accepted.
+     * This prevents false matches in the image data.
+     * @param position The buffer position to check.
+     */
+    private hasHeaderAt(position: number): boolean {
+        return this.hasMagicNumberAt(position) && TolerantSupReader.isKnownSegmentType(this.buffer[position + 10]);
+    }
+
+    private hasMagicNumberAt(position: number): boolean {
+        return ((this.buffer[position] << 8) | this.buffer[position + 1]) === TolerantSupReader.magicNumber;
+    }
+
+    private skipTruncatedData(): void {
+        const remaining = this.buffer.length - this.bufferPosition;
+        if (remaining > 0) {
+            this.report(this.offset, `Skipped ${remaining} bytes of truncated data at the end of the file`);
+            this.bufferPosition = this.buffer.length;
+        }
+    }
+
+    private static isKnownSegmentType(type: number): boolean {
+        return type === SegmentType.paletteDefinition || type === SegmentType.objectDefinition ||
+            type === SegmentType.presentationComposition || type === SegmentType.windowDefinition ||
+            type === SegmentType.end;
+    }
+
+    private static readUInt32(data: Uint8Array, offset: number): number {
+        return data[offset] * 0x1000000 + ((data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]);
+    }
+
+    // endregion
+
+    // region Buffer
+
+    /**
+     * The file offset of the current buffer position.
+     */
+    private get offset(): number {
+        return this.bufferOffset + this.bufferPosition;
+    }
+
+    /**
+     * Loads data from the base reader until the given number of bytes is available in the buffer.
+     * @param count The number of bytes requested.
+     * @return Returns false if the end of the file was reached before.
+     */
+    private async ensureData(count: number): Promise<boolean> {
+        while (this.buffer.length - this.bufferPosition < count) {
+            const missing = count - (this.buffer.length - this.bufferPosition);
+            await this.asyncReader?.requestData(missing);
+            const available = this.reader.length - this.reader.position;
+            if (available <= 0) return false;
+
+            // Dropping the consumed data before appending the next chunk.
+            const remaining = this.buffer.subarray(this.bufferPosition);
+            const buffer = new Uint8Array(remaining.length + available);
+            buffer.set(remaining, 0);
+            buffer.set(this.reader.readBytes(available), remaining.length);
+            this.bufferOffset += this.bufferPosition;
+            this.buffer = buffer;
+            this.bufferPosition = 0;
+        }
+        return true;
+    }
+
+    // endregion
+
+    private report(offset: number, reason: string): void {
+        this.onDiagnostic?.({offset: offset, reason: reason});
+    }
+}
@@ -1,6 +1,7 @@
 import {Segment} from "./segment";
 import {SegmentType} from "./segmentType";
 import {BigEndianBinaryReader} from "../utils/bigEndianBinaryReader";
+import {BigEndianBinaryWriter} from "../utils/bigEndianBinaryWriter";
 
 export class WindowDefinition {
     public id: number = 0;
@@ -32,4 +33,15 @@ export class WindowDefinitionSegment implements Segment {
         }
     }
 
+    public write(writer: BigEndianBinaryWriter): void {
+        writer.writeUInt8(this.windows.length);
+        for (const window of this.windows) {
+            writer.writeUInt8(window.id);
+            writer.writeUInt16(window.horizontalPosition);
+            writer.writeUInt16(window.verticalPosition);
+            writer.writeUInt16(window.width);
+            writer.writeUInt16(window.height);
+        }
+    }
+
 }
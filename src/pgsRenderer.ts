@@ -5,6 +5,21 @@ import {PgsRendererInMainThread} from "./pgsRendererInMainThread";
 import {PgsRendererInWorkerWithoutOffscreenCanvas} from "./pgsRendererInWorkerWithoutOffscreenCanvas";
 import {PgsRendererMode} from "./pgsRendererMode";
 import {BrowserSupport} from "./browserSupport";
+import {SubtitleLoadOptions} from "./subtitleLoadOptions";
+import {SubtitleDisplayMode} from "./subtitleDisplayMode";
+import {SubtitleColorAdjustment} from "./subtitleColorAdjustment";
+import {RenderResolution} from "./renderResolution";
+import {SubtitleLayout} from "./subtitleLayout";
+import {SubtitleStyle} from "./subtitleStyle";
+import {Color} from "./utils/color";
+import {SubtitleClock} from "./clock/subtitleClock";
+import {MediaElementClock} from "./clock/mediaElementClock";
+import {ClockSync} from "./clock/clockSync";
+import {SubtitleCue} from "./subtitleCue";
+import {PgsRendererHelper} from "./pgsRendererHelper";
+import {EventEmitter} from "./utils/eventEmitter";
+import {PgsRendererEventListener, PgsRendererEventMap} from "./pgsRendererEventMap";
+import {SubtitleTrackInfo} from "./subtitleTrackInfo";
 
 /**
  * Renders PGS subtitle on-top of a video element using a canvas element. This also handles timestamp updates if a
@@ -19,6 +34,7 @@ export class PgsRenderer {
         if (options.video) {
             this.video = options.video;
         }
+        this.renderResolution = options.renderResolution ?? RenderResolution.subtitle;
 
         // Init canvas
         if (options.canvas) {
@@ -38,19 +54,64 @@ export class PgsRenderer {
         this.implementation = this.createPgsRenderer(options);
         this.implementation.onTimestampsUpdated = () => {
             // Re-render the current subtitle if the timestamps were updates (e.g. through partial load).
-            this.renderAtVideoTimestamp();
+            this.renderAtClockTime();
         }
+        this.implementation.onDiagnostic = options.onDiagnostic;
+        this.implementation.onProgress = (progress) => {
+            this.events.emit('progress', progress);
+        };
+        this.implementation.onLoaded = () => {
+            this.events.emit('loaded', undefined);
+        };
+        this.implementation.onError = (error) => {
+            this.events.emit('error', error);
+        };
+        this.implementation.onIndexChanged = () => {
+            this.updateCurrentCue();
+        };
 
         // Load initial settings
         this.$timeOffset = options.timeOffset ?? 0;
         if (options.aspectRatio) {
             this.aspectRatio = options.aspectRatio;
         }
+        if (options.keepInView) {
+            // The canvas events are registered below.
+            this.$keepInView = true;
+            this.implementation.setKeepInView(true);
+        }
+        if (options.displayMode) {
+            this.displayMode = options.displayMode;
+        }
+        if (options.colorAdjustment) {
+            this.colorAdjustment = options.colorAdjustment;
+        }
+        if (options.style) {
+            this.style = options.style;
+        }
+        if (options.verticalOffset !== undefined || options.scale !== undefined ||
+            options.safeAreaInset !== undefined) {
+            this.$layout = {
+                verticalOffset: options.verticalOffset ?? 0,
+                scale: options.scale ?? 1,
+                safeAreaInset: options.safeAreaInset ?? 0
+            };
+            this.implementation.setLayout({ ...this.$layout });
+        }
         if (options.subUrl) {
-            this.loadFromUrl(options.subUrl);
+            this.loadFromUrl(options.subUrl, options.subOptions).catch(() => {
+                // Failed loads are reported by the error event.
+            });
         }
 
-        this.registerVideoEvents();
+        // Sync to the given clock or the video element.
+        if (options.clock) {
+            this.attachClock(options.clock);
+        } else if (this.video) {
+            this.attachClock(new MediaElementClock(this.video));
+            this.clockOwner = true;
+        }
+        this.registerCanvasEvents();
     }
 
     /**
@@ -73,19 +134,28 @@ export class PgsRenderer {
     private implementation: PgsRendererImpl;
 
     /**
-     * Loads the subtitle file from the given url.
+     * Loads the subtitle file from the given url. A new load and disposing the renderer cancel the running load.
      * @param url The url to the PGS file.
+     * @param options Optional format and track selection.
+     * @param signal Optional signal to cancel the load.
+     * @returns The track info. Failed and cancelled loads are rejected with a `SubtitleLoadError`.
      */
-    public loadFromUrl(url: string): void {
-        this.implementation.loadFromUrl(url);
+    public loadFromUrl(url: string, options?: SubtitleLoadOptions, signal?: AbortSignal): Promise<SubtitleTrackInfo> {
+        this.events.emit('loadstart', undefined);
+        return this.implementation.loadFromUrl(url, options, signal);
     }
 
     /**
-     * Loads the subtitle file from the given buffer.
+     * Loads the subtitle file from the given buffer. A new load and disposing the renderer cancel the running load.
      * @param buffer The PGS data.
+     * @param options Optional format and track selection.
+     * @param signal Optional signal to cancel the load.
+     * @returns The track info. Failed and cancelled loads are rejected with a `SubtitleLoadError`.
      */
-    public loadFromBuffer(buffer: ArrayBuffer): void {
-        this.implementation.loadFromBuffer(buffer);
+    public loadFromBuffer(buffer: ArrayBuffer, options?: SubtitleLoadOptions,
+                          signal?: AbortSignal): Promise<SubtitleTrackInfo> {
+        this.events.emit('loadstart', undefined);
+        return this.implementation.loadFromBuffer(buffer, options, signal);
     }
 
     /**
@@ -93,12 +163,42 @@ export class PgsRenderer {
      * @param time The timestamp in seconds.
      */
     public renderAtTimestamp(time: number): void {
+        this.renderedTime = time;
         this.implementation.renderAtTimestamp(time);
     }
 
-    // region Video
+    // region Clock
 
     private readonly video?: HTMLVideoElement;
+    private clock?: SubtitleClock;
+    private clockOwner: boolean = false;
+    private clockSync?: ClockSync;
+
+    /**
+     * Attaches the renderer to the given clock, e.g. a media element clock or a manual clock. The subtitle follows the
+     * clock time from now on. This replaces the previous clock.
+     * @param clock The clock to sync to.
+     */
+    public attachClock(clock: SubtitleClock): void {
+        this.detachClock();
+        this.clock = clock;
+        this.clockSync = new ClockSync(clock, this.onClockTime);
+        this.renderAtClockTime();
+    }
+
+    /**
+     * Detaches the renderer from the current clock. Afterwards, the subtitle is only updated by `renderAtTimestamp`.
+     */
+    public detachClock(): void {
+        this.clockSync?.dispose();
+        this.clockSync = undefined;
+        // The clock of the video element was created by the renderer.
+        if (this.clockOwner) {
+            (this.clock as MediaElementClock).dispose();
+            this.clockOwner = false;
+        }
+        this.clock = undefined;
+    }
 
     private $timeOffset: number = 0;
 
@@ -116,24 +216,16 @@ export class PgsRenderer {
     public set timeOffset(timeOffset: number) {
         if (this.$timeOffset === timeOffset) return;
         this.$timeOffset = timeOffset;
-        this.renderAtVideoTimestamp();
-    }
-
-    private registerVideoEvents(): void {
-        this.video?.addEventListener('timeupdate', this.onTimeUpdate);
-    }
-
-    private unregisterVideoEvents(): void {
-        this.video?.removeEventListener('timeupdate', this.onTimeUpdate);
+        this.renderAtClockTime();
     }
 
-    private onTimeUpdate = (): void => {
-        this.renderAtVideoTimestamp();
+    private onClockTime = (time: number): void => {
+        this.renderAtTimestamp(time + this.$timeOffset);
     }
 
-    private renderAtVideoTimestamp() {
-        if (this.video) {
-            this.renderAtTimestamp(this.video.currentTime + this.$timeOffset);
+    private renderAtClockTime() {
+        if (this.clock) {
+            this.renderAtTimestamp(this.clock.currentTime + this.$timeOffset);
         }
     }
 
@@ -152,7 +244,7 @@ export class PgsRenderer {
         canvas.style.right = '0';
         canvas.style.bottom = '0';
         canvas.style.pointerEvents = 'none';
-        canvas.style.objectFit = this.$aspectRatio;
+        canvas.style.objectFit = this.canvasObjectFit;
         canvas.style.width = '100%';
         canvas.style.height = '100%';
         return canvas;
@@ -179,7 +271,346 @@ export class PgsRenderer {
         this.$aspectRatio = aspectMode;
 
         // Update the canvas
-        this.canvas.style.objectFit = this.$aspectRatio;
+        this.canvas.style.objectFit = this.canvasObjectFit;
+        this.updateViewport();
+    }
+
+    private $keepInView: boolean = false;
+
+    /**
+     * Gets if subtitles cropped by the `cover` aspect ratio mode are moved into view.
+     */
+    public get keepInView(): boolean {
+        return this.$keepInView;
+    }
+
+    /**
+     * Sets if subtitles cropped by the `cover` aspect ratio mode are moved into the visible part of the video and
+     * re-renders the current subtitle. Subtitles that are fully visible, like signs, keep their position.
+     * @param keepInView True to move the subtitles into view.
+     */
+    public set keepInView(keepInView: boolean) {
+        if (this.$keepInView === keepInView) return;
+        // The visible part is calculated from the canvas element size, which is only observed if needed.
+        this.unregisterCanvasEvents();
+        this.$keepInView = keepInView;
+        this.implementation.setKeepInView(keepInView);
+        this.registerCanvasEvents();
+    }
+
+    /**
+     * At display resolution, the renderer fits the subtitle into the canvas on its own.
+     */
+    private get canvasObjectFit(): 'contain' | 'cover' | 'fill' {
+        return this.renderResolution === RenderResolution.display ? 'fill' : this.$aspectRatio;
+    }
+
+    private readonly renderResolution: RenderResolution;
+    private resizeObserver?: ResizeObserver;
+
+    /**
+     * The size of the canvas element is needed to render at display resolution and to keep the subtitles in view.
+     */
+    private get viewportRequired(): boolean {
+        return this.renderResolution === RenderResolution.display || this.$keepInView;
+    }
+
+    private registerCanvasEvents(): void {
+        if (!this.viewportRequired) return;
+
+        if (typeof ResizeObserver !== 'undefined') {
+            this.resizeObserver = new ResizeObserver(this.updateViewport);
+            this.resizeObserver.observe(this.canvas);
+        }
+        // The device pixel ratio can change without resizing the canvas element, e.g. by zooming or moving the window
+        // to another screen. This triggers a resize event on the window.
+        window.addEventListener('resize', this.updateViewport);
+        this.updateViewport();
+    }
+
+    private unregisterCanvasEvents(): void {
+        this.resizeObserver?.disconnect();
+        this.resizeObserver = undefined;
+        if (this.viewportRequired) {
+            window.removeEventListener('resize', this.updateViewport);
+        }
+    }
+
+    /**
+     * Sends the device-pixel size of the canvas element to the renderer. This is only used at display resolution and
+     * to keep the subtitles in view.
+     */
+    private updateViewport = (): void => {
+        if (!this.viewportRequired) return;
+
+        const pixelRatio = window.devicePixelRatio || 1;
+        const width = Math.round(this.canvas.clientWidth * pixelRatio);
+        const height = Math.round(this.canvas.clientHeight * pixelRatio);
+        // The canvas isn't visible yet. The resize observer updates the viewport later.
+        if (width <= 0 || height <= 0) return;
+
+        this.implementation.setViewport({
+            width: width,
+            height: height,
+            aspectRatio: this.$aspectRatio,
+        });
+    }
+
+    // endregion
+
+    // region Display mode
+
+    private $displayMode: SubtitleDisplayMode = SubtitleDisplayMode.all;
+
+    /**
+     * Gets which subtitles are rendered.
+     */
+    public get displayMode(): SubtitleDisplayMode {
+        return this.$displayMode;
+    }
+
+    /**
+     * Sets which subtitles are rendered (all, only forced or none) and re-renders the current subtitle.
+     * @param displayMode The new display mode.
+     */
+    public set displayMode(displayMode: SubtitleDisplayMode) {
+        if (this.$displayMode === displayMode) return;
+        this.$displayMode = displayMode;
+        this.implementation.setDisplayMode(displayMode);
+    }
+
+    // endregion
+
+    // region Color adjustment
+
+    private $colorAdjustment?: SubtitleColorAdjustment;
+
+    /**
+     * Gets the brightness, gamma and opacity adjustment of the subtitle colors.
+     */
+    public get colorAdjustment(): SubtitleColorAdjustment | undefined {
+        return this.$colorAdjustment;
+    }
+
+    /**
+     * Sets the brightness, gamma and opacity adjustment of the subtitle colors and re-renders the current subtitle.
+     * Only the palettes are converted again. The subtitle file is not reloaded.
+     * @param adjustment The new adjustment or undefined to show the original colors.
+     */
+    public set colorAdjustment(adjustment: SubtitleColorAdjustment | undefined) {
+        // Copying the adjustment, so later changes to the given object don't affect the renderer.
+        this.$colorAdjustment = adjustment ? { ...adjustment } : undefined;
+        this.implementation.setColorAdjustment(this.$colorAdjustment);
+    }
+
+    // endregion
+
+    // region Style
+
+    private $style?: SubtitleStyle;
+
+    /**
+     * Gets the style overrides of the subtitles.
+     */
+    public get style(): SubtitleStyle | undefined {
+        return this.$style;
+    }
+
+    /**
+     * Sets the style overrides of the subtitles and re-renders the current subtitle. The subtitle file is not
+     * reloaded. An exception is thrown for invalid colors.
+     * @param style The new style or undefined to show the original subtitles.
+     */
+    public set style(style: SubtitleStyle | undefined) {
+        // The colors are validated here. Invalid colors would fail later inside the worker.
+        if (style?.tint) Color.parse(style.tint);
+        if (style?.outline) Color.parse(style.outline.color);
+        if (style?.shadow) Color.parse(style.shadow.color);
+        if (style?.background) Color.parse(style.background.color);
+
+        // Copying the style, so later changes to the given object don't affect the renderer.
+        this.$style = style ? {
+            ...style,
+            outline: style.outline ? { ...style.outline } : undefined,
+            shadow: style.shadow ? { ...style.shadow } : undefined,
+            background: style.background ? { ...style.background } : undefined,
+        } : undefined;
+        this.implementation.setStyle(this.$style);
+    }
+
+    // endregion
+
+    // region Layout
+
+    private $layout: SubtitleLayout = { verticalOffset: 0, scale: 1, safeAreaInset: 0 };
+
+    /**
+     * Gets the vertical offset of the subtitles as fraction of the video height.
+     */
+    public get verticalOffset(): number {
+        return this.$layout.verticalOffset;
+    }
+
+    /**
+     * Moves the subtitles up by this fraction of the video height and re-renders the current subtitle. Negative values
+     * move the subtitles down.
+     * @param verticalOffset The new vertical offset.
+     */
+    public set verticalOffset(verticalOffset: number) {
+        if (this.$layout.verticalOffset === verticalOffset) return;
+        this.$layout.verticalOffset = verticalOffset;
+        this.implementation.setLayout({ ...this.$layout });
+    }
+
+    /**
+     * Gets the scale factor of the subtitles.
+     */
+    public get scale(): number {
+        return this.$layout.scale;
+    }
+
+    /**
+     * Sets the scale factor of the subtitles and re-renders the current subtitle. The subtitles are scaled around the
+     * bottom-centre of all visible subtitle objects.
+     * @param scale The new scale factor.
+     */
+    public set scale(scale: number) {
+        if (this.$layout.scale === scale) return;
+        this.$layout.scale = scale;
+        this.implementation.setLayout({ ...this.$layout });
+    }
+
+    /**
+     * Gets the safe area margin as fraction of the video size.
+     */
+    public get safeAreaInset(): number {
+        return this.$layout.safeAreaInset;
+    }
+
+    /**
+     * Sets the margin at each edge of the video as fraction of its size (0 to 0.5) and re-renders the current
+     * subtitle. Subtitles are moved into this area if the offset or scale would push them outside.
+     * @param safeAreaInset The new safe area inset.
+     */
+    public set safeAreaInset(safeAreaInset: number) {
+        if (this.$layout.safeAreaInset === safeAreaInset) return;
+        this.$layout.safeAreaInset = safeAreaInset;
+        this.implementation.setLayout({ ...this.$layout });
+    }
+
+    // endregion
+
+    // region Cues and navigation
+
+    /**
+     * Gets the cues of the loaded subtitles with start and end time, forced flag and bounding boxes, e.g. to build a
+     * subtitle list or seek-bar markers. While a subtitle file is still loading, only the loaded cues are returned.
+     */
+    public getCues(): Promise<SubtitleCue[]> {
+        return this.implementation.getCues();
+    }
+
+    /**
+     * The subtitle time of the last render in seconds. This is used as current time if no clock is attached.
+     */
+    private renderedTime?: number;
+
+    /**
+     * Gets the cue shown at the current clock time.
+     */
+    public async getCurrentCue(): Promise<SubtitleCue | undefined> {
+        const time = this.clock ? this.clock.currentTime + this.$timeOffset : this.renderedTime;
+        if (time === undefined) return undefined;
+        const cues = await this.implementation.getCues();
+        const index = PgsRendererHelper.getCueIndexAtTime(time, cues);
+        return index >= 0 ? cues[index] : undefined;
+    }
+
+    /**
+     * Gets the start time of the next cue in clock time, which includes the time offset.
+     * @param time The clock time in seconds, e.g. the video time.
+     */
+    public async getNextCueTime(time: number): Promise<number | undefined> {
+        const cues = await this.implementation.getCues();
+        const index = PgsRendererHelper.getNextCueIndex(time + this.$timeOffset, cues);
+        return index >= 0 ? cues[index].startTime - this.$timeOffset : undefined;
+    }
+
+    /**
+     * Gets the start time of the previous cue in clock time, which includes the time offset.
+     * @param time The clock time in seconds, e.g. the video time.
+     */
+    public async getPreviousCueTime(time: number): Promise<number | undefined> {
+        const cues = await this.implementation.getCues();
+        const index = PgsRendererHelper.getPreviousCueIndex(time + this.$timeOffset, cues);
+        return index >= 0 ? cues[index].startTime - this.$timeOffset : undefined;
+    }
+
+    /**
+     * Seeks the clock, e.g. the video element, to the start of the given cue. Without clock, the cue is rendered
+     * directly.
+     * @param index The index of the cue in the cue list.
+     */
+    public async seekToCue(index: number): Promise<void> {
+        const cues = await this.implementation.getCues();
+        const cue = cues[index];
+        if (!cue) {
+            throw new Error('Invalid cue index!');
+        }
+
+        if (!this.clock) {
+            this.renderAtTimestamp(cue.startTime);
+        } else if (this.clock.seek) {
+            this.clock.seek(cue.startTime - this.$timeOffset);
+        } else {
+            throw new Error('The clock does not support seeking!');
+        }
+    }
+
+    // endregion
+
+    // region Events
+
+    private readonly events = new EventEmitter<PgsRendererEventMap>();
+
+    /**
+     * Registers a listener for the given event type.
+     * @param type The event type.
+     * @param listener The listener to add.
+     */
+    public addEventListener<K extends keyof PgsRendererEventMap>(type: K, listener: PgsRendererEventListener<K>): void {
+        this.events.addEventListener(type, listener);
+    }
+
+    /**
+     * Removes a listener added by `addEventListener`.
+     * @param type The event type.
+     * @param listener The listener to remove.
+     */
+    public removeEventListener<K extends keyof PgsRendererEventMap>(type: K,
+                                                                    listener: PgsRendererEventListener<K>): void {
+        this.events.removeEventListener(type, listener);
+    }
+
+    private currentCue?: SubtitleCue;
+
+    /**
+     * Looks up the cue of the rendered subtitle and emits the `cuechange` event if it has changed.
+     */
+    private updateCurrentCue(): void {
+        // The cues are only requested if needed, since they are built in the worker.
+        if (!this.events.hasEventListener('cuechange')) return;
+
+        const time = this.renderedTime;
+        this.implementation.getCues().then(cues => {
+            const index = time === undefined ? -1 : PgsRendererHelper.getCueIndexAtTime(time, cues);
+            const cue = index >= 0 ? cues[index] : undefined;
+            if (cue?.index === this.currentCue?.index && cue?.startTime === this.currentCue?.startTime) return;
+            this.currentCue = cue;
+            this.events.emit('cuechange', cue);
+        }, () => {
+            // Failed cue requests are ignored, e.g. after disposing. The next update requests the cues again.
+        });
     }
 
     // endregion
@@ -190,8 +621,11 @@ export class PgsRenderer {
      * Destroys the subtitle canvas and removes event listeners.
      */
     public dispose(): void {
+        this.events.emit('dispose', undefined);
+        this.events.clear();
         this.implementation.dispose();
-        this.unregisterVideoEvents();
+        this.detachClock();
+        this.unregisterCanvasEvents();
 
         // Do not destroy the canvas if it was provided from an external source.
         if (this.canvasOwner) {
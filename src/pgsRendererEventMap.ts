@@ -0,0 +1,43 @@
+import {SubtitleLoadProgress} from "./subtitleLoadProgress";
+import {SubtitleCue} from "./subtitleCue";
+import {SubtitleLoadError} from "./subtitleLoadError";
+
+/**
+ * The events of the PGS renderer by event type.
+ */
+export interface PgsRendererEventMap {
+    /**
+     * Is emitted when a subtitle file starts loading.
+     */
+    loadstart: void;
+
+    /**
+     * Is emitted while a subtitle file is loading. There is a minimum threshold of one second between updates.
+     */
+    progress: SubtitleLoadProgress;
+
+    /**
+     * Is emitted when a subtitle file was loaded completely.
+     */
+    loaded: void;
+
+    /**
+     * Is emitted when a subtitle file failed to load. Cancelled loads are not reported.
+     */
+    error: SubtitleLoadError;
+
+    /**
+     * Is emitted when the shown cue changed. The cue is undefined if no subtitle is shown.
+     */
+    cuechange: SubtitleCue | undefined;
+
+    /**
+     * Is emitted when the renderer is disposed.
+     */
+    dispose: void;
+}
+
+/**
+ * A listener for the PGS renderer event of the given type.
+ */
+export type PgsRendererEventListener<K extends keyof PgsRendererEventMap> = (event: PgsRendererEventMap[K]) => void;
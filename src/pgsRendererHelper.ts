@@ -1,3 +1,12 @@
+import {CompositionObject} from "./pgs/presentationCompositionSegment";
+import {SubtitleCompositionData, SubtitleData} from "./subtitleData";
+import {SubtitleDisplayMode} from "./subtitleDisplayMode";
+import {Rect} from "./utils/rect";
+import {SubtitleViewport, SubtitleTransform} from "./subtitleViewport";
+import {SubtitleLayout} from "./subtitleLayout";
+import {SubtitleStyle} from "./subtitleStyle";
+import {SubtitleCue} from "./subtitleCue";
+
 export class PgsRendererHelper {
     /**
      * Returns the array index position for the previous timestamp position from the given array.
@@ -32,4 +41,308 @@ export class PgsRendererHelper {
 
         return left;
     }
-}
\ No newline at end of file
+
+    /**
+     * Gets if the composition object is cropped. The flag is checked directly, since the subtitle data from the worker
+     * is a plain object without the getters of `CompositionObject`.
+     * @param compositionObject The composition object to check.
+     */
+    public static hasCropping(compositionObject: CompositionObject): boolean {
+        return (compositionObject.croppedFlag & 0x80) !== 0;
+    }
+
+    /**
+     * Gets if the composition object is forced. Like `hasCropping`, this works with the plain objects from the worker.
+     * @param compositionObject The composition object to check.
+     */
+    public static isForced(compositionObject: CompositionObject): boolean {
+        return (compositionObject.croppedFlag & 0x40) !== 0;
+    }
+
+    /**
+     * Times closer than this to a cue start are treated as the cue start, so navigating from a seeked position
+     * doesn't return the same cue again.
+     */
+    private static readonly cueTimeTolerance = 0.001;
+
+    /**
+     * Returns the number of cues starting at or before the given time.
+     * @param time The subtitle time in seconds.
+     * @param cues The cues sorted by start time.
+     */
+    private static getCueCountAtTime(time: number, cues: SubtitleCue[]): number {
+        let left = 0;
+        let right = cues.length;
+        while (left < right) {
+            const mid = (left + right) >>> 1;
+            if (cues[mid].startTime <= time) {
+                left = mid + 1;
+            } else {
+                right = mid;
+            }
+        }
+        return left;
+    }
+
+    /**
+     * Returns the index of the cue shown at the given time or -1 if no cue is shown.
+     * @param time The subtitle time in seconds.
+     * @param cues The cues sorted by start time.
+     */
+    public static getCueIndexAtTime(time: number, cues: SubtitleCue[]): number {
+        const index = PgsRendererHelper.getCueCountAtTime(time, cues) - 1;
+        return index >= 0 && time < cues[index].endTime ? index : -1;
+    }
+
+    /**
+     * Returns the index of the first cue starting after the given time or -1 if there is none.
+     * @param time The subtitle time in seconds.
+     * @param cues The cues sorted by start time.
+     */
+    public static getNextCueIndex(time: number, cues: SubtitleCue[]): number {
+        const index = PgsRendererHelper.getCueCountAtTime(time + PgsRendererHelper.cueTimeTolerance, cues);
+        return index < cues.length ? index : -1;
+    }
+
+    /**
+     * Returns the index of the last cue starting before the given time or -1 if there is none.
+     * @param time The subtitle time in seconds.
+     * @param cues The cues sorted by start time.
+     */
+    public static getPreviousCueIndex(time: number, cues: SubtitleCue[]): number {
+        return PgsRendererHelper.getCueCountAtTime(time - PgsRendererHelper.cueTimeTolerance, cues) - 1;
+    }
+
+    /**
+     * Returns the compositions of the subtitle to draw in the given display mode.
+     * @param subtitleData The subtitle data to draw.
+     * @param displayMode The display mode of the renderer.
+     */
+    public static getCompositionsToDraw(subtitleData: SubtitleData,
+                                        displayMode: SubtitleDisplayMode): SubtitleCompositionData[] {
+        switch (displayMode) {
+            case SubtitleDisplayMode.none:
+                return [];
+            case SubtitleDisplayMode.forced:
+                return subtitleData.compositionData.filter(c => PgsRendererHelper.isForced(c.compositionObject));
+            default:
+                return subtitleData.compositionData;
+        }
+    }
+
+    /**
+     * Checks if the style draws effects around the compositions. Compositions with effects can't be drawn pixel by
+     * pixel.
+     * @param style The subtitle style.
+     */
+    public static hasStyleEffects(style?: SubtitleStyle): boolean {
+        if (!style) return false;
+        return (style.opacity ?? 1) < 1 || (style.outline?.width ?? 0) > 0 || !!style.shadow || !!style.background;
+    }
+
+    /**
+     * Returns how far the effects of the style reach outside a composition in subtitle pixels.
+     * @param style The subtitle style.
+     */
+    public static getStyleMargin(style?: SubtitleStyle): number {
+        if (!style) return 0;
+        const outline = Math.max(0, style.outline?.width ?? 0);
+        const shadow = style.shadow ? Math.max(Math.abs(style.shadow.offsetX), Math.abs(style.shadow.offsetY)) +
+            Math.max(0, style.shadow.blur ?? 0) : 0;
+        const padding = style.background ? Math.max(0, style.background.padding ?? 0) : 0;
+        return Math.ceil(Math.max(outline, shadow, padding));
+    }
+
+    /**
+     * The transformation that keeps the subtitle coordinates.
+     */
+    public static readonly identityTransform: SubtitleTransform = { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 };
+
+    /**
+     * Checks if the transformation keeps the subtitle coordinates. The subtitle can be drawn pixel by pixel.
+     * @param transform The transformation to check.
+     */
+    public static isIdentityTransform(transform: SubtitleTransform): boolean {
+        return transform.scaleX === 1 && transform.scaleY === 1 && transform.offsetX === 0 && transform.offsetY === 0;
+    }
+
+    /**
+     * Returns the transformation from subtitle to canvas coordinates. This applies the user layout in subtitle
+     * coordinates, followed by the viewport scaling at display resolution.
+     * @param subtitleData The subtitle data to draw.
+     * @param compositions The compositions to draw.
+     * @param layout The optional user layout.
+     * @param viewport The viewport at display resolution. If not given, the canvas has the subtitle size.
+     * @param region The optional visible region to keep the subtitles in.
+     */
+    public static getSubtitleTransform(subtitleData: SubtitleData, compositions: SubtitleCompositionData[],
+                                       layout?: SubtitleLayout, viewport?: SubtitleViewport,
+                                       region?: Rect): SubtitleTransform {
+        const transform = layout ?
+            PgsRendererHelper.getLayoutTransform(subtitleData.width, subtitleData.height, compositions, layout,
+                region) :
+            PgsRendererHelper.identityTransform;
+        if (!viewport) return transform;
+
+        // Applies the viewport scaling after the layout.
+        const viewportTransform = PgsRendererHelper.getViewportTransform(subtitleData.width, subtitleData.height,
+            viewport);
+        return {
+            scaleX: transform.scaleX * viewportTransform.scaleX,
+            scaleY: transform.scaleY * viewportTransform.scaleY,
+            offsetX: transform.offsetX * viewportTransform.scaleX + viewportTransform.offsetX,
+            offsetY: transform.offsetY * viewportTransform.scaleY + viewportTransform.offsetY,
+        };
+    }
+
+    /**
+     * Returns the transformation to apply the user layout to the visible compositions. The compositions are scaled as
+     * one group around the bottom-centre, moved by the vertical offset and then moved into the safe area.
+     * @param width The width of the subtitle.
+     * @param height The height of the subtitle.
+     * @param compositions The compositions to draw.
+     * @param layout The user layout.
+     * @param region The optional visible region. The compositions are moved into this region first and the safe area
+     * is relative to this region.
+     */
+    public static getLayoutTransform(width: number, height: number, compositions: SubtitleCompositionData[],
+                                     layout: SubtitleLayout, region?: Rect): SubtitleTransform {
+        // The bounding box of all visible compositions.
+        const bounds = new Rect();
+        const area = new Rect();
+        for (const composition of compositions) {
+            const objectWidth = composition.pixelData?.width ?? composition.indexData?.width ?? 0;
+            const objectHeight = composition.pixelData?.height ?? composition.indexData?.height ?? 0;
+            PgsRendererHelper.getVisibleArea(composition, objectWidth, objectHeight, area);
+            PgsRendererHelper.moveIntoRegion(area, region);
+            if (!area.empty) {
+                bounds.union(area.x, area.y, area.width, area.height);
+            }
+        }
+        if (bounds.empty) return PgsRendererHelper.identityTransform;
+
+        // Scales around the bottom-centre: p' = (p - anchor) * scale + anchor
+        const scale = Math.max(0, layout.scale);
+        const anchorX = bounds.x + bounds.width / 2;
+        const anchorY = bounds.y + bounds.height;
+        const offsetX = anchorX * (1 - scale);
+        const offsetY = anchorY * (1 - scale) - layout.verticalOffset * height;
+
+        const inset = Math.min(Math.max(layout.safeAreaInset, 0), 0.5);
+        const safeX = region && !region.empty ? region.x : 0;
+        const safeY = region && !region.empty ? region.y : 0;
+        const safeWidth = region && !region.empty ? region.width : width;
+        const safeHeight = region && !region.empty ? region.height : height;
+        return {
+            scaleX: scale,
+            scaleY: scale,
+            offsetX: offsetX + PgsRendererHelper.getSafeAreaCorrection(bounds.x * scale + offsetX,
+                bounds.width * scale, safeX + inset * safeWidth, safeX + safeWidth - inset * safeWidth),
+            offsetY: offsetY + PgsRendererHelper.getSafeAreaCorrection(bounds.y * scale + offsetY,
+                bounds.height * scale, safeY + inset * safeHeight, safeY + safeHeight - inset * safeHeight),
+        };
+    }
+
+    /**
+     * Gets the part of the subtitle that is visible in the viewport. With the `cover` aspect ratio mode, the subtitle
+     * is cropped like the video. The region is rounded inwards to whole subtitle pixels.
+     * @param width The width of the subtitle.
+     * @param height The height of the subtitle.
+     * @param viewport The size and aspect ratio mode of the canvas element. If not given, the region is empty.
+     * @param region The rect to write the visible region to.
+     */
+    public static getVisibleRegion(width: number, height: number, viewport: SubtitleViewport | undefined,
+                                   region: Rect): void {
+        if (!viewport) {
+            region.reset();
+            return;
+        }
+
+        // Maps the canvas element back to subtitle coordinates.
+        const transform = PgsRendererHelper.getViewportTransform(width, height, viewport);
+        const left = Math.max(0, Math.ceil(-transform.offsetX / transform.scaleX));
+        const top = Math.max(0, Math.ceil(-transform.offsetY / transform.scaleY));
+        const right = Math.min(width, Math.floor((viewport.width - transform.offsetX) / transform.scaleX));
+        const bottom = Math.min(height, Math.floor((viewport.height - transform.offsetY) / transform.scaleY));
+        region.set(left, top, Math.max(0, right - left), Math.max(0, bottom - top));
+    }
+
+    /**
+     * Moves the area into the region, if it isn't fully inside. Areas inside the region keep their position, so
+     * visible signs are not moved. Areas larger than the region are centered.
+     * @param area The area to move.
+     * @param region The region to move the area into. Nothing is moved, if the region is not given or empty.
+     */
+    public static moveIntoRegion(area: Rect, region?: Rect): void {
+        if (area.empty || !region || region.empty || region.width <= 0 || region.height <= 0) return;
+        area.x += Math.round(PgsRendererHelper.getSafeAreaCorrection(area.x, area.width, region.x,
+            region.x + region.width));
+        area.y += Math.round(PgsRendererHelper.getSafeAreaCorrection(area.y, area.height, region.y,
+            region.y + region.height));
+    }
+
+    /**
+     * Returns the distance to move a range into the safe area or visible region. Ranges larger than the area are
+     * centered.
+     * @param start The start of the range.
+     * @param size The size of the range.
+     * @param min The start of the safe area.
+     * @param max The end of the safe area.
+     */
+    private static getSafeAreaCorrection(start: number, size: number, min: number, max: number): number {
+        if (size > max - min) return (min + max - size) / 2 - start;
+        if (start < min) return min - start;
+        if (start + size > max) return max - (start + size);
+        return 0;
+    }
+
+    /**
+     * Returns the transformation to fit the subtitle into the viewport. This follows the `object-fit` modes of the
+     * video element.
+     * @param width The width of the subtitle.
+     * @param height The height of the subtitle.
+     * @param viewport The canvas size and aspect ratio mode.
+     */
+    public static getViewportTransform(width: number, height: number,
+                                       viewport: SubtitleViewport): SubtitleTransform {
+        let scaleX = viewport.width / width;
+        let scaleY = viewport.height / height;
+        if (viewport.aspectRatio === 'contain') {
+            scaleX = scaleY = Math.min(scaleX, scaleY);
+        } else if (viewport.aspectRatio === 'cover') {
+            scaleX = scaleY = Math.max(scaleX, scaleY);
+        }
+
+        return {
+            scaleX: scaleX,
+            scaleY: scaleY,
+            offsetX: (viewport.width - width * scaleX) / 2,
+            offsetY: (viewport.height - height * scaleY) / 2,
+        };
+    }
+
+    /**
+     * Calculates the visible area of the composition in canvas coordinates. This is the object, or its cropped area,
+     * clipped to the window. Objects are only visible inside their window.
+     * @param compositionData The subtitle composition data.
+     * @param width The width of the object.
+     * @param height The height of the object.
+     * @param area The rect to write the visible area to. The rect is empty if nothing is visible.
+     */
+    public static getVisibleArea(compositionData: SubtitleCompositionData, width: number, height: number,
+                                 area: Rect): void {
+        const compositionObject = compositionData.compositionObject;
+        const window = compositionData.window;
+
+        area.set(0, 0, width, height);
+        if (PgsRendererHelper.hasCropping(compositionObject)) {
+            area.intersect(compositionObject.croppingHorizontalPosition, compositionObject.croppingVerticalPosition,
+                compositionObject.croppingWidth, compositionObject.croppingHeight);
+            if (area.empty) return;
+        }
+
+        area.x += compositionObject.horizontalPosition;
+        area.y += compositionObject.verticalPosition;
+        area.intersect(window.horizontalPosition, window.verticalPosition, window.width, window.height);
+    }
+}
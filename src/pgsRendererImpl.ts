@@ -1,4 +1,16 @@
 import {PgsRendererHelper} from "./pgsRendererHelper";
+import {SubtitleLoadOptions} from "./subtitleLoadOptions";
+import {SubtitleDiagnostic} from "./subtitleDiagnostic";
+import {SubtitleDisplayMode} from "./subtitleDisplayMode";
+import {SubtitleColorAdjustment} from "./subtitleColorAdjustment";
+import {SubtitleViewport} from "./subtitleViewport";
+import {SubtitleLayout} from "./subtitleLayout";
+import {SubtitleStyle} from "./subtitleStyle";
+import {SubtitleCue} from "./subtitleCue";
+import {SubtitleLoadProgress} from "./subtitleLoadProgress";
+import {SubtitleTrackInfo} from "./subtitleTrackInfo";
+import {SubtitleLoadError} from "./subtitleLoadError";
+import {SubtitleLoadErrorReason} from "./subtitleLoadErrorReason";
 
 /**
  * The base for handling pgs loading and rendering. There are different ways to render a subtitle file. Modern browser
@@ -8,13 +20,77 @@ import {PgsRendererHelper} from "./pgsRendererHelper";
 export abstract class PgsRendererImpl {
 
     private updateTimestamps: number[] = [];
-    private previousTimestampIndex: number = 0;
+    private previousTimestampIndex: number = -1;
 
     /**
      * Is called when the timestamps were updated.
      */
     public onTimestampsUpdated?: () => void;
 
+    /**
+     * Is called for every problem found while loading a damaged subtitle file with `errorRecovery`.
+     */
+    public onDiagnostic?: (diagnostic: SubtitleDiagnostic) => void;
+
+    /**
+     * Is called while a subtitle file is loading.
+     */
+    public onProgress?: (progress: SubtitleLoadProgress) => void;
+
+    /**
+     * Is called when a subtitle file was loaded completely.
+     */
+    public onLoaded?: () => void;
+
+    /**
+     * Is called when a subtitle file failed to load. Cancelled loads are not reported.
+     */
+    public onError?: (error: SubtitleLoadError) => void;
+
+    /**
+     * Is called when a subtitle at another timestamp index was rendered.
+     */
+    public onIndexChanged?: () => void;
+
+    /**
+     * Invokes the diagnostics event.
+     * @param diagnostic The problem found in the subtitle file.
+     */
+    protected invokeDiagnostic(diagnostic: SubtitleDiagnostic): void {
+        if (this.onDiagnostic) {
+            this.onDiagnostic(diagnostic);
+        }
+    }
+
+    /**
+     * Invokes the progress event.
+     * @param progress The loading state.
+     */
+    protected invokeProgress(progress: SubtitleLoadProgress): void {
+        if (this.onProgress) {
+            this.onProgress(progress);
+        }
+    }
+
+    /**
+     * Invokes the loaded event.
+     */
+    protected invokeLoaded(): void {
+        if (this.onLoaded) {
+            this.onLoaded();
+        }
+    }
+
+    /**
+     * Invokes the error event.
+     * @param error The loading error.
+     */
+    protected invokeError(error: SubtitleLoadError): void {
+        if (this.onError && error.reason !== SubtitleLoadErrorReason.aborted) {
+            this.onError(error);
+        }
+    }
+
     /**
      * Sets the update timestamps and invokes an update event.
      * @param updateTimestamps The new array of update timestamps.
@@ -49,6 +125,16 @@ export abstract class PgsRendererImpl {
         this.previousTimestampIndex = index;
 
         this.render(index);
+        if (this.onIndexChanged) {
+            this.onIndexChanged();
+        }
+    }
+
+    /**
+     * Renders the current subtitle again. This is used to apply changed render settings.
+     */
+    protected rerender(): void {
+        this.render(this.previousTimestampIndex);
     }
 
     /**
@@ -58,16 +144,65 @@ export abstract class PgsRendererImpl {
     protected abstract render(index: number): void;
 
     /**
-     * Loads the subtitle file from the given url.
+     * Loads the subtitle file from the given url. A new load cancels the previous one.
      * @param url The url to the PGS file.
+     * @param options Optional format and track selection.
+     * @param signal Optional signal to cancel the load.
      */
-    public abstract loadFromUrl(url: string): void;
+    public abstract loadFromUrl(url: string, options?: SubtitleLoadOptions,
+                                signal?: AbortSignal): Promise<SubtitleTrackInfo>;
 
     /**
-     * Loads the subtitle file from the given buffer.
+     * Loads the subtitle file from the given buffer. A new load cancels the previous one.
      * @param buffer The PGS data.
+     * @param options Optional format and track selection.
+     * @param signal Optional signal to cancel the load.
+     */
+    public abstract loadFromBuffer(buffer: ArrayBuffer, options?: SubtitleLoadOptions,
+                                   signal?: AbortSignal): Promise<SubtitleTrackInfo>;
+
+    /**
+     * Sets which subtitles are rendered and re-renders the current subtitle.
+     * @param displayMode The new display mode.
+     */
+    public abstract setDisplayMode(displayMode: SubtitleDisplayMode): void;
+
+    /**
+     * Sets the color adjustment of the subtitle palettes and re-renders the current subtitle.
+     * @param adjustment The new adjustment or undefined to show the original colors.
+     */
+    public abstract setColorAdjustment(adjustment?: SubtitleColorAdjustment): void;
+
+    /**
+     * Sets the device-pixel size of the canvas element and re-renders the current subtitle. This is only used to
+     * render at display resolution.
+     * @param viewport The new viewport.
+     */
+    public abstract setViewport(viewport: SubtitleViewport): void;
+
+    /**
+     * Sets the position and scale of the subtitles and re-renders the current subtitle.
+     * @param layout The new layout.
+     */
+    public abstract setLayout(layout: SubtitleLayout): void;
+
+    /**
+     * Sets if subtitles cropped by the `cover` aspect ratio mode are moved into view and re-renders the current
+     * subtitle.
+     * @param keepInView True to move the subtitles into view.
+     */
+    public abstract setKeepInView(keepInView: boolean): void;
+
+    /**
+     * Sets the style overrides of the subtitles and re-renders the current subtitle.
+     * @param style The new style or undefined to show the original subtitles.
+     */
+    public abstract setStyle(style?: SubtitleStyle): void;
+
+    /**
+     * Gets the cues of the loaded subtitles.
      */
-    public abstract loadFromBuffer(buffer: ArrayBuffer): void;
+    public abstract getCues(): Promise<SubtitleCue[]>;
 
     /**
      * Disposes the renderer.
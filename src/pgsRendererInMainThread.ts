@@ -1,7 +1,17 @@
 import {PgsRendererImpl} from "./pgsRendererImpl";
 import {PgsRendererOptions} from "./pgsRendererOptions";
-import {Renderer} from "./renderer";
+import {SubtitleRenderer} from "./subtitleRenderer";
+import {SubtitleRendererFactory} from "./subtitleRendererFactory";
 import {Pgs} from "./pgs";
+import {SubtitleLoadOptions} from "./subtitleLoadOptions";
+import {SubtitleDisplayMode} from "./subtitleDisplayMode";
+import {SubtitleColorAdjustment} from "./subtitleColorAdjustment";
+import {SubtitleViewport} from "./subtitleViewport";
+import {SubtitleLayout} from "./subtitleLayout";
+import {SubtitleStyle} from "./subtitleStyle";
+import {SubtitleCue} from "./subtitleCue";
+import {SubtitleTrackInfo} from "./subtitleTrackInfo";
+import {SubtitleLoader, SubtitleUnauthorizedHandler} from "./subtitleLoader";
 
 /**
  * The implementation without web workers. This loads and renders the subtitle in the main thread.
@@ -13,7 +23,13 @@ export class PgsRendererInMainThread extends PgsRendererImpl {
         super();
 
         this.pgs = new Pgs();
-        this.renderer = new Renderer(canvas);
+        this.pgs.setColorConversion(options.colorMatrix, options.colorRange);
+        this.renderer = SubtitleRendererFactory.create(canvas, options.backend);
+        this.renderer.renderResolution = options.renderResolution ?? this.renderer.renderResolution;
+        this.renderer.upscalingFilter = options.upscalingFilter ?? this.renderer.upscalingFilter;
+        this.pgs.setIndexedOutput(this.renderer.indexed);
+        this.loader = options.loader;
+        this.onUnauthorized = options.onUnauthorized;
     }
 
     /**
@@ -25,32 +41,100 @@ export class PgsRendererInMainThread extends PgsRendererImpl {
     /**
      * The subtitle renderer, running in the main thread.
      */
-    private readonly renderer: Renderer;
+    private readonly renderer: SubtitleRenderer;
+
+    private readonly loader?: SubtitleLoader;
+    private readonly onUnauthorized?: SubtitleUnauthorizedHandler;
 
     protected render(index: number): void {
         const subtitleData = this.pgs.getSubtitleAtIndex(index);
         requestAnimationFrame(() => {
+            // The renderer can be disposed before the next frame.
+            if (this.disposed) return;
             this.renderer.draw(subtitleData);
         });
         this.pgs.cacheSubtitleAtIndex(index + 1);
     }
 
-    public loadFromUrl(url: string): void {
-        this.pgs.loadFromUrl(url, {
-            onProgress: () => {
+    public loadFromUrl(url: string, options?: SubtitleLoadOptions, signal?: AbortSignal): Promise<SubtitleTrackInfo> {
+        return this.pgs.loadFromUrl(url, {
+            ...options,
+            signal: signal,
+            loader: this.loader,
+            onUnauthorized: this.onUnauthorized,
+            onProgress: (progress) => {
                 this.invokeTimestampsUpdate();
+                this.invokeProgress(progress);
+            },
+            onDiagnostic: (diagnostic) => {
+                this.invokeDiagnostic(diagnostic);
             }
-        }).then(() => {
+        }).then((info) => {
             this.invokeTimestampsUpdate();
+            this.invokeLoaded();
+            return info;
+        }, (error) => {
+            this.invokeError(error);
+            throw error;
         });
     }
 
-    public loadFromBuffer(buffer: ArrayBuffer): void {
-        this.pgs.loadFromBuffer(buffer).then(() => {
+    public loadFromBuffer(buffer: ArrayBuffer, options?: SubtitleLoadOptions,
+                          signal?: AbortSignal): Promise<SubtitleTrackInfo> {
+        return this.pgs.loadFromBuffer(buffer, {
+            ...options,
+            signal: signal,
+            onProgress: (progress) => {
+                this.invokeProgress(progress);
+            },
+            onDiagnostic: (diagnostic) => {
+                this.invokeDiagnostic(diagnostic);
+            }
+        }).then((info) => {
             this.invokeTimestampsUpdate();
+            this.invokeLoaded();
+            return info;
+        }, (error) => {
+            this.invokeError(error);
+            throw error;
         });
     }
 
+    public setDisplayMode(displayMode: SubtitleDisplayMode): void {
+        this.renderer.displayMode = displayMode;
+        this.rerender();
+    }
+
+    public setColorAdjustment(adjustment?: SubtitleColorAdjustment): void {
+        this.pgs.setColorAdjustment(adjustment);
+        this.rerender();
+    }
+
+    public setViewport(viewport: SubtitleViewport): void {
+        this.renderer.viewport = viewport;
+        this.rerender();
+    }
+
+    public setLayout(layout: SubtitleLayout): void {
+        this.renderer.layout = layout;
+        this.rerender();
+    }
+
+    public setKeepInView(keepInView: boolean): void {
+        this.renderer.keepInView = keepInView;
+        this.rerender();
+    }
+
+    public setStyle(style?: SubtitleStyle): void {
+        this.pgs.setStyle(style);
+        this.renderer.style = style;
+        this.rerender();
+    }
+
+    public getCues(): Promise<SubtitleCue[]> {
+        return Promise.resolve(this.pgs.getCues());
+    }
+
     /**
      * Submits the update timestamps from the pgs loader and invokes events.
      */
@@ -58,10 +142,14 @@ export class PgsRendererInMainThread extends PgsRendererImpl {
         this.setUpdateTimestamps(this.pgs.updateTimestamps);
     }
 
+    private disposed: boolean = false;
+
     /**
      * Disposes the renderer.
      */
     public dispose(): void {
-        // Nothing to do
+        this.disposed = true;
+        this.pgs.abortLoad();
+        this.renderer.dispose();
     }
 }
@@ -1,5 +1,12 @@
 import {PgsRendererImpl} from "./pgsRendererImpl";
 import {PgsRendererOptions} from "./pgsRendererOptions";
+import {SubtitleLoadOptions} from "./subtitleLoadOptions";
+import {SubtitleColorAdjustment} from "./subtitleColorAdjustment";
+import {SubtitleStyle} from "./subtitleStyle";
+import {SubtitleCue} from "./subtitleCue";
+import {SubtitleTrackInfo} from "./subtitleTrackInfo";
+import {SubtitleLoadError} from "./subtitleLoadError";
+import {SubtitleLoader, SubtitleUnauthorizedHandler} from "./subtitleLoader";
 
 /**
  * The base implementation for a pgs renderer in side a worker.
@@ -13,27 +20,163 @@ export abstract class PgsRendererInWorker extends PgsRendererImpl {
         const workerUrl = options.workerUrl ?? 'libpgs.worker.js';
         this.worker = new Worker(workerUrl);
         this.worker.onmessage = this.$onWorkerMessage;
+
+        this.loader = options.loader;
+        this.onUnauthorized = options.onUnauthorized;
     }
 
-    public loadFromUrl(url: string): void {
-        this.worker.postMessage({
+    /**
+     * The request functions can't be passed to the worker. The worker requests them from the main thread.
+     */
+    private readonly loader?: SubtitleLoader;
+    private readonly onUnauthorized?: SubtitleUnauthorizedHandler;
+
+    public loadFromUrl(url: string, options?: SubtitleLoadOptions, signal?: AbortSignal): Promise<SubtitleTrackInfo> {
+        return this.load({
             op: 'loadFromUrl',
             url: url,
-        });
+            options: PgsRendererInWorker.toSerializableOptions(options),
+            loader: !!this.loader,
+            onUnauthorized: !!this.onUnauthorized,
+        }, [], signal);
     }
 
-    public loadFromBuffer(buffer: ArrayBuffer): void {
-        this.worker.postMessage({
+    public loadFromBuffer(buffer: ArrayBuffer, options?: SubtitleLoadOptions,
+                          signal?: AbortSignal): Promise<SubtitleTrackInfo> {
+        return this.load({
             op: 'loadFromBuffer',
             buffer: buffer,
-        }, [buffer]);
+            options: PgsRendererInWorker.toSerializableOptions(options),
+        }, [buffer], signal);
+    }
+
+    /**
+     * Converts the load options into options that can be passed to the worker.
+     * @param options The load options.
+     */
+    private static toSerializableOptions(options?: SubtitleLoadOptions): SubtitleLoadOptions | undefined {
+        if (!options?.requestInit) {
+            return options;
+        }
+        return { ...options, requestInit: PgsRendererInWorker.toSerializableInit(options.requestInit) };
+    }
+
+    /**
+     * Converts the request options into options that can be passed to the worker. `Headers` can't be cloned and are
+     * converted into a plain object. The signal is dropped, since aborts are forwarded by request id.
+     * @param init The request options.
+     */
+    private static toSerializableInit(init: RequestInit): RequestInit {
+        const headers: Record<string, string> = {};
+        new Headers(init.headers).forEach((value, key) => {
+            headers[key] = value;
+        });
+        return { ...init, headers: headers, signal: undefined };
+    }
+
+    /**
+     * Posts the load message to the worker. The result is matched by the request id.
+     * @param message The load message.
+     * @param transfer The transferred buffers.
+     * @param signal Optional signal to cancel the load.
+     */
+    private load(message: object, transfer: Transferable[], signal?: AbortSignal): Promise<SubtitleTrackInfo> {
+        const id = ++this.lastRequestId;
+        return new Promise<SubtitleTrackInfo>((resolve, reject) => {
+            // The load is cancelled in the worker, which responds with an aborted error.
+            const abort = () => {
+                this.worker.postMessage({ op: 'abortLoad', id: id });
+            };
+            // Long-lived caller signals must not keep settled loads alive.
+            const release = () => signal?.removeEventListener('abort', abort);
+            this.pendingLoads.set(id, {
+                resolve: info => {
+                    release();
+                    resolve(info);
+                },
+                reject: error => {
+                    release();
+                    reject(error);
+                }
+            });
+            try {
+                this.worker.postMessage({ ...message, id: id }, transfer);
+            } catch (error) {
+                // Options that can't be cloned throw instead of reaching the worker.
+                this.pendingLoads.delete(id);
+                const loadError = SubtitleLoadError.from(error, false);
+                this.invokeError(loadError);
+                reject(loadError);
+                return;
+            }
+
+            if (signal?.aborted) {
+                abort();
+            } else {
+                signal?.addEventListener('abort', abort, { once: true });
+            }
+        });
+    }
+
+    /**
+     * The loads waiting for the worker result by request id.
+     */
+    private readonly pendingLoads = new Map<number, {
+        resolve: (info: SubtitleTrackInfo) => void,
+        reject: (error: SubtitleLoadError) => void
+    }>();
+
+    public setColorAdjustment(adjustment?: SubtitleColorAdjustment): void {
+        // The palettes are converted in the worker.
+        this.worker.postMessage({
+            op: 'setColorAdjustment',
+            adjustment: adjustment,
+        });
+        this.rerender();
+    }
+
+    public setStyle(style?: SubtitleStyle): void {
+        // The palette preset and tint are applied in the worker. The worker renderer draws the effects if it owns the
+        // canvas.
+        this.worker.postMessage({
+            op: 'setStyle',
+            style: style,
+        });
+        this.rerender();
+    }
+
+    public getCues(): Promise<SubtitleCue[]> {
+        // The cues are built in the worker. The response is matched by the request id.
+        if (!this.cues) {
+            this.cues = new Promise<SubtitleCue[]>(resolve => {
+                const id = ++this.lastRequestId;
+                this.pendingCueRequests.set(id, resolve);
+                this.worker.postMessage({
+                    op: 'requestCues',
+                    id: id,
+                });
+            });
+        }
+        return this.cues;
     }
 
+    /**
+     * The last requested cues. They are requested again after the timestamps were updated.
+     */
+    private cues?: Promise<SubtitleCue[]>;
+
     /**
      * The background worker.
      */
     protected readonly worker: Worker;
 
+    private lastRequestId: number = 0;
+
+    /**
+     * The cue requests waiting for the worker response by request id.
+     */
+    private readonly pendingCueRequests = new Map<number, (cues: SubtitleCue[]) => void>();
+
     /**
      * Handles messages from the worker.
      * @param e The event message.
@@ -50,17 +193,160 @@ export abstract class PgsRendererInWorker extends PgsRendererImpl {
         switch (e.data.op) {
             // Is called once a subtitle file was loaded.
             case 'updateTimestamps': {
+                this.cues = undefined;
                 this.setUpdateTimestamps(e.data.updateTimestamps);
                 break;
             }
+
+            // Is called for every problem found in a damaged subtitle file.
+            case 'diagnostic': {
+                this.invokeDiagnostic(e.data.diagnostic);
+                break;
+            }
+
+            // Is called while a subtitle file is loading.
+            case 'progress': {
+                this.invokeProgress(e.data.progress);
+                break;
+            }
+
+            // Is called once a subtitle file was loaded completely.
+            case 'loaded': {
+                const load = this.pendingLoads.get(e.data.id);
+                this.pendingLoads.delete(e.data.id);
+                this.invokeLoaded();
+                load?.resolve(e.data.info);
+                break;
+            }
+
+            // Is called if a subtitle file failed to load or was cancelled.
+            case 'error': {
+                const load = this.pendingLoads.get(e.data.id);
+                this.pendingLoads.delete(e.data.id);
+                const error = new SubtitleLoadError(e.data.reason, e.data.message);
+                this.invokeError(error);
+                load?.reject(error);
+                break;
+            }
+
+            // Is called to load a subtitle url with the custom loader.
+            case 'fetch': {
+                this.fetchForWorker(e.data.id, e.data.url, e.data.init);
+                break;
+            }
+
+            // Is called to get new request options for an unauthorized subtitle request.
+            case 'unauthorized': {
+                this.unauthorizedForWorker(e.data.id, e.data.url, e.data.init);
+                break;
+            }
+
+            // Is called if the load of a pending fetch or unauthorized request was cancelled.
+            case 'abortFetch': {
+                this.fetchControllers.get(e.data.id)?.abort();
+                break;
+            }
+
+            // Is called with the requested cues.
+            case 'cues': {
+                const resolve = this.pendingCueRequests.get(e.data.id);
+                if (resolve) {
+                    this.pendingCueRequests.delete(e.data.id);
+                    resolve(e.data.cues);
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Loads the url with the custom loader and passes the response to the worker.
+     * @param id The request id of the worker.
+     * @param url The url to load.
+     * @param init The request options.
+     */
+    private async fetchForWorker(id: number, url: string, init: RequestInit): Promise<void> {
+        const controller = this.startFetch(id);
+        try {
+            const response = await this.loader!(url, { ...init, signal: controller.signal });
+            const headers: Record<string, string> = {};
+            response.headers.forEach((value, key) => {
+                headers[key] = value;
+            });
+            const buffer = await response.arrayBuffer();
+            this.worker.postMessage({
+                op: 'fetchResult',
+                id: id,
+                status: response.status,
+                statusText: response.statusText,
+                headers: headers,
+                buffer: buffer,
+            }, [buffer]);
+        } catch (error) {
+            this.worker.postMessage({
+                op: 'fetchResult',
+                id: id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        } finally {
+            this.fetchControllers.delete(id);
+        }
+    }
+
+    /**
+     * Gets new request options from the unauthorized handler and passes them to the worker.
+     * @param id The request id of the worker.
+     * @param url The unauthorized url.
+     * @param init The request options of the unauthorized request.
+     */
+    private async unauthorizedForWorker(id: number, url: string, init: RequestInit): Promise<void> {
+        const controller = this.startFetch(id);
+        try {
+            const retryInit = await this.onUnauthorized!(url, { ...init, signal: controller.signal });
+            this.worker.postMessage({
+                op: 'unauthorizedResult',
+                id: id,
+                init: retryInit ? PgsRendererInWorker.toSerializableInit(retryInit) : undefined,
+            });
+        } catch (error) {
+            this.worker.postMessage({
+                op: 'unauthorizedResult',
+                id: id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        } finally {
+            this.fetchControllers.delete(id);
         }
     }
 
+    /**
+     * Creates the abort controller for the worker request with the given id.
+     * @param id The request id of the worker.
+     */
+    private startFetch(id: number): AbortController {
+        const controller = new AbortController();
+        this.fetchControllers.set(id, controller);
+        return controller;
+    }
+
+    /**
+     * The abort controllers of the pending fetch and unauthorized requests by worker request id.
+     */
+    private readonly fetchControllers = new Map<number, AbortController>();
+
     /**
      * Disposes the renderer and terminates the worker.
      */
     public dispose(): void {
         this.worker.postMessage({ op: 'dispose' });
         this.worker.terminate();
+
+        // The terminated worker will never respond.
+        this.pendingCueRequests.forEach(resolve => resolve([]));
+        this.pendingCueRequests.clear();
+        this.pendingLoads.forEach(load => load.reject(SubtitleLoadError.aborted()));
+        this.pendingLoads.clear();
+        this.fetchControllers.forEach(controller => controller.abort());
+        this.fetchControllers.clear();
     }
 }
@@ -1,5 +1,8 @@
 import {PgsRendererOptions} from "./pgsRendererOptions";
 import {PgsRendererInWorker} from "./pgsRendererInWorker";
+import {SubtitleDisplayMode} from "./subtitleDisplayMode";
+import {SubtitleViewport} from "./subtitleViewport";
+import {SubtitleLayout} from "./subtitleLayout";
 
 /**
  * A subtitle renderer running fully in a web-worker. It loads and renders the subtitles in the web-worker.
@@ -15,6 +18,11 @@ export class PgsRendererInWorkerWithOffscreenCanvas extends PgsRendererInWorker
         this.worker.postMessage({
             op: 'init',
             canvas: offscreenCanvas,
+            backend: options.backend,
+            renderResolution: options.renderResolution,
+            upscalingFilter: options.upscalingFilter,
+            colorMatrix: options.colorMatrix,
+            colorRange: options.colorRange,
         }, [offscreenCanvas]);
     }
 
@@ -26,4 +34,36 @@ export class PgsRendererInWorkerWithOffscreenCanvas extends PgsRendererInWorker
             index: index
         });
     }
+
+    public setDisplayMode(displayMode: SubtitleDisplayMode): void {
+        this.worker.postMessage({
+            op: 'setDisplayMode',
+            displayMode: displayMode
+        });
+        this.rerender();
+    }
+
+    public setViewport(viewport: SubtitleViewport): void {
+        this.worker.postMessage({
+            op: 'setViewport',
+            viewport: viewport
+        });
+        this.rerender();
+    }
+
+    public setLayout(layout: SubtitleLayout): void {
+        this.worker.postMessage({
+            op: 'setLayout',
+            layout: layout
+        });
+        this.rerender();
+    }
+
+    public setKeepInView(keepInView: boolean): void {
+        this.worker.postMessage({
+            op: 'setKeepInView',
+            keepInView: keepInView
+        });
+        this.rerender();
+    }
 }
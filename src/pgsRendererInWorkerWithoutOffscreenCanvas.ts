@@ -1,7 +1,12 @@
 import {PgsRendererInWorker} from "./pgsRendererInWorker";
 import {SubtitleData} from "./subtitleData";
 import {PgsRendererOptions} from "./pgsRendererOptions";
-import {Renderer} from "./renderer";
+import {SubtitleRenderer} from "./subtitleRenderer";
+import {SubtitleRendererFactory} from "./subtitleRendererFactory";
+import {SubtitleDisplayMode} from "./subtitleDisplayMode";
+import {SubtitleViewport} from "./subtitleViewport";
+import {SubtitleLayout} from "./subtitleLayout";
+import {SubtitleStyle} from "./subtitleStyle";
 
 /**
  * A subtitle renderer running partially in a web-worker. It loads the subtitles in the web-worker, but rendering is
@@ -12,18 +17,24 @@ export class PgsRendererInWorkerWithoutOffscreenCanvas extends PgsRendererInWork
     public constructor(options: PgsRendererOptions, canvas: HTMLCanvasElement) {
         super(options);
 
-        this.renderer = new Renderer(canvas);
+        this.renderer = SubtitleRendererFactory.create(canvas, options.backend);
+        this.renderer.renderResolution = options.renderResolution ?? this.renderer.renderResolution;
+        this.renderer.upscalingFilter = options.upscalingFilter ?? this.renderer.upscalingFilter;
 
-        // Initialize the worker without canvas.
+        // Initialize the worker without canvas. The worker must build the subtitle data for the renderer in the main
+        // thread.
         this.worker.postMessage({
-            op: 'init'
+            op: 'init',
+            indexedOutput: this.renderer.indexed,
+            colorMatrix: options.colorMatrix,
+            colorRange: options.colorRange,
         });
     }
 
     /**
      * The subtitle renderer, running in the main thread.
      */
-    private readonly renderer: Renderer;
+    private readonly renderer: SubtitleRenderer;
 
     protected render(index: number): void {
         // Tells the worker to response with the subtitle data for this timestamp index.
@@ -33,6 +44,32 @@ export class PgsRendererInWorkerWithoutOffscreenCanvas extends PgsRendererInWork
         });
     }
 
+    public setDisplayMode(displayMode: SubtitleDisplayMode): void {
+        // The subtitle data is still built in the worker. Only the renderer in the main thread filters them.
+        this.renderer.displayMode = displayMode;
+        this.rerender();
+    }
+
+    public setViewport(viewport: SubtitleViewport): void {
+        this.renderer.viewport = viewport;
+        this.rerender();
+    }
+
+    public setLayout(layout: SubtitleLayout): void {
+        this.renderer.layout = layout;
+        this.rerender();
+    }
+
+    public setKeepInView(keepInView: boolean): void {
+        this.renderer.keepInView = keepInView;
+        this.rerender();
+    }
+
+    public setStyle(style?: SubtitleStyle): void {
+        // The effects are drawn by the renderer in the main thread.
+        this.renderer.style = style;
+        super.setStyle(style);
+    }
 
     protected onWorkerMessage(e: MessageEvent): void {
         switch (e.data.op) {
@@ -51,4 +88,12 @@ export class PgsRendererInWorkerWithoutOffscreenCanvas extends PgsRendererInWork
             }
         }
     }
+
+    /**
+     * Disposes the worker and the renderer in the main thread.
+     */
+    public dispose(): void {
+        super.dispose();
+        this.renderer.dispose();
+    }
 }
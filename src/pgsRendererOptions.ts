@@ -1,4 +1,16 @@
 import {PgsRendererMode} from "./pgsRendererMode";
+import {SubtitleLoadOptions} from "./subtitleLoadOptions";
+import {SubtitleDiagnostic} from "./subtitleDiagnostic";
+import {SubtitleDisplayMode} from "./subtitleDisplayMode";
+import {ColorMatrix} from "./colorMatrix";
+import {ColorRange} from "./colorRange";
+import {SubtitleColorAdjustment} from "./subtitleColorAdjustment";
+import {RendererBackend} from "./rendererBackend";
+import {RenderResolution} from "./renderResolution";
+import {UpscalingFilter} from "./upscalingFilter";
+import {SubtitleStyle} from "./subtitleStyle";
+import {SubtitleClock} from "./clock/subtitleClock";
+import {SubtitleLoader, SubtitleUnauthorizedHandler} from "./subtitleLoader";
 
 export interface PgsRendererOptions {
     /**
@@ -7,6 +19,12 @@ export interface PgsRendererOptions {
      */
     video?: HTMLVideoElement;
 
+    /**
+     * The clock to sync the subtitle to instead of the video element, e.g. the clock of an audio element or a manual
+     * clock for custom players. The video element is still used to place the default canvas.
+     */
+    clock?: SubtitleClock;
+
     /**
      * The initial canvas element to draw the subtitles to.
      * If not provided, the renderer creates its own canvas next to the video element.
@@ -23,11 +41,96 @@ export interface PgsRendererOptions {
      */
     aspectRatio?: 'contain' | 'cover' | 'fill';
 
+    /**
+     * If true, subtitles that are cropped by the `cover` aspect ratio mode are moved into the visible part of the
+     * video. Subtitles that are fully visible keep their position. Defaults to false.
+     */
+    keepInView?: boolean;
+
+    /**
+     * Defines the size of the canvas. At display resolution, the canvas has the device-pixel size of the element and
+     * the subtitle is scaled by the renderer. This keeps low resolution subtitles crisp on large displays.
+     * Defaults to the subtitle resolution.
+     */
+    renderResolution?: RenderResolution;
+
+    /**
+     * The filter to scale the subtitle with at display resolution. Defaults to bilinear.
+     */
+    upscalingFilter?: UpscalingFilter;
+
+    /**
+     * Moves the subtitles up by this fraction of the video height, e.g. to avoid overlapping player controls.
+     * Negative values move the subtitles down. Defaults to 0.
+     */
+    verticalOffset?: number;
+
+    /**
+     * The scale factor of the subtitles. The subtitles are scaled around the bottom-centre of all visible subtitle
+     * objects. Defaults to 1.
+     */
+    scale?: number;
+
+    /**
+     * The margin at each edge of the video as fraction of its size (0 to 0.5). Subtitles are moved into this area if
+     * the offset or scale would push them outside. Defaults to 0.
+     */
+    safeAreaInset?: number;
+
+    /**
+     * Defines which subtitles are rendered: all, only forced or none. Defaults to all subtitles.
+     */
+    displayMode?: SubtitleDisplayMode;
+
+    /**
+     * The YCbCr matrix to convert the subtitle palettes to RGB. Use `auto` to select the matrix by the video size of
+     * the subtitle. Defaults to BT.601.
+     */
+    colorMatrix?: ColorMatrix;
+
+    /**
+     * The value range of the subtitle palettes. Defaults to the full range.
+     */
+    colorRange?: ColorRange;
+
+    /**
+     * The brightness, gamma and opacity adjustment of the subtitle colors, e.g. to dim subtitles on HDR video.
+     */
+    colorAdjustment?: SubtitleColorAdjustment;
+
+    /**
+     * The style overrides for readability and accessibility: palette presets, tint, opacity, outline, drop shadow and
+     * background box.
+     */
+    style?: SubtitleStyle;
+
     /**
      * The initial subtitle file url to load from.
      */
     subUrl?: string;
 
+    /**
+     * The format and track selection of the initial subtitle file.
+     */
+    subOptions?: SubtitleLoadOptions;
+
+    /**
+     * Is called for every problem found while loading a damaged subtitle file with `errorRecovery` enabled.
+     */
+    onDiagnostic?: (diagnostic: SubtitleDiagnostic) => void;
+
+    /**
+     * Loads the subtitle urls instead of `fetch`, e.g. to sign the url. In worker modes, the loader is called in the
+     * main thread and the response is passed as a whole to the worker.
+     */
+    loader?: SubtitleLoader;
+
+    /**
+     * Is called if a subtitle request was rejected with `401 Unauthorized`, e.g. to refresh an access token. The
+     * request is retried once with the returned request options. In worker modes, it is called in the main thread.
+     */
+    onUnauthorized?: SubtitleUnauthorizedHandler;
+
     /**
      * The url to the worker javascript file.
      */
@@ -38,4 +141,10 @@ export interface PgsRendererOptions {
      * If not provided, the renderer checks the current browser to detect the best mode for your platform.
      */
     mode?: PgsRendererMode;
+
+    /**
+     * The backend to draw the subtitles with. This is used in the main thread and in the worker.
+     * Defaults to the 2D canvas context.
+     */
+    backend?: RendererBackend;
 }
@@ -0,0 +1,12 @@
+export enum RenderResolution {
+    /**
+     * The canvas has the size of the subtitle (e.g. 1920x1080) and is stretched by the CSS `object-fit` property.
+     */
+    subtitle = 'subtitle',
+
+    /**
+     * The canvas has the device-pixel size of the canvas element. The subtitle is scaled by the renderer with the
+     * selected upscaling filter.
+     */
+    display = 'display',
+}
@@ -1,11 +1,20 @@
 import {Rect} from "./utils/rect";
 import {SubtitleCompositionData, SubtitleData} from "./subtitleData";
+import {SubtitleDisplayMode} from "./subtitleDisplayMode";
+import {SubtitleRenderer} from "./subtitleRenderer";
+import {PgsRendererHelper} from "./pgsRendererHelper";
+import {RenderResolution} from "./renderResolution";
+import {UpscalingFilter} from "./upscalingFilter";
+import {SubtitleViewport, SubtitleTransform} from "./subtitleViewport";
+import {PixelArtScaler} from "./utils/pixelArtScaler";
+import {SubtitleLayout} from "./subtitleLayout";
+import {SubtitleStyle} from "./subtitleStyle";
 
 /**
  * This handles the low-level PGS loading and rendering. This renderer can operate inside the web worker without being
  * linked to a video element.
  */
-export class Renderer {
+export class Renderer implements SubtitleRenderer {
 
     private readonly canvas: OffscreenCanvas | HTMLCanvasElement;
     private readonly context: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
@@ -15,10 +24,56 @@ export class Renderer {
 
     // Cache for ImageBitmap objects to avoid recreating them
     private bitmapCache: Map<ImageData, ImageBitmap> = new Map();
+
+    // The pre-scale factor of the cached bitmaps.
+    private bitmapScale: number = 1;
     
     // Check if createImageBitmap is available (much faster than putImageData)
     private static readonly supportsImageBitmap = typeof createImageBitmap === 'function';
 
+    /**
+     * Defines which subtitles are rendered. This is applied on the next draw.
+     */
+    public displayMode: SubtitleDisplayMode = SubtitleDisplayMode.all;
+
+    /**
+     * This renderer draws the RGBA pixel data.
+     */
+    public readonly indexed: boolean = false;
+
+    /**
+     * Defines the size of the canvas. This is applied on the next draw.
+     */
+    public renderResolution: RenderResolution = RenderResolution.subtitle;
+
+    /**
+     * The filter to scale the subtitle with at display resolution. This is applied on the next draw.
+     */
+    public upscalingFilter: UpscalingFilter = UpscalingFilter.bilinear;
+
+    /**
+     * The device-pixel size of the canvas element. This is required to render at display resolution and to keep the
+     * subtitles in view.
+     */
+    public viewport?: SubtitleViewport;
+
+    /**
+     * If true, subtitles that are cropped by the `cover` aspect ratio mode are moved into the visible region.
+     * This requires the viewport.
+     */
+    public keepInView: boolean = false;
+
+    /**
+     * The user defined position and scale of the subtitles. This is applied on the next draw.
+     */
+    public layout?: SubtitleLayout;
+
+    /**
+     * The style overrides of the subtitles. The palette preset and tint are already applied to the subtitle data.
+     * This is applied on the next draw.
+     */
+    public style?: SubtitleStyle;
+
     public constructor(canvas: OffscreenCanvas | HTMLCanvasElement) {
         this.canvas = canvas;
         // Use willReadFrequently: false and alpha: true for better performance
@@ -43,18 +98,36 @@ export class Renderer {
             this.dirtyArea.reset();
         }
 
-        if (!subtitleData)
+        if (!subtitleData || this.displayMode === SubtitleDisplayMode.none)
             return;
 
-        // Resize the canvas if needed.
-        if (this.canvas.width !== subtitleData.width || this.canvas.height !== subtitleData.height) {
-            this.canvas.width = subtitleData.width;
-            this.canvas.height = subtitleData.height;
+        // Resize the canvas if needed. At display resolution, the canvas matches the device pixels of the element.
+        const viewport = this.renderResolution === RenderResolution.display ? this.viewport : undefined;
+        const width = viewport ? viewport.width : subtitleData.width;
+        const height = viewport ? viewport.height : subtitleData.height;
+        if (this.canvas.width !== width || this.canvas.height !== height) {
+            this.canvas.width = width;
+            this.canvas.height = height;
             // Clear bitmap cache on resize
             this.clearBitmapCache();
         }
 
-        await this.drawSubtitleData(subtitleData, this.dirtyArea);
+        // Only compositions with pixel data can be drawn.
+        const compositions = PgsRendererHelper.getCompositionsToDraw(subtitleData, this.displayMode)
+            .filter(c => c.pixelData);
+
+        // The cropped parts of the subtitle are only known from the size of the canvas element.
+        PgsRendererHelper.getVisibleRegion(subtitleData.width, subtitleData.height,
+            this.keepInView ? this.viewport : undefined, this.visibleRegion);
+
+        // Without layout, viewport scaling and style effects, the subtitle is drawn pixel by pixel.
+        const transform = PgsRendererHelper.getSubtitleTransform(subtitleData, compositions, this.layout, viewport,
+            this.visibleRegion);
+        if (PgsRendererHelper.isIdentityTransform(transform) && !PgsRendererHelper.hasStyleEffects(this.style)) {
+            await this.drawSubtitleData(compositions, this.dirtyArea);
+        } else {
+            await this.drawScaledSubtitleData(compositions, transform, this.dirtyArea);
+        }
     }
 
     /**
@@ -67,81 +140,124 @@ export class Renderer {
 
     /**
      * Draws the whole subtitle frame to the given context.
-     * @param subtitleData The subtitle data to draw.
+     * @param compositions The compositions with pixel data to draw.
      * @param dirtyArea If given, it will extend the dirty rect to include the affected subtitle area.
      */
-    private async drawSubtitleData(subtitleData: SubtitleData, dirtyArea?: Rect): Promise<void> {
+    private async drawSubtitleData(compositions: SubtitleCompositionData[], dirtyArea?: Rect): Promise<void> {
         // Use Promise.all for parallel bitmap creation if supported
         if (Renderer.supportsImageBitmap) {
-            const compositions = subtitleData.compositionData;
-            const bitmapPromises = compositions.map(c => this.getOrCreateBitmap(c.pixelData));
+            const bitmapPromises = compositions.map(c => this.getOrCreateBitmap(c.pixelData!));
             const bitmaps = await Promise.all(bitmapPromises);
             
             for (let i = 0; i < compositions.length; i++) {
                 this.drawSubtitleCompositionWithBitmap(compositions[i], bitmaps[i], dirtyArea);
             }
         } else {
-            for (const composition of subtitleData.compositionData) {
+            for (const composition of compositions) {
                 this.drawSubtitleCompositionData(composition, dirtyArea);
             }
         }
     }
 
+    /**
+     * Draws the whole subtitle frame scaled and moved by the given transformation.
+     * @param compositions The compositions with pixel data to draw.
+     * @param transform The transformation from subtitle to canvas coordinates.
+     * @param dirtyArea If given, it will extend the dirty rect to include the affected subtitle area.
+     */
+    private async drawScaledSubtitleData(compositions: SubtitleCompositionData[], transform: SubtitleTransform,
+                                         dirtyArea?: Rect): Promise<void> {
+        // The edge-aware filter pre-scales the images by a power of two. The remaining scale is interpolated.
+        const scale = this.upscalingFilter === UpscalingFilter.edgeAware ?
+            PixelArtScaler.getScaleFactor(Math.max(transform.scaleX, transform.scaleY)) : 1;
+        const images = await Promise.all(compositions.map(c => Renderer.supportsImageBitmap ?
+            this.getOrCreateBitmap(c.pixelData!, scale) : Renderer.createCanvasImage(c.pixelData!, scale)));
+
+        this.context.imageSmoothingEnabled = this.upscalingFilter !== UpscalingFilter.nearest;
+        this.context.globalAlpha = Math.min(Math.max(this.style?.opacity ?? 1, 0), 1);
+        for (let i = 0; i < compositions.length; i++) {
+            this.drawScaledSubtitleComposition(compositions[i], images[i], scale, transform, dirtyArea);
+        }
+        this.context.globalAlpha = 1;
+    }
+
     /**
      * Gets or creates an ImageBitmap from the cache.
+     * @param pixelData The pixel data of the composition.
+     * @param scale The power of two factor to pre-scale the image with the edge-aware scaler.
      */
-    private async getOrCreateBitmap(pixelData: ImageData): Promise<ImageBitmap> {
+    private async getOrCreateBitmap(pixelData: ImageData, scale: number = 1): Promise<ImageBitmap> {
+        // The cache only contains bitmaps of a single scale.
+        if (this.bitmapScale !== scale) {
+            this.clearBitmapCache();
+            this.bitmapScale = scale;
+        }
+
         let bitmap = this.bitmapCache.get(pixelData);
         if (!bitmap) {
-            bitmap = await createImageBitmap(pixelData);
+            bitmap = await createImageBitmap(scale > 1 ? PixelArtScaler.scaleImageData(pixelData, scale) : pixelData);
             this.bitmapCache.set(pixelData, bitmap);
         }
         return bitmap;
     }
 
+    /**
+     * Creates a canvas with the given pixel data. This is the fallback to draw scaled images without ImageBitmap
+     * support. `putImageData` ignores any scaling.
+     * @param pixelData The pixel data of the composition.
+     * @param scale The power of two factor to pre-scale the image with the edge-aware scaler.
+     */
+    private static createCanvasImage(pixelData: ImageData, scale: number): OffscreenCanvas | HTMLCanvasElement {
+        const imageData = scale > 1 ? PixelArtScaler.scaleImageData(pixelData, scale) : pixelData;
+        let canvas: OffscreenCanvas | HTMLCanvasElement;
+        if (typeof OffscreenCanvas !== 'undefined') {
+            canvas = new OffscreenCanvas(imageData.width, imageData.height);
+        } else {
+            canvas = document.createElement('canvas');
+            canvas.width = imageData.width;
+            canvas.height = imageData.height;
+        }
+        const context = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+        context.putImageData(imageData, 0, 0);
+        return canvas;
+    }
+
+    // The visible area of the composition that is currently drawn. This is reused to avoid allocations.
+    private readonly visibleArea = new Rect();
+
+    // The region to keep the subtitles in. This is empty if the subtitles are not moved.
+    private readonly visibleRegion = new Rect();
+
     /**
      * Draws subtitle composition using ImageBitmap (faster path).
      */
     private drawSubtitleCompositionWithBitmap(
-        compositionData: SubtitleCompositionData, 
+        compositionData: SubtitleCompositionData,
         bitmap: ImageBitmap,
         dirtyArea?: Rect
     ): void {
         const compositionObject = compositionData.compositionObject;
-        
-        if (compositionObject.hasCropping) {
-            this.context.drawImage(
-                bitmap,
-                compositionObject.croppingHorizontalPosition,
-                compositionObject.croppingVerticalPosition,
-                compositionObject.croppingWidth,
-                compositionObject.croppingHeight,
-                compositionObject.horizontalPosition + compositionObject.croppingHorizontalPosition,
-                compositionObject.verticalPosition + compositionObject.croppingVerticalPosition,
-                compositionObject.croppingWidth,
-                compositionObject.croppingHeight
-            );
-
-            dirtyArea?.union(
-                compositionObject.horizontalPosition,
-                compositionObject.verticalPosition,
-                compositionObject.croppingWidth,
-                compositionObject.croppingHeight
-            );
-        } else {
-            this.context.drawImage(
-                bitmap,
-                compositionObject.horizontalPosition,
-                compositionObject.verticalPosition
-            );
-
-            dirtyArea?.union(
-                compositionObject.horizontalPosition,
-                compositionObject.verticalPosition,
-                bitmap.width,
-                bitmap.height
-            );
-        }
+        const pixelData = compositionData.pixelData!;
+        const area = this.visibleArea;
+        PgsRendererHelper.getVisibleArea(compositionData, pixelData.width, pixelData.height, area);
+        if (area.empty) return;
+        const sourceX = area.x - compositionObject.horizontalPosition;
+        const sourceY = area.y - compositionObject.verticalPosition;
+        PgsRendererHelper.moveIntoRegion(area, this.visibleRegion);
+
+        this.context.drawImage(
+            bitmap,
+            sourceX,
+            sourceY,
+            area.width,
+            area.height,
+            area.x,
+            area.y,
+            area.width,
+            area.height
+        );
+
+        this.unionWindow(compositionData, area, dirtyArea);
     }
 
     /**
@@ -151,21 +267,153 @@ export class Renderer {
      */
     private drawSubtitleCompositionData(compositionData: SubtitleCompositionData, dirtyArea?: Rect): void {
         const compositionObject = compositionData.compositionObject;
-        if (compositionObject.hasCropping) {
-            this.context?.putImageData(compositionData.pixelData,
-                compositionObject.horizontalPosition, compositionObject.verticalPosition,
-                compositionObject.croppingHorizontalPosition, compositionObject.croppingVerticalPosition,
-                compositionObject.croppingWidth, compositionObject.croppingHeight);
-
-            dirtyArea?.union(compositionObject.horizontalPosition, compositionObject.verticalPosition,
-                compositionObject.croppingWidth, compositionObject.croppingHeight);
-        } else {
-            this.context?.putImageData(compositionData.pixelData,
-                compositionObject.horizontalPosition, compositionObject.verticalPosition);
+        const pixelData = compositionData.pixelData!;
+        const area = this.visibleArea;
+        PgsRendererHelper.getVisibleArea(compositionData, pixelData.width, pixelData.height, area);
+        if (area.empty) return;
+        const sourceX = area.x - compositionObject.horizontalPosition;
+        const sourceY = area.y - compositionObject.verticalPosition;
+        PgsRendererHelper.moveIntoRegion(area, this.visibleRegion);
+
+        // The image position is moved together with the visible area.
+        this.context?.putImageData(pixelData, area.x - sourceX, area.y - sourceY, sourceX, sourceY,
+            area.width, area.height);
+
+        this.unionWindow(compositionData, area, dirtyArea);
+    }
 
-            dirtyArea?.union(compositionObject.horizontalPosition, compositionObject.verticalPosition,
-                compositionData.pixelData.width, compositionData.pixelData.height);
+    /**
+     * Draws the subtitle composition scaled and moved by the given transformation.
+     * @param compositionData The subtitle composition data to draw.
+     * @param image The image of the composition pixel data.
+     * @param scale The pre-scale factor of the image.
+     * @param transform The transformation from subtitle to canvas coordinates.
+     * @param dirtyArea If given, it will extend the dirty rect to include the affected subtitle area.
+     */
+    private drawScaledSubtitleComposition(compositionData: SubtitleCompositionData,
+                                          image: ImageBitmap | OffscreenCanvas | HTMLCanvasElement, scale: number,
+                                          transform: SubtitleTransform, dirtyArea?: Rect): void {
+        const compositionObject = compositionData.compositionObject;
+        const pixelData = compositionData.pixelData!;
+        const area = this.visibleArea;
+        PgsRendererHelper.getVisibleArea(compositionData, pixelData.width, pixelData.height, area);
+        if (area.empty) return;
+        const sourceX = area.x - compositionObject.horizontalPosition;
+        const sourceY = area.y - compositionObject.verticalPosition;
+        PgsRendererHelper.moveIntoRegion(area, this.visibleRegion);
+
+        const x = area.x * transform.scaleX + transform.offsetX;
+        const y = area.y * transform.scaleY + transform.offsetY;
+        const width = area.width * transform.scaleX;
+        const height = area.height * transform.scaleY;
+        if (this.style) {
+            this.drawStyleEffects(this.style, image as CanvasImageSource, sourceX * scale, sourceY * scale,
+                area.width * scale, area.height * scale, x, y, width, height, transform);
+        }
+        this.context.drawImage(
+            image as CanvasImageSource,
+            sourceX * scale,
+            sourceY * scale,
+            area.width * scale,
+            area.height * scale,
+            x,
+            y,
+            width,
+            height
+        );
+
+        // The window is scaled to canvas pixels. The interpolation can affect one more pixel on every side. The style
+        // effects can reach further.
+        const bounds = this.windowBounds;
+        bounds.reset();
+        this.unionWindow(compositionData, area, bounds);
+        const margin = PgsRendererHelper.getStyleMargin(this.style);
+        const left = Math.floor((bounds.x - margin) * transform.scaleX + transform.offsetX) - 1;
+        const top = Math.floor((bounds.y - margin) * transform.scaleY + transform.offsetY) - 1;
+        const right = Math.ceil((bounds.x + bounds.width + margin) * transform.scaleX + transform.offsetX) + 1;
+        const bottom = Math.ceil((bounds.y + bounds.height + margin) * transform.scaleY + transform.offsetY) + 1;
+        dirtyArea?.union(left, top, right - left, bottom - top);
+    }
+
+    /**
+     * Draws the background box, the drop shadow and the outline of a composition. The composition itself is drawn
+     * afterwards on top.
+     * @param style The subtitle style.
+     * @param image The image of the composition pixel data.
+     * @param sourceX The x coordinate of the visible area in the image.
+     * @param sourceY The y coordinate of the visible area in the image.
+     * @param sourceWidth The width of the visible area in the image.
+     * @param sourceHeight The height of the visible area in the image.
+     * @param x The x coordinate of the composition on the canvas.
+     * @param y The y coordinate of the composition on the canvas.
+     * @param width The width of the composition on the canvas.
+     * @param height The height of the composition on the canvas.
+     * @param transform The transformation from subtitle to canvas coordinates. Style sizes are in subtitle pixels.
+     */
+    private drawStyleEffects(style: SubtitleStyle, image: CanvasImageSource, sourceX: number, sourceY: number,
+                             sourceWidth: number, sourceHeight: number, x: number, y: number, width: number,
+                             height: number, transform: SubtitleTransform): void {
+        const context = this.context;
+        if (style.background) {
+            const paddingX = Math.max(0, style.background.padding ?? 0) * transform.scaleX;
+            const paddingY = Math.max(0, style.background.padding ?? 0) * transform.scaleY;
+            context.fillStyle = style.background.color;
+            context.fillRect(x - paddingX, y - paddingY, width + 2 * paddingX, height + 2 * paddingY);
+        }
+
+        // Shadows and outlines are drawn as canvas shadows of the image. The image itself is drawn outside the canvas,
+        // so only its shadow is visible.
+        const distance = this.canvas.width + Math.ceil(Math.abs(x) + width);
+        const drawSilhouette = (offsetX: number, offsetY: number) => {
+            context.shadowOffsetX = distance + offsetX;
+            context.shadowOffsetY = offsetY;
+            context.drawImage(image, sourceX, sourceY, sourceWidth, sourceHeight, x - distance, y, width, height);
+        };
+
+        if (style.shadow) {
+            context.shadowColor = style.shadow.color;
+            context.shadowBlur = Math.max(0, style.shadow.blur ?? 0) * transform.scaleX;
+            drawSilhouette(style.shadow.offsetX * transform.scaleX, style.shadow.offsetY * transform.scaleY);
         }
+
+        const outlineWidth = Math.max(0, style.outline?.width ?? 0);
+        if (style.outline && outlineWidth > 0) {
+            context.shadowColor = style.outline.color;
+            context.shadowBlur = 0;
+            // Thin subtitle strokes leave gaps between the silhouettes of a single ring. Every subtitle pixel of the
+            // outline width gets its own ring.
+            const rings = Math.ceil(outlineWidth);
+            for (let ring = 1; ring <= rings; ring++) {
+                const radius = outlineWidth * ring / rings;
+                const steps = Math.min(Math.max(8, Math.ceil(2 * Math.PI * radius * transform.scaleX)), 64);
+                for (let step = 0; step < steps; step++) {
+                    const angle = 2 * Math.PI * step / steps;
+                    drawSilhouette(Math.cos(angle) * radius * transform.scaleX,
+                        Math.sin(angle) * radius * transform.scaleY);
+                }
+            }
+        }
+
+        context.shadowColor = 'rgba(0, 0, 0, 0)';
+        context.shadowBlur = 0;
+        context.shadowOffsetX = 0;
+        context.shadowOffsetY = 0;
+    }
+
+    // The dirty bounds of the composition that is currently drawn. This is reused to avoid allocations.
+    private readonly windowBounds = new Rect();
+
+    /**
+     * Extends the dirty area by the window of the composition. Nothing is drawn outside the window, unless the
+     * composition was moved into the visible region.
+     * @param compositionData The drawn subtitle composition data.
+     * @param area The drawn area of the composition.
+     * @param dirtyArea The dirty area to extend.
+     */
+    private unionWindow(compositionData: SubtitleCompositionData, area: Rect, dirtyArea?: Rect): void {
+        const window = compositionData.window;
+        dirtyArea?.union(window.horizontalPosition, window.verticalPosition, window.width, window.height);
+        dirtyArea?.union(area.x, area.y, area.width, area.height);
     }
 
     /**
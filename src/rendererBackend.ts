@@ -0,0 +1,13 @@
+export enum RendererBackend {
+    /**
+     * The subtitles are drawn with the 2D canvas context.
+     */
+    canvas2d = 'canvas2d',
+
+    /**
+     * The subtitles are drawn with WebGL2. The palette indices and the palette are uploaded as textures and the colors
+     * are looked up on the GPU. Palette-only updates just upload the new palette.
+     * Falls back to the 2D canvas context if WebGL2 is not supported.
+     */
+    webgl2 = 'webgl2',
+}
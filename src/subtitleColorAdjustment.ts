@@ -0,0 +1,22 @@
+/**
+ * Adjusts the colors of the subtitle palettes, e.g. to dim bright subtitles on HDR video.
+ * The adjustment is applied to the palette entries, not to every pixel. It must be serializable, since it is passed to
+ * the web-worker.
+ */
+export interface SubtitleColorAdjustment {
+    /**
+     * The factor to scale the color values with. Values below 1 dim the subtitles. Defaults to 1.
+     */
+    brightness?: number;
+
+    /**
+     * The gamma exponent applied to the normalized color values. Values above 1 darken the mid-tones, values below 1
+     * brighten them. Defaults to 1.
+     */
+    gamma?: number;
+
+    /**
+     * The factor to scale the alpha values with, from 0 (invisible) to 1 (unchanged). Defaults to 1.
+     */
+    opacity?: number;
+}
@@ -0,0 +1,60 @@
+/**
+ * The screen area of a composition object in subtitle pixels.
+ */
+export interface SubtitleCueBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * A visible subtitle from its display set until the next display set that clears or replaces it. Palette-only updates,
+ * like fades, are part of the same cue. Cues must be serializable, since they are passed from the web-worker.
+ */
+export interface SubtitleCue {
+    /**
+     * The index of this cue in the cue list.
+     */
+    index: number;
+
+    /**
+     * The index of the display set that shows this cue.
+     */
+    displaySetIndex: number;
+
+    /**
+     * The start time in seconds.
+     */
+    startTime: number;
+
+    /**
+     * The end time in seconds.
+     */
+    endTime: number;
+
+    /**
+     * The number of visible composition objects.
+     */
+    compositionCount: number;
+
+    /**
+     * Gets if any composition object of this cue is forced.
+     */
+    forced: boolean;
+
+    /**
+     * The width of the subtitle, which is the video size the bounding boxes are relative to.
+     */
+    width: number;
+
+    /**
+     * The height of the subtitle, which is the video size the bounding boxes are relative to.
+     */
+    height: number;
+
+    /**
+     * The visible area of every composition object.
+     */
+    boundingBoxes: SubtitleCueBox[];
+}
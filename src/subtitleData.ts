@@ -20,10 +20,18 @@ export class SubtitleData {
      */
     public readonly compositionData: SubtitleCompositionData[];
 
-    public constructor(width: number, height: number, compositionData: SubtitleCompositionData[]) {
+    /**
+     * The 256 RGBA colors to look up the palette indices. This is only provided if the subtitle was built with
+     * palette indices instead of pixel data.
+     */
+    public readonly palette?: Uint32Array;
+
+    public constructor(width: number, height: number, compositionData: SubtitleCompositionData[],
+                       palette?: Uint32Array) {
         this.width = width;
         this.height = height;
         this.compositionData = compositionData;
+        this.palette = palette;
     }
 }
 
@@ -42,13 +50,46 @@ export class SubtitleCompositionData {
     public readonly window: WindowDefinition;
 
     /**
-     * The compiled pixel data of the subtitle.
+     * The compiled pixel data of the subtitle. This is not provided if the subtitle was built with palette indices.
+     */
+    public readonly pixelData?: ImageData;
+
+    /**
+     * The palette indices of the subtitle. This is only provided if the subtitle was built with palette indices.
      */
-    public readonly pixelData: ImageData;
+    public readonly indexData?: SubtitleIndexData;
 
-    public constructor(compositionObject: CompositionObject, window: WindowDefinition, pixelData: ImageData) {
+    public constructor(compositionObject: CompositionObject, window: WindowDefinition, pixelData?: ImageData,
+                       indexData?: SubtitleIndexData) {
         this.compositionObject = compositionObject;
         this.window = window;
         this.pixelData = pixelData;
+        this.indexData = indexData;
+    }
+}
+
+/**
+ * This class contains the decoded palette indices of a subtitle object. The colors are looked up in the palette of
+ * the {@link SubtitleData}, so palette updates don't require decoding the object again.
+ */
+export class SubtitleIndexData {
+    /**
+     * Identifies the decoded object. Copies from the web-worker keep the id, so renderers can reuse uploaded data.
+     */
+    public readonly id: number;
+
+    public readonly width: number;
+    public readonly height: number;
+
+    /**
+     * The palette index of every pixel, line by line.
+     */
+    public readonly indices: Uint8Array;
+
+    public constructor(id: number, width: number, height: number, indices: Uint8Array) {
+        this.id = id;
+        this.width = width;
+        this.height = height;
+        this.indices = indices;
     }
 }
@@ -0,0 +1,15 @@
+/**
+ * A problem found while loading a damaged subtitle file in error recovery mode.
+ * Diagnostics must be serializable, since they are passed from the web-worker.
+ */
+export interface SubtitleDiagnostic {
+    /**
+     * The byte offset of the problem in the subtitle file.
+     */
+    offset: number;
+
+    /**
+     * The description of the problem.
+     */
+    reason: string;
+}
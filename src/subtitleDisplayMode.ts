@@ -0,0 +1,16 @@
+export enum SubtitleDisplayMode {
+    /**
+     * All subtitles are rendered.
+     */
+    all = 'all',
+
+    /**
+     * Only forced subtitles are rendered. These are usually translations of foreign dialogue and signs.
+     */
+    forced = 'forced',
+
+    /**
+     * No subtitles are rendered.
+     */
+    none = 'none',
+}
@@ -0,0 +1,22 @@
+export enum SubtitleFormat {
+    /**
+     * A raw PGS file (`.sup`).
+     */
+    sup = 'sup',
+
+    /**
+     * A Matroska or WebM file (`.mkv`, `.mks`, `.webm`) containing a PGS or DVB subtitle track.
+     */
+    matroska = 'matroska',
+
+    /**
+     * A MPEG-2 transport stream (`.ts`) or Blu-ray transport stream (`.m2ts`) containing a PGS or DVB
+     * subtitle stream.
+     */
+    transportStream = 'transportStream',
+
+    /**
+     * A VobSub DVD subtitle (`.sub`) with its index file (`.idx`).
+     */
+    vobSub = 'vobSub',
+}
@@ -0,0 +1,23 @@
+/**
+ * Moves and scales the subtitles on screen without modifying the parsed subtitle data.
+ * It must be serializable, since it is passed to the web-worker.
+ */
+export interface SubtitleLayout {
+    /**
+     * Moves the subtitles up by the given fraction of the subtitle height, e.g. above the player controls. Negative
+     * values move the subtitles down.
+     */
+    verticalOffset: number;
+
+    /**
+     * The scale factor of the subtitles. All visible subtitles are scaled as one group, anchored at the bottom-centre
+     * of the group.
+     */
+    scale: number;
+
+    /**
+     * The inset from every edge as fraction of the subtitle size (0 to 0.5). The subtitles are moved into this area,
+     * if they would be placed outside.
+     */
+    safeAreaInset: number;
+}
@@ -0,0 +1,42 @@
+import {SubtitleLoadErrorReason} from "./subtitleLoadErrorReason";
+
+/**
+ * The error of a failed or cancelled subtitle load.
+ */
+export class SubtitleLoadError extends Error {
+    /**
+     * The reason why the load failed.
+     */
+    public readonly reason: SubtitleLoadErrorReason;
+
+    public constructor(reason: SubtitleLoadErrorReason, message: string) {
+        super(message);
+        // Extending built-in classes loses the prototype with the ES5 target. This restores `instanceof`.
+        Object.setPrototypeOf(this, SubtitleLoadError.prototype);
+        this.name = 'SubtitleLoadError';
+        this.reason = reason;
+    }
+
+    /**
+     * Creates the error of a cancelled load.
+     */
+    public static aborted(): SubtitleLoadError {
+        return new SubtitleLoadError(SubtitleLoadErrorReason.aborted, 'The subtitle load was aborted!');
+    }
+
+    /**
+     * Converts any error thrown while loading into a load error.
+     * @param error The thrown error.
+     * @param aborted True if the load was aborted. Aborted loads can fail with any error.
+     */
+    public static from(error: unknown, aborted: boolean): SubtitleLoadError {
+        if (aborted) {
+            return SubtitleLoadError.aborted();
+        }
+        if (error instanceof SubtitleLoadError) {
+            return error;
+        }
+        return new SubtitleLoadError(SubtitleLoadErrorReason.invalidData,
+            error instanceof Error ? error.message : String(error));
+    }
+}
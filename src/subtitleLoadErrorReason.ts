@@ -0,0 +1,16 @@
+export enum SubtitleLoadErrorReason {
+    /**
+     * The load was cancelled by an abort signal, a new load or by disposing the renderer.
+     */
+    aborted = 'aborted',
+
+    /**
+     * The subtitle file could not be downloaded.
+     */
+    network = 'network',
+
+    /**
+     * The subtitle file is invalid or not supported.
+     */
+    invalidData = 'invalidData',
+}
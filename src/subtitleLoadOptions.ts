@@ -0,0 +1,48 @@
+import {SubtitleFormat} from "./subtitleFormat";
+
+/**
+ * The options to select the subtitle format and track of a subtitle file.
+ * These options must be serializable, since they are passed to the web-worker.
+ */
+export interface SubtitleLoadOptions {
+    /**
+     * The container format of the subtitle file. Defaults to a raw PGS file.
+     */
+    format?: SubtitleFormat;
+
+    /**
+     * The Matroska track number or the VobSub track index to load.
+     * If not provided, the first PGS or DVB subtitle track or the default VobSub track is used.
+     */
+    trackNumber?: number;
+
+    /**
+     * The transport stream packet identifier (PID) of the PGS or DVB subtitle stream to load.
+     * If not provided, the first subtitle stream is used.
+     */
+    pid?: number;
+
+    /**
+     * The content of the VobSub index file (`.idx`).
+     */
+    vobSubIndex?: string;
+
+    /**
+     * The url to the VobSub index file (`.idx`) if `vobSubIndex` is not provided. If both are missing, the index file
+     * is loaded from the subtitle url with the `.idx` extension.
+     */
+    vobSubIndexUrl?: string;
+
+    /**
+     * If true, damaged PGS files (`.sup`) are loaded as far as possible: invalid data is skipped up to the next valid
+     * segment header, unknown segments and truncated data at the end are ignored. Defaults to false, which aborts
+     * loading on the first error.
+     */
+    errorRecovery?: boolean;
+
+    /**
+     * The options for the subtitle requests, e.g. headers, credentials or the cache mode. The headers are passed to the
+     * web-worker as a plain object. The abort signal is set by the loader.
+     */
+    requestInit?: RequestInit;
+}
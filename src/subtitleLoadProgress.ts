@@ -0,0 +1,19 @@
+/**
+ * The loading state of a subtitle file. The progress must be serializable, since it is passed from the web-worker.
+ */
+export interface SubtitleLoadProgress {
+    /**
+     * The number of bytes read from the subtitle file.
+     */
+    loadedBytes: number;
+
+    /**
+     * The size of the subtitle file in bytes, if known.
+     */
+    totalBytes?: number;
+
+    /**
+     * The number of loaded display sets.
+     */
+    displaySets: number;
+}
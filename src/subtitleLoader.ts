@@ -0,0 +1,11 @@
+/**
+ * Loads a subtitle url instead of `fetch`, e.g. to sign the url or to use a custom http client. The init contains the
+ * `requestInit` of the load options and the abort signal of the load.
+ */
+export type SubtitleLoader = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Is called if a subtitle request was rejected with `401 Unauthorized`, e.g. to refresh an access token. Returns the
+ * request options to retry the request once, or undefined to fail the load.
+ */
+export type SubtitleUnauthorizedHandler = (url: string, init: RequestInit) => Promise<RequestInit | undefined>;
@@ -0,0 +1,67 @@
+import {SubtitleData} from "./subtitleData";
+import {SubtitleDisplayMode} from "./subtitleDisplayMode";
+import {RenderResolution} from "./renderResolution";
+import {UpscalingFilter} from "./upscalingFilter";
+import {SubtitleViewport} from "./subtitleViewport";
+import {SubtitleLayout} from "./subtitleLayout";
+import {SubtitleStyle} from "./subtitleStyle";
+
+/**
+ * Draws the pre-compiled subtitle data to a canvas. This is implemented by the different render backends.
+ */
+export interface SubtitleRenderer {
+    /**
+     * Defines which subtitles are rendered. This is applied on the next draw.
+     */
+    displayMode: SubtitleDisplayMode;
+
+    /**
+     * Defines the size of the canvas. This is applied on the next draw.
+     */
+    renderResolution: RenderResolution;
+
+    /**
+     * The filter to scale the subtitle with at display resolution. This is applied on the next draw.
+     */
+    upscalingFilter: UpscalingFilter;
+
+    /**
+     * The device-pixel size of the canvas element. This is required to render at display resolution. Until the size
+     * is known, the subtitle resolution is used.
+     */
+    viewport?: SubtitleViewport;
+
+    /**
+     * If true, subtitles that are cropped by the `cover` aspect ratio mode are moved into the visible region.
+     * This requires the viewport.
+     */
+    keepInView: boolean;
+
+    /**
+     * The user defined position and scale of the subtitles. This is applied on the next draw.
+     */
+    layout?: SubtitleLayout;
+
+    /**
+     * The style overrides of the subtitles. The renderer draws the opacity, outline, shadow and background box. The
+     * palette preset and tint are applied while building the subtitle data. This is applied on the next draw.
+     */
+    style?: SubtitleStyle;
+
+    /**
+     * If true, the renderer draws the palette indices and the palette of the subtitle data instead of the RGBA pixel
+     * data. The subtitle data must be built with indexed output.
+     */
+    readonly indexed: boolean;
+
+    /**
+     * Renders the given subtitle data to the canvas.
+     * @param subtitleData The pre-compiled subtitle data to render.
+     */
+    draw(subtitleData?: SubtitleData): Promise<void>;
+
+    /**
+     * Disposes the renderer and clears resources.
+     */
+    dispose(): void;
+}
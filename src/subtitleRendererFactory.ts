@@ -0,0 +1,37 @@
+import {SubtitleRenderer} from "./subtitleRenderer";
+import {RendererBackend} from "./rendererBackend";
+import {Renderer} from "./renderer";
+import {WebGlRenderer} from "./webGlRenderer";
+
+export class SubtitleRendererFactory {
+    /**
+     * Creates the subtitle renderer for the given backend. If WebGL2 isn't supported, the 2D canvas renderer is used.
+     * @param canvas The canvas to draw to.
+     * @param backend The render backend. Defaults to the 2D canvas context.
+     */
+    public static create(canvas: OffscreenCanvas | HTMLCanvasElement,
+                         backend: RendererBackend = RendererBackend.canvas2d): SubtitleRenderer {
+        if (backend === RendererBackend.webgl2) {
+            // A canvas is locked to the context type it was first asked for. The WebGL renderer is probed on a
+            // separate canvas, so the 2D context of the given canvas is still available if it fails.
+            try {
+                new WebGlRenderer(SubtitleRendererFactory.createProbeCanvas()).dispose();
+            } catch (error) {
+                console.warn(`WebGL2 isn't supported, using the 2D canvas renderer instead: ${error}`);
+                return new Renderer(canvas);
+            }
+            return new WebGlRenderer(canvas);
+        }
+        return new Renderer(canvas);
+    }
+
+    /**
+     * Creates a small canvas to probe the WebGL support. The web-worker only has offscreen canvases.
+     */
+    private static createProbeCanvas(): OffscreenCanvas | HTMLCanvasElement {
+        if (typeof OffscreenCanvas !== 'undefined') {
+            return new OffscreenCanvas(1, 1);
+        }
+        return document.createElement('canvas');
+    }
+}
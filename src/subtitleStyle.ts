@@ -0,0 +1,76 @@
+import {PalettePreset} from "./palettePreset";
+
+/**
+ * Overrides the appearance of the subtitles for readability and accessibility. The palette preset and tint are applied
+ * to the palette entries. The other effects are drawn around every composition. Colors are given as hex strings
+ * (`#rgb`, `#rgba`, `#rrggbb` or `#rrggbbaa`) and sizes in subtitle pixels, so they are scaled with the subtitle.
+ * It must be serializable, since it is passed to the web-worker.
+ */
+export interface SubtitleStyle {
+    /**
+     * Remaps the palette colors, e.g. to yellow or high-contrast colors. Defaults to the original colors.
+     */
+    palette?: PalettePreset;
+
+    /**
+     * The color to multiply the palette colors with.
+     */
+    tint?: string;
+
+    /**
+     * The opacity of the whole composition including all effects, from 0 (invisible) to 1. Defaults to 1.
+     */
+    opacity?: number;
+
+    /**
+     * Draws an outline around the visible pixels.
+     */
+    outline?: SubtitleOutlineStyle;
+
+    /**
+     * Draws a drop shadow below the visible pixels.
+     */
+    shadow?: SubtitleShadowStyle;
+
+    /**
+     * Draws a box behind every composition.
+     */
+    background?: SubtitleBackgroundStyle;
+}
+
+export interface SubtitleOutlineStyle {
+    color: string;
+
+    /**
+     * The outline width in subtitle pixels.
+     */
+    width: number;
+}
+
+export interface SubtitleShadowStyle {
+    color: string;
+
+    /**
+     * The horizontal shadow offset in subtitle pixels.
+     */
+    offsetX: number;
+
+    /**
+     * The vertical shadow offset in subtitle pixels.
+     */
+    offsetY: number;
+
+    /**
+     * The blur radius in subtitle pixels. Defaults to 0.
+     */
+    blur?: number;
+}
+
+export interface SubtitleBackgroundStyle {
+    color: string;
+
+    /**
+     * The space between the composition and the box edge in subtitle pixels. Defaults to 0.
+     */
+    padding?: number;
+}
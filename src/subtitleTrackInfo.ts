@@ -0,0 +1,25 @@
+/**
+ * The metadata of a loaded subtitle track. The info must be serializable, since it is passed from the web-worker.
+ */
+export interface SubtitleTrackInfo {
+    /**
+     * The width of the subtitle, which is usually the video width.
+     */
+    width: number;
+
+    /**
+     * The height of the subtitle, which is usually the video height.
+     */
+    height: number;
+
+    /**
+     * The number of loaded display sets.
+     */
+    displaySetCount: number;
+
+    /**
+     * The time from the first to the last display set in seconds. The last display set usually clears the last
+     * subtitle.
+     */
+    duration: number;
+}
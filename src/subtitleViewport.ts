@@ -0,0 +1,31 @@
+/**
+ * The device-pixel size of the canvas element. This is used to render the subtitles at display resolution and to
+ * keep them in view.
+ * It must be serializable, since it is passed to the web-worker.
+ */
+export interface SubtitleViewport {
+    /**
+     * The width of the canvas element in device pixels.
+     */
+    width: number;
+
+    /**
+     * The height of the canvas element in device pixels.
+     */
+    height: number;
+
+    /**
+     * The aspect ratio mode to fit the subtitle into the viewport. This matches the `object-fit` property of the video.
+     */
+    aspectRatio: 'contain' | 'cover' | 'fill';
+}
+
+/**
+ * Maps the subtitle coordinates to the canvas coordinates: `canvas = subtitle * scale + offset`.
+ */
+export interface SubtitleTransform {
+    scaleX: number;
+    scaleY: number;
+    offsetX: number;
+    offsetY: number;
+}
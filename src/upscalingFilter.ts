@@ -0,0 +1,17 @@
+export enum UpscalingFilter {
+    /**
+     * Every subtitle pixel is repeated. This keeps hard edges, but looks blocky on larger scales.
+     */
+    nearest = 'nearest',
+
+    /**
+     * The colors are interpolated between the subtitle pixels.
+     */
+    bilinear = 'bilinear',
+
+    /**
+     * An edge-aware pixel-art scaler (Scale2x) smooths diagonal edges without blurring. Scales beyond the power of
+     * two are interpolated.
+     */
+    edgeAware = 'edgeAware',
+}
@@ -0,0 +1,54 @@
+import {BinaryWriter} from "./binaryWriter";
+
+/**
+ * A binary writer based on a growing {@link Uint8Array}.
+ */
+export class ArrayBinaryWriter implements BinaryWriter {
+    private array: Uint8Array;
+
+    private $position: number = 0;
+
+    public constructor(initialCapacity: number = 1024) {
+        this.array = new Uint8Array(Math.max(initialCapacity, 16));
+    }
+
+    public get position(): number {
+        return this.$position;
+    }
+
+    public writeByte(value: number): void {
+        this.ensureCapacity(1);
+        this.array[this.$position++] = value;
+    }
+
+    public writeBytes(data: Uint8Array): void {
+        this.ensureCapacity(data.length);
+        this.array.set(data, this.$position);
+        this.$position += data.length;
+    }
+
+    /**
+     * Returns a copy of the written data.
+     */
+    public toUint8Array(): Uint8Array {
+        return this.array.slice(0, this.$position);
+    }
+
+    /**
+     * Grows the internal buffer to fit the given number of additional bytes.
+     * @param count The number of bytes to write next.
+     */
+    private ensureCapacity(count: number): void {
+        const required = this.$position + count;
+        if (required <= this.array.length) return;
+
+        // Doubling the capacity keeps the number of copies low for sequential writing.
+        let capacity = this.array.length * 2;
+        while (capacity < required) {
+            capacity *= 2;
+        }
+        const array = new Uint8Array(capacity);
+        array.set(this.array.subarray(0, this.$position));
+        this.array = array;
+    }
+}
@@ -50,7 +50,8 @@ export class BigEndianBinaryReader {
         const b2 = this.baseReader.readByte();
         const b3 = this.baseReader.readByte();
         const b4 = this.baseReader.readByte();
-        return (b1 << 24) + (b2 << 16) + (b3 << 8) + b4;
+        // Multiplication instead of bit-shifting. Shifting the highest byte would turn the value negative.
+        return b1 * 0x1000000 + (b2 << 16) + (b3 << 8) + b4;
     }
 
     public readBytes(count: number): Uint8Array {
@@ -0,0 +1,43 @@
+import {BinaryWriter} from "./binaryWriter";
+import {ArrayBinaryWriter} from "./arrayBinaryWriter";
+
+export class BigEndianBinaryWriter {
+    /**
+     * The base binary writer.
+     */
+    public readonly baseWriter: BinaryWriter;
+
+    public constructor(writer?: BinaryWriter) {
+        this.baseWriter = writer ?? new ArrayBinaryWriter();
+    }
+
+    public get position(): number {
+        return this.baseWriter.position;
+    }
+
+    public writeUInt8(value: number): void {
+        this.baseWriter.writeByte(value & 0xFF);
+    }
+
+    public writeUInt16(value: number): void {
+        this.baseWriter.writeByte((value >>> 8) & 0xFF);
+        this.baseWriter.writeByte(value & 0xFF);
+    }
+
+    public writeUInt24(value: number): void {
+        this.baseWriter.writeByte((value >>> 16) & 0xFF);
+        this.baseWriter.writeByte((value >>> 8) & 0xFF);
+        this.baseWriter.writeByte(value & 0xFF);
+    }
+
+    public writeUInt32(value: number): void {
+        this.baseWriter.writeByte((value >>> 24) & 0xFF);
+        this.baseWriter.writeByte((value >>> 16) & 0xFF);
+        this.baseWriter.writeByte((value >>> 8) & 0xFF);
+        this.baseWriter.writeByte(value & 0xFF);
+    }
+
+    public writeBytes(data: Uint8Array): void {
+        this.baseWriter.writeBytes(data);
+    }
+}
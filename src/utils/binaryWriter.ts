@@ -0,0 +1,18 @@
+export interface BinaryWriter {
+    /**
+     * Gets the current position in the binary buffer.
+     */
+    get position(): number;
+
+    /**
+     * Writes a single byte to this buffer.
+     * @param value The byte to write.
+     */
+    writeByte(value: number): void;
+
+    /**
+     * Writes the given bytes to the buffer.
+     * @param data The bytes to write.
+     */
+    writeBytes(data: Uint8Array): void;
+}
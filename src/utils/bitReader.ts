@@ -0,0 +1,55 @@
+/**
+ * Reads single bits from a {@link Uint8Array}, starting with the most significant bit.
+ */
+export class BitReader {
+    private readonly data: Uint8Array;
+    private readonly end: number;
+    private bitPosition: number;
+
+    /**
+     * Creates the bit reader.
+     * @param data The data to read.
+     * @param start The start byte offset.
+     * @param end The end byte offset (exclusive).
+     */
+    public constructor(data: Uint8Array, start: number = 0, end: number = data.length) {
+        this.data = data;
+        this.bitPosition = start * 8;
+        this.end = Math.min(end, data.length) * 8;
+    }
+
+    /**
+     * Gets the current byte position. Partially read bytes are counted.
+     */
+    public get position(): number {
+        return Math.ceil(this.bitPosition / 8);
+    }
+
+    public get eof(): boolean {
+        return this.bitPosition >= this.end;
+    }
+
+    /**
+     * Reads the given number of bits. Bits beyond the end are read as zero.
+     * @param count The number of bits to read (up to 24).
+     */
+    public readBits(count: number): number {
+        let value = 0;
+        for (let i = 0; i < count; i++) {
+            let bit = 0;
+            if (this.bitPosition < this.end) {
+                bit = (this.data[this.bitPosition >> 3] >> (7 - (this.bitPosition & 7))) & 1;
+            }
+            value = (value << 1) | bit;
+            this.bitPosition++;
+        }
+        return value;
+    }
+
+    /**
+     * Skips the remaining bits of the current byte.
+     */
+    public alignToByte(): void {
+        this.bitPosition = (this.bitPosition + 7) & ~7;
+    }
+}
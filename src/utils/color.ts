@@ -0,0 +1,26 @@
+/**
+ * Parses the hex color strings of the subtitle style.
+ */
+export abstract class Color {
+    /**
+     * Parses a hex color (`#rgb`, `#rgba`, `#rrggbb` or `#rrggbbaa`) and returns the red, green, blue and alpha values
+     * from 0 to 255.
+     * @param color The hex color string.
+     */
+    public static parse(color: string): number[] {
+        const match = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(color.trim());
+        if (!match) {
+            throw new Error(`Invalid color: ${color}!`);
+        }
+
+        let hex = match[1];
+        // Expands the short form: #rgba -> #rrggbbaa
+        if (hex.length <= 4) {
+            hex = hex.split('').map(c => c + c).join('');
+        }
+        if (hex.length === 6) {
+            hex += 'ff';
+        }
+        return [0, 2, 4, 6].map(i => parseInt(hex.substring(i, i + 2), 16));
+    }
+}
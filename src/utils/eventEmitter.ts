@@ -0,0 +1,57 @@
+/**
+ * A minimal typed event emitter. The event map maps each event type to the type of its event data. Listeners are
+ * called synchronously in the order they were added.
+ */
+export class EventEmitter<TEventMap> {
+    private readonly listeners: { [K in keyof TEventMap]?: ((event: TEventMap[K]) => void)[] } = {};
+
+    /**
+     * Registers a listener for the given event type.
+     * @param type The event type.
+     * @param listener The listener to add.
+     */
+    public addEventListener<K extends keyof TEventMap>(type: K, listener: (event: TEventMap[K]) => void): void {
+        const listeners = this.listeners[type] ?? (this.listeners[type] = []);
+        listeners.push(listener);
+    }
+
+    /**
+     * Removes a listener added by `addEventListener`.
+     * @param type The event type.
+     * @param listener The listener to remove.
+     */
+    public removeEventListener<K extends keyof TEventMap>(type: K, listener: (event: TEventMap[K]) => void): void {
+        const listeners = this.listeners[type];
+        const index = listeners?.indexOf(listener) ?? -1;
+        if (index >= 0) {
+            listeners!.splice(index, 1);
+        }
+    }
+
+    /**
+     * Gets if any listener is registered for the given event type.
+     * @param type The event type.
+     */
+    public hasEventListener<K extends keyof TEventMap>(type: K): boolean {
+        return (this.listeners[type]?.length ?? 0) > 0;
+    }
+
+    /**
+     * Calls all listeners of the given event type.
+     * @param type The event type.
+     * @param event The event data.
+     */
+    public emit<K extends keyof TEventMap>(type: K, event: TEventMap[K]): void {
+        // Listeners can be removed while emitting.
+        this.listeners[type]?.slice().forEach(listener => listener(event));
+    }
+
+    /**
+     * Removes all listeners.
+     */
+    public clear(): void {
+        for (const type in this.listeners) {
+            delete this.listeners[type];
+        }
+    }
+}
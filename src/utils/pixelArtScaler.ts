@@ -0,0 +1,70 @@
+/**
+ * An edge-aware upscaler for bitmap subtitles. This uses the Scale2x algorithm (also known as EPX or AdvMAME2x), which
+ * smooths diagonal edges by comparing the neighbouring pixels without mixing any colors.
+ */
+export abstract class PixelArtScaler {
+    /**
+     * The maximum pre-scale factor. Larger scales use too much memory and are interpolated instead.
+     */
+    public static readonly maxScaleFactor = 4;
+
+    /**
+     * Returns the power of two scale factor to reach at least the given scale, up to `maxScaleFactor`.
+     * @param scale The target scale.
+     */
+    static getScaleFactor(scale: number): number {
+        let factor = 1;
+        while (factor < scale && factor < PixelArtScaler.maxScaleFactor) {
+            factor *= 2;
+        }
+        return factor;
+    }
+
+    /**
+     * Scales the image by the given power of two factor by applying Scale2x multiple times.
+     * @param imageData The image to scale.
+     * @param factor The power of two scale factor.
+     */
+    static scaleImageData(imageData: ImageData, factor: number): ImageData {
+        let width = imageData.width;
+        let height = imageData.height;
+        let pixels: Uint32Array = new Uint32Array(imageData.data.buffer, imageData.data.byteOffset, width * height);
+        for (let scale = 1; scale < factor; scale *= 2) {
+            pixels = PixelArtScaler.scale2x(pixels, width, height);
+            width *= 2;
+            height *= 2;
+        }
+        return new ImageData(new Uint8ClampedArray(pixels.buffer as ArrayBuffer), width, height);
+    }
+
+    /**
+     * Doubles the size of the given image with Scale2x. Every pixel is split into four pixels. A quadrant takes the
+     * color of two equal neighbours, if they form an edge.
+     * @param source The 32-bit color of every pixel, line by line.
+     * @param width The width of the image.
+     * @param height The height of the image.
+     * @return Returns the pixels of the image with the doubled width and height.
+     */
+    static scale2x(source: Uint32Array, width: number, height: number): Uint32Array {
+        const targetWidth = width * 2;
+        const target = new Uint32Array(targetWidth * height * 2);
+        for (let y = 0; y < height; y++) {
+            const line = y * width;
+            for (let x = 0; x < width; x++) {
+                const pixel = source[line + x];
+                // The borders repeat the center pixel.
+                const up = y > 0 ? source[line - width + x] : pixel;
+                const down = y < height - 1 ? source[line + width + x] : pixel;
+                const left = x > 0 ? source[line + x - 1] : pixel;
+                const right = x < width - 1 ? source[line + x + 1] : pixel;
+
+                const i = y * 2 * targetWidth + x * 2;
+                target[i] = left === up && up !== right && left !== down ? up : pixel;
+                target[i + 1] = up === right && up !== left && right !== down ? right : pixel;
+                target[i + targetWidth] = left === down && left !== up && down !== right ? left : pixel;
+                target[i + targetWidth + 1] = down === right && down !== left && right !== up ? right : pixel;
+            }
+        }
+        return target;
+    }
+}
@@ -88,4 +88,30 @@ export class Rect {
             this.height = newBottom - newY;
         }
     }
+
+    /**
+     * Shrinks this rectangular area to the overlap with the given area. The rect is empty if both areas don't overlap.
+     * @param x The x coordinate of the area to intersect with.
+     * @param y The y coordinate of the area to intersect with.
+     * @param width The width of the area to intersect with. Negative values are not supported.
+     * @param height The height of the area to intersect with. Negative values are not supported.
+     */
+    public intersect(x: number, y: number, width: number, height: number): void {
+        if (this.empty) return;
+
+        const newX = Math.max(this.x, x);
+        const newY = Math.max(this.y, y);
+        const newRight = Math.min(this.x + this.width, x + width);
+        const newBottom = Math.min(this.y + this.height, y + height);
+
+        if (newRight <= newX || newBottom <= newY) {
+            this.reset();
+            return;
+        }
+
+        this.x = newX;
+        this.y = newY;
+        this.width = newRight - newX;
+        this.height = newBottom - newY;
+    }
 }
@@ -1,5 +1,6 @@
 import {BinaryReader} from "./binaryReader";
 import {ArrayBinaryReader} from "./arrayBinaryReader";
+import {ArrayBinaryWriter} from "./arrayBinaryWriter";
 
 /**
  * Handles run length encoded images.
@@ -126,4 +127,58 @@ export abstract class RunLengthEncoding {
 
         return idx;
     }
+
+    /**
+     * Encodes the given palette index image. Every line is terminated with an end-of-line marker.
+     * @param source The palette index for every pixel, line by line.
+     * @param width The width of the image.
+     * @param height The height of the image.
+     * @return Returns the run length encoded image data.
+     */
+    static encode(source: number[] | Uint8Array, width: number, height: number): Uint8Array {
+        const writer = new ArrayBinaryWriter((width * height >> 2) + height * 2);
+
+        for (let y = 0; y < height; y++) {
+            const lineStart = y * width;
+            const lineEnd = lineStart + width;
+            let x = lineStart;
+            while (x < lineEnd) {
+                const value = source[x];
+
+                // Count the repeated values. A single run can store up to 14 bits.
+                let num = 1;
+                while (x + num < lineEnd && source[x + num] === value && num < 0x3FFF) {
+                    num++;
+                }
+                x += num;
+
+                // Short runs of non-null values are cheaper as raw bytes.
+                if (value !== 0 && num <= 2) {
+                    writer.writeByte(value);
+                    if (num === 2) {
+                        writer.writeByte(value);
+                    }
+                    continue;
+                }
+
+                writer.writeByte(0x00);
+                const bit8 = value !== 0 ? 0x80 : 0x00;
+                if (num < 0x40) {
+                    writer.writeByte(bit8 | num);
+                } else {
+                    writer.writeByte(bit8 | 0x40 | (num >> 8));
+                    writer.writeByte(num & 0xFF);
+                }
+                if (value !== 0) {
+                    writer.writeByte(value);
+                }
+            }
+
+            // End of line
+            writer.writeByte(0x00);
+            writer.writeByte(0x00);
+        }
+
+        return writer.toUint8Array();
+    }
 }
@@ -0,0 +1,49 @@
+/**
+ * Converts the raw 90 kHz timestamps of a subtitle stream into a monotonically increasing timeline.
+ * MPEG streams use a 33-bit clock that wraps around after about 26.5 hours. PGS files only store the lower 32 bits,
+ * which wrap around after about 13.25 hours. Transport stream captures and concatenated files can also contain
+ * discontinuities where the clock jumps back.
+ */
+export class TimestampNormalizer {
+    /**
+     * The maximum gap between two timestamps to detect a clock wraparound (one hour).
+     */
+    private static readonly maxWraparoundGap = 90000 * 60 * 60;
+
+    private lastRawTimestamp?: number;
+    private lastTimestamp: number = 0;
+    private offset: number = 0;
+
+    /**
+     * Returns the normalized timestamp for the next raw timestamp of the stream. The timestamps must be passed in
+     * stream order.
+     * @param timestamp The raw timestamp in the 90 kHz clock.
+     */
+    public normalize(timestamp: number): number {
+        if (this.lastRawTimestamp !== undefined && timestamp < this.lastRawTimestamp) {
+            // Values above 32 bits can only come from a 33-bit clock.
+            const range = this.lastRawTimestamp >= 0x100000000 ? 0x200000000 : 0x100000000;
+            if (range - this.lastRawTimestamp + timestamp <= TimestampNormalizer.maxWraparoundGap) {
+                this.offset += range;
+            }
+        }
+
+        // Any other jump back is a discontinuity. The stream continues at the last timestamp.
+        if (timestamp + this.offset < this.lastTimestamp) {
+            this.offset = this.lastTimestamp - timestamp;
+        }
+
+        this.lastRawTimestamp = timestamp;
+        this.lastTimestamp = timestamp + this.offset;
+        return this.lastTimestamp;
+    }
+
+    /**
+     * Resets the normalizer for a new stream.
+     */
+    public reset(): void {
+        this.lastRawTimestamp = undefined;
+        this.lastTimestamp = 0;
+        this.offset = 0;
+    }
+}
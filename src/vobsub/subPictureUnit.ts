@@ -0,0 +1,192 @@
+/**
+ * A decoded DVD sub-picture unit (SPU). This is the bitmap subtitle format used by VobSub files.
+ */
+export class SubPictureUnit {
+    /**
+     * The delay of the start command in milliseconds relative to the packet timestamp.
+     */
+    public startDelay: number = 0;
+
+    /**
+     * The delay of the stop command in milliseconds relative to the packet timestamp, if provided.
+     */
+    public stopDelay?: number;
+
+    /**
+     * If true, the subtitle is marked as forced.
+     */
+    public forced: boolean = false;
+
+    public x: number = 0;
+    public y: number = 0;
+    public width: number = 0;
+    public height: number = 0;
+
+    /**
+     * The index of the 16 color palette for each of the four pixel values.
+     */
+    public colors: number[] = [0, 0, 0, 0];
+
+    /**
+     * The 4-bit alpha value for each of the four pixel values.
+     */
+    public alpha: number[] = [0, 0, 0, 0];
+
+    /**
+     * The pixel value (0-3) for every pixel, line by line.
+     */
+    public pixels: Uint8Array = new Uint8Array(0);
+
+    /**
+     * Decodes the given sub-picture unit.
+     * @param data The complete sub-picture unit data.
+     */
+    public static decode(data: Uint8Array): SubPictureUnit {
+        const spu = new SubPictureUnit();
+        if (data.length < 4) {
+            throw new Error('Invalid sub-picture unit!');
+        }
+
+        // The display control sequence table follows the pixel data.
+        let sequenceOffset = (data[2] << 8) | data[3];
+        let topFieldOffset = 0;
+        let bottomFieldOffset = 0;
+
+        while (sequenceOffset + 4 <= data.length) {
+            // The delay is stored in 1024 / 90000 second units.
+            const delay = Math.round(((data[sequenceOffset] << 8) | data[sequenceOffset + 1]) * 1024 / 90);
+            const nextOffset = (data[sequenceOffset + 2] << 8) | data[sequenceOffset + 3];
+
+            let position = sequenceOffset + 4;
+            let end = false;
+            while (!end && position < data.length) {
+                const command = data[position++];
+                switch (command) {
+                    // Forced start display
+                    case 0x00:
+                        spu.forced = true;
+                        spu.startDelay = delay;
+                        break;
+                    // Start display
+                    case 0x01:
+                        spu.startDelay = delay;
+                        break;
+                    // Stop display
+                    case 0x02:
+                        spu.stopDelay = delay;
+                        break;
+                    // Palette: the nibbles are stored from pixel value 3 to 0.
+                    case 0x03:
+                        spu.colors = SubPictureUnit.readNibbles(data, position);
+                        position += 2;
+                        break;
+                    // Alpha channel
+                    case 0x04:
+                        spu.alpha = SubPictureUnit.readNibbles(data, position);
+                        position += 2;
+                        break;
+                    // Display area: two 12-bit x coordinates, followed by two 12-bit y coordinates.
+                    case 0x05: {
+                        const x1 = (data[position] << 4) | (data[position + 1] >> 4);
+                        const x2 = ((data[position + 1] & 0x0F) << 8) | data[position + 2];
+                        const y1 = (data[position + 3] << 4) | (data[position + 4] >> 4);
+                        const y2 = ((data[position + 4] & 0x0F) << 8) | data[position + 5];
+                        spu.x = x1;
+                        spu.y = y1;
+                        spu.width = x2 - x1 + 1;
+                        spu.height = y2 - y1 + 1;
+                        position += 6;
+                        break;
+                    }
+                    // Pixel data offsets of the two interlaced fields.
+                    case 0x06:
+                        topFieldOffset = (data[position] << 8) | data[position + 1];
+                        bottomFieldOffset = (data[position + 2] << 8) | data[position + 3];
+                        position += 4;
+                        break;
+                    // Color and contrast changes are not supported. The size defines the parameter length.
+                    case 0x07:
+                        position += (data[position] << 8) | data[position + 1];
+                        break;
+                    case 0xFF:
+                    default:
+                        end = true;
+                        break;
+                }
+            }
+
+            // The last sequence points to itself. Damaged sequences pointing backwards could form an endless cycle.
+            if (nextOffset <= sequenceOffset) break;
+            sequenceOffset = nextOffset;
+        }
+
+        if (spu.width > 0 && spu.height > 0) {
+            spu.pixels = new Uint8Array(spu.width * spu.height);
+            SubPictureUnit.decodeField(data, topFieldOffset, spu, 0);
+            SubPictureUnit.decodeField(data, bottomFieldOffset, spu, 1);
+        }
+
+        return spu;
+    }
+
+    private static readNibbles(data: Uint8Array, position: number): number[] {
+        return [
+            data[position + 1] & 0x0F,
+            data[position + 1] >> 4,
+            data[position] & 0x0F,
+            data[position] >> 4,
+        ];
+    }
+
+    /**
+     * Decodes the run length encoded lines of an interlaced field.
+     * @param data The sub-picture unit data.
+     * @param offset The start of the field data.
+     * @param spu The sub-picture unit to write the pixels to.
+     * @param firstLine The first line of this field (0 for the top field, 1 for the bottom field).
+     */
+    private static decodeField(data: Uint8Array, offset: number, spu: SubPictureUnit, firstLine: number): void {
+        // The data is read in 4-bit nibbles.
+        let nibblePosition = offset * 2;
+        const nibbleEnd = data.length * 2;
+        const readNibble = (): number => {
+            if (nibblePosition >= nibbleEnd) return 0;
+            const byte = data[nibblePosition >> 1];
+            const nibble = (nibblePosition & 1) === 0 ? byte >> 4 : byte & 0x0F;
+            nibblePosition++;
+            return nibble;
+        };
+
+        for (let y = firstLine; y < spu.height; y += 2) {
+            const lineStart = y * spu.width;
+            let x = 0;
+            while (x < spu.width && nibblePosition < nibbleEnd) {
+                // The code length depends on the leading zeros: 4, 8, 12 or 16 bits.
+                let code = readNibble();
+                if (code < 0x4) {
+                    code = (code << 4) | readNibble();
+                    if (code < 0x10) {
+                        code = (code << 4) | readNibble();
+                        if (code < 0x40) {
+                            code = (code << 4) | readNibble();
+                        }
+                    }
+                }
+
+                const value = code & 0x03;
+                let run = code >> 2;
+                // A run length of zero fills the rest of the line.
+                if (run === 0 || x + run > spu.width) {
+                    run = spu.width - x;
+                }
+                spu.pixels.fill(value, lineStart + x, lineStart + x + run);
+                x += run;
+            }
+
+            // Every line starts at a byte boundary.
+            if ((nibblePosition & 1) !== 0) {
+                nibblePosition++;
+            }
+        }
+    }
+}
@@ -0,0 +1,197 @@
+import {VobSubIndex, VobSubIndexTrack} from "./vobSubIndex";
+import {SubPictureUnit} from "./subPictureUnit";
+import {DisplaySet} from "../pgs/displaySet";
+import {CompositionObject, PresentationCompositionSegment} from "../pgs/presentationCompositionSegment";
+import {WindowDefinition, WindowDefinitionSegment} from "../pgs/windowDefinitionSegment";
+import {PaletteDefinitionSegment, PaletteEntry} from "../pgs/paletteDefinitionSegment";
+import {ObjectDefinitionSegment} from "../pgs/objectDefinitionSegment";
+
+/**
+ * Decodes VobSub subtitles (`.idx` and `.sub` files) and converts them into PGS display sets. This way DVD subtitles
+ * use the same rendering pipeline as PGS subtitles.
+ */
+export class VobSubDecoder {
+    /**
+     * The display duration in milliseconds if a subtitle has no stop command.
+     */
+    private static readonly defaultDuration = 5000;
+
+    private readonly index: VobSubIndex;
+    private readonly data: Uint8Array;
+
+    /**
+     * Creates the decoder.
+     * @param index The parsed index file.
+     * @param data The content of the `.sub` file.
+     */
+    public constructor(index: VobSubIndex, data: Uint8Array) {
+        this.index = index;
+        this.data = data;
+    }
+
+    /**
+     * Decodes all subtitles of the given track and returns the PGS display sets.
+     * Every subtitle is converted into an epoch start display set, followed by an empty display set when the subtitle
+     * is removed.
+     * @param trackIndex The VobSub track index. If not provided, the default track of the index file is used.
+     */
+    public decodeDisplaySets(trackIndex?: number): DisplaySet[] {
+        const track = this.getTrack(trackIndex ?? this.index.languageIndex);
+
+        const displaySets: DisplaySet[] = [];
+        let compositionNumber = 0;
+        for (let i = 0; i < track.entries.length; i++) {
+            const entry = track.entries[i];
+            const data = this.readSubPictureUnit(entry.filePosition, track.index);
+            if (!data) continue;
+
+            const spu = SubPictureUnit.decode(data);
+            if (spu.width <= 0 || spu.height <= 0) continue;
+
+            const start = entry.timestamp + spu.startDelay;
+            displaySets.push(this.createDisplaySet(spu, start, compositionNumber++));
+
+            // The next subtitle replaces this subtitle anyway. We only need to clear the screen if there is a gap.
+            const stop = entry.timestamp + (spu.stopDelay ?? VobSubDecoder.defaultDuration);
+            const next = i + 1 < track.entries.length ? track.entries[i + 1].timestamp : Infinity;
+            if (stop > start && stop < next) {
+                displaySets.push(this.createEmptyDisplaySet(stop, compositionNumber++));
+            }
+        }
+        return displaySets;
+    }
+
+    private getTrack(trackIndex: number): VobSubIndexTrack {
+        const track = this.index.tracks.find(t => t.index === trackIndex) ?? this.index.tracks[0];
+        if (!track) {
+            throw new Error('No VobSub track found!');
+        }
+        return track;
+    }
+
+    // region MPEG program stream
+
+    /**
+     * Reads the sub-picture unit starting at the given file position. A sub-picture unit can be split into multiple
+     * PES packets.
+     * @param position The file position of the first packet.
+     * @param streamIndex The sub-stream index of the track.
+     */
+    private readSubPictureUnit(position: number, streamIndex: number): Uint8Array | undefined {
+        const data = this.data;
+        let spu: Uint8Array | undefined;
+        let spuLength = 0;
+
+        while (position + 6 <= data.length) {
+            if (data[position] !== 0x00 || data[position + 1] !== 0x00 || data[position + 2] !== 0x01) {
+                return undefined;
+            }
+
+            const streamId = data[position + 3];
+            // Pack header: the stuffing length is stored in the last byte of the 14-byte header.
+            if (streamId === 0xBA) {
+                position += 14 + (data[position + 13] & 0x07);
+                continue;
+            }
+
+            const packetLength = (data[position + 4] << 8) | data[position + 5];
+            const packetEnd = position + 6 + packetLength;
+
+            // Subtitles are stored in private stream 1. Skipping all other streams (e.g. padding).
+            if (streamId !== 0xBD) {
+                position = packetEnd;
+                continue;
+            }
+
+            // The sub-stream id follows the PES header. Subtitle streams start at 0x20.
+            const headerLength = data[position + 8];
+            const payloadStart = position + 9 + headerLength + 1;
+            const subStreamId = data[position + 9 + headerLength];
+            position = packetEnd;
+            if (subStreamId !== 0x20 + streamIndex) continue;
+
+            const payload = data.subarray(payloadStart, Math.min(packetEnd, data.length));
+            if (!spu) {
+                // The first two bytes of the sub-picture unit contain its total size.
+                if (payload.length < 2) return undefined;
+                spu = new Uint8Array((payload[0] << 8) | payload[1]);
+            }
+
+            const count = Math.min(payload.length, spu.length - spuLength);
+            spu.set(payload.subarray(0, count), spuLength);
+            spuLength += count;
+            if (spuLength >= spu.length) {
+                return spu;
+            }
+        }
+
+        return undefined;
+    }
+
+    // endregion
+
+    // region Conversion
+
+    private createDisplaySet(spu: SubPictureUnit, timestamp: number, compositionNumber: number): DisplaySet {
+        const displaySet = new DisplaySet();
+        displaySet.presentationTimestamp = Math.round(timestamp * 90);
+        displaySet.decodingTimestamp = displaySet.presentationTimestamp;
+
+        const compositionObject = new CompositionObject();
+        compositionObject.id = 0;
+        compositionObject.windowId = 0;
+        compositionObject.horizontalPosition = spu.x;
+        compositionObject.verticalPosition = spu.y;
+        // PGS uses the same bit to mark forced subtitles.
+        compositionObject.croppedFlag = spu.forced ? 0x40 : 0x00;
+
+        const pcs = this.createPresentationComposition(compositionNumber);
+        // Every subtitle is a new epoch, so no previous objects are needed.
+        pcs.compositionState = 0x80;
+        pcs.compositionObjects.push(compositionObject);
+        displaySet.presentationComposition = pcs;
+
+        const window = new WindowDefinition();
+        window.id = 0;
+        window.horizontalPosition = spu.x;
+        window.verticalPosition = spu.y;
+        window.width = spu.width;
+        window.height = spu.height;
+        const wds = new WindowDefinitionSegment();
+        wds.windows.push(window);
+        displaySet.windowDefinitions.push(wds);
+
+        // The four pixel values are mapped to the 16 color palette of the index file.
+        const pds = new PaletteDefinitionSegment();
+        for (let i = 0; i < 4; i++) {
+            const rgb = this.index.palette[spu.colors[i]] ?? 0;
+            pds.entries.push(PaletteEntry.fromRgba(i, (rgb >> 16) & 0xFF, (rgb >> 8) & 0xFF, rgb & 0xFF,
+                spu.alpha[i] * 17));
+        }
+        pds.updateRgba();
+        displaySet.paletteDefinitions.push(pds);
+
+        displaySet.objectDefinitions.push(ObjectDefinitionSegment.fromIndices(0, 0, spu.width, spu.height,
+            spu.pixels));
+        return displaySet;
+    }
+
+    private createEmptyDisplaySet(timestamp: number, compositionNumber: number): DisplaySet {
+        const displaySet = new DisplaySet();
+        displaySet.presentationTimestamp = Math.round(timestamp * 90);
+        displaySet.decodingTimestamp = displaySet.presentationTimestamp;
+        displaySet.presentationComposition = this.createPresentationComposition(compositionNumber);
+        return displaySet;
+    }
+
+    private createPresentationComposition(compositionNumber: number): PresentationCompositionSegment {
+        const pcs = new PresentationCompositionSegment();
+        pcs.width = this.index.width;
+        pcs.height = this.index.height;
+        pcs.frameRate = 0x10;
+        pcs.compositionNumber = compositionNumber & 0xFFFF;
+        return pcs;
+    }
+
+    // endregion
+}
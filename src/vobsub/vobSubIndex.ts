@@ -0,0 +1,125 @@
+/**
+ * A subtitle entry of the VobSub index file.
+ */
+export class VobSubIndexEntry {
+    /**
+     * The presentation time in milliseconds.
+     */
+    public timestamp: number = 0;
+
+    /**
+     * The byte position of the first packet of this subtitle in the `.sub` file.
+     */
+    public filePosition: number = 0;
+}
+
+/**
+ * A language track of the VobSub index file.
+ */
+export class VobSubIndexTrack {
+    public language: string = '';
+    public index: number = 0;
+    public entries: VobSubIndexEntry[] = [];
+}
+
+/**
+ * The VobSub index file (`.idx`) with the screen size, the 16 color palette and the subtitle positions in the `.sub`
+ * file.
+ */
+export class VobSubIndex {
+    public width: number = 720;
+    public height: number = 480;
+
+    /**
+     * The 16 color palette as RGB values.
+     */
+    public palette: number[] = [];
+
+    /**
+     * The default track index.
+     */
+    public languageIndex: number = 0;
+
+    public tracks: VobSubIndexTrack[] = [];
+
+    /**
+     * Parses the VobSub index file.
+     * @param text The content of the `.idx` file.
+     */
+    public static parse(text: string): VobSubIndex {
+        const index = new VobSubIndex();
+        let track: VobSubIndexTrack | undefined;
+        let timeOffset = 0;
+        let delay = 0;
+
+        for (const rawLine of text.split(/\r?\n/)) {
+            const line = rawLine.trim();
+            if (line.length === 0 || line[0] === '#') continue;
+
+            const separator = line.indexOf(':');
+            if (separator < 0) continue;
+            const key = line.substring(0, separator).trim().toLowerCase();
+            const value = line.substring(separator + 1).trim();
+
+            switch (key) {
+                case 'size': {
+                    const match = /^(\d+)\s*x\s*(\d+)/.exec(value);
+                    if (match) {
+                        index.width = parseInt(match[1], 10);
+                        index.height = parseInt(match[2], 10);
+                    }
+                    break;
+                }
+                case 'palette':
+                    index.palette = value.split(',').map(color => parseInt(color.trim(), 16));
+                    break;
+                case 'time offset':
+                    timeOffset = parseInt(value, 10) || 0;
+                    break;
+                case 'langidx':
+                    index.languageIndex = parseInt(value, 10) || 0;
+                    break;
+                case 'id': {
+                    // Format: "id: en, index: 0"
+                    const match = /^([^,]*),\s*index:\s*(\d+)/.exec(value);
+                    track = new VobSubIndexTrack();
+                    track.language = match ? match[1].trim() : value;
+                    track.index = match ? parseInt(match[2], 10) : index.tracks.length;
+                    index.tracks.push(track);
+                    delay = 0;
+                    break;
+                }
+                case 'delay':
+                    delay += VobSubIndex.parseTime(value);
+                    break;
+                case 'timestamp': {
+                    // Format: "timestamp: 00:00:01:234, filepos: 000000000"
+                    const match = /^(-?[\d:]+),\s*filepos:\s*([0-9a-fA-F]+)/.exec(value);
+                    if (!track || !match) break;
+
+                    const entry = new VobSubIndexEntry();
+                    entry.timestamp = VobSubIndex.parseTime(match[1]) + delay + timeOffset;
+                    entry.filePosition = parseInt(match[2], 16);
+                    track.entries.push(entry);
+                    break;
+                }
+            }
+        }
+
+        return index;
+    }
+
+    /**
+     * Parses a VobSub time value (`hh:mm:ss:ms`) to milliseconds.
+     * @param value The time value.
+     */
+    private static parseTime(value: string): number {
+        const negative = value[0] === '-';
+        const parts = value.replace('-', '').split(':').map(part => parseInt(part, 10) || 0);
+        while (parts.length < 4) {
+            parts.unshift(0);
+        }
+        const time = ((parts[0] * 60 + parts[1]) * 60 + parts[2]) * 1000 + parts[3];
+        return negative ? -time : time;
+    }
+}
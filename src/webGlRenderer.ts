@@ -0,0 +1,489 @@
+import {Rect} from "./utils/rect";
+import {SubtitleCompositionData, SubtitleData, SubtitleIndexData} from "./subtitleData";
+import {SubtitleDisplayMode} from "./subtitleDisplayMode";
+import {SubtitleRenderer} from "./subtitleRenderer";
+import {PgsRendererHelper} from "./pgsRendererHelper";
+import {RenderResolution} from "./renderResolution";
+import {UpscalingFilter} from "./upscalingFilter";
+import {SubtitleViewport} from "./subtitleViewport";
+import {SubtitleLayout} from "./subtitleLayout";
+import {SubtitleStyle} from "./subtitleStyle";
+import {Color} from "./utils/color";
+
+const vertexShaderSource = `#version 300 es
+in vec2 a_position;
+uniform vec2 u_resolution;
+uniform vec4 u_transform;
+uniform vec4 u_target;
+uniform vec4 u_source;
+out vec2 v_texel;
+
+void main() {
+    // The quad is drawn from 0 to 1 and mapped to the target area on the canvas and the source area in the texture.
+    // The target area is scaled from subtitle to canvas coordinates.
+    vec2 position = (u_target.xy + a_position * u_target.zw) * u_transform.xy + u_transform.zw;
+    v_texel = u_source.xy + a_position * u_source.zw;
+    vec2 clip = position / u_resolution * 2.0 - 1.0;
+    gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const fragmentShaderSource = `#version 300 es
+precision highp float;
+uniform sampler2D u_indices;
+uniform sampler2D u_palette;
+uniform int u_filter;
+uniform vec4 u_clip;
+uniform float u_opacity;
+uniform vec4 u_outlineColor;
+uniform float u_outlineWidth;
+uniform vec4 u_shadowColor;
+uniform vec3 u_shadow;
+uniform vec4 u_backgroundColor;
+uniform float u_padding;
+in vec2 v_texel;
+out vec4 outColor;
+
+float getIndex(ivec2 position) {
+    ivec2 size = textureSize(u_indices, 0);
+    return texelFetch(u_indices, clamp(position, ivec2(0), size - 1), 0).r;
+}
+
+vec4 getColor(float index) {
+    vec4 color = texelFetch(u_palette, ivec2(int(index * 255.0 + 0.5), 0), 0);
+    // The canvas uses premultiplied alpha.
+    return vec4(color.rgb * color.a, color.a);
+}
+
+// Checks if the texel is inside the visible area of the composition, extended by the given margin.
+bool isInside(vec2 texel, float margin) {
+    return all(greaterThanEqual(texel, u_clip.xy - margin)) && all(lessThan(texel, u_clip.xy + u_clip.zw + margin));
+}
+
+float getAlpha(vec2 texel) {
+    return isInside(texel, 0.0) ? getColor(getIndex(ivec2(floor(texel)))).a : 0.0;
+}
+
+// Draws the premultiplied source color over the target color.
+vec4 blend(vec4 source, vec4 target) {
+    return source + target * (1.0 - source.a);
+}
+
+vec4 getFilteredColor() {
+    // Bilinear: the colors are interpolated after the palette lookup. Indices can't be interpolated.
+    if (u_filter == 1) {
+        vec2 position = v_texel - 0.5;
+        ivec2 p = ivec2(floor(position));
+        vec2 f = fract(position);
+        vec4 top = mix(getColor(getIndex(p)), getColor(getIndex(p + ivec2(1, 0))), f.x);
+        vec4 bottom = mix(getColor(getIndex(p + ivec2(0, 1))), getColor(getIndex(p + ivec2(1, 1))), f.x);
+        return mix(top, bottom, f.y);
+    }
+
+    ivec2 p = ivec2(floor(v_texel));
+    float index = getIndex(p);
+
+    // Edge-aware: Scale2x splits every pixel into four quadrants. A quadrant takes the color of two equal neighbours,
+    // if they form an edge.
+    if (u_filter == 2) {
+        float up = getIndex(p + ivec2(0, -1));
+        float down = getIndex(p + ivec2(0, 1));
+        float left = getIndex(p + ivec2(-1, 0));
+        float right = getIndex(p + ivec2(1, 0));
+        vec2 f = fract(v_texel);
+        if (f.y < 0.5) {
+            if (f.x < 0.5) {
+                if (left == up && up != right && left != down) index = up;
+            } else {
+                if (up == right && up != left && right != down) index = right;
+            }
+        } else {
+            if (f.x < 0.5) {
+                if (left == down && left != up && down != right) index = left;
+            } else {
+                if (down == right && down != left && right != up) index = right;
+            }
+        }
+    }
+
+    return getColor(index);
+}
+
+void main() {
+    vec4 color = isInside(v_texel, 0.0) ? getFilteredColor() : vec4(0.0);
+
+    // The style effects are drawn behind the composition. The quad is extended by the reach of the effects.
+    vec4 effects = vec4(0.0);
+    if (u_backgroundColor.a > 0.0 && isInside(v_texel, u_padding)) {
+        effects = u_backgroundColor;
+    }
+    if (u_shadowColor.a > 0.0) {
+        vec2 position = v_texel - u_shadow.xy;
+        float shadow = 0.0;
+        // The blur is approximated by a 3x3 box of samples.
+        for (int x = -1; x <= 1; x++) {
+            for (int y = -1; y <= 1; y++) {
+                shadow += getAlpha(position + vec2(x, y) * u_shadow.z * 0.5);
+            }
+        }
+        effects = blend(u_shadowColor * (shadow / 9.0), effects);
+    }
+    if (u_outlineWidth > 0.0) {
+        // Every subtitle pixel of the outline width gets its own ring of samples. Thin strokes would leave gaps.
+        float outline = 0.0;
+        int rings = min(int(ceil(u_outlineWidth)), 8);
+        for (int ring = 1; ring <= rings; ring++) {
+            float radius = u_outlineWidth * float(ring) / float(rings);
+            for (int step = 0; step < 16; step++) {
+                float angle = 6.2831853 * float(step) / 16.0;
+                outline = max(outline, getAlpha(v_texel + vec2(cos(angle), sin(angle)) * radius));
+            }
+        }
+        effects = blend(u_outlineColor * outline, effects);
+    }
+
+    outColor = blend(color, effects) * u_opacity;
+}`;
+
+/**
+ * This renders the subtitle with WebGL2. The palette indices of every object are uploaded as R8 texture and the
+ * palette as 256x1 lookup texture. The colors are looked up in the fragment shader. This renderer can operate inside
+ * the web worker with an offscreen canvas.
+ */
+export class WebGlRenderer implements SubtitleRenderer {
+
+    private readonly canvas: OffscreenCanvas | HTMLCanvasElement;
+    private readonly gl: WebGL2RenderingContext;
+    private readonly program: WebGLProgram;
+    private readonly vertexArray: WebGLVertexArrayObject;
+    private readonly vertexBuffer: WebGLBuffer;
+    private readonly paletteTexture: WebGLTexture;
+
+    private readonly resolutionLocation: WebGLUniformLocation | null;
+    private readonly transformLocation: WebGLUniformLocation | null;
+    private readonly filterLocation: WebGLUniformLocation | null;
+    private readonly targetLocation: WebGLUniformLocation | null;
+    private readonly sourceLocation: WebGLUniformLocation | null;
+    private readonly clipLocation: WebGLUniformLocation | null;
+    private readonly opacityLocation: WebGLUniformLocation | null;
+    private readonly outlineColorLocation: WebGLUniformLocation | null;
+    private readonly outlineWidthLocation: WebGLUniformLocation | null;
+    private readonly shadowColorLocation: WebGLUniformLocation | null;
+    private readonly shadowLocation: WebGLUniformLocation | null;
+    private readonly backgroundColorLocation: WebGLUniformLocation | null;
+    private readonly paddingLocation: WebGLUniformLocation | null;
+
+    // The index textures of the last drawn subtitle by index data id. Palette-only updates keep the same index data and
+    // only upload the new palette. The subtitle data from the web-worker is a new copy on every draw, but keeps the id.
+    private indexTextures: Map<number, WebGLTexture> = new Map();
+
+    /**
+     * Defines which subtitles are rendered. This is applied on the next draw.
+     */
+    public displayMode: SubtitleDisplayMode = SubtitleDisplayMode.all;
+
+    /**
+     * This renderer draws the palette indices.
+     */
+    public readonly indexed: boolean = true;
+
+    /**
+     * Defines the size of the canvas. This is applied on the next draw.
+     */
+    public renderResolution: RenderResolution = RenderResolution.subtitle;
+
+    /**
+     * The filter to scale the subtitle with at display resolution. This is applied on the next draw.
+     */
+    public upscalingFilter: UpscalingFilter = UpscalingFilter.bilinear;
+
+    /**
+     * The device-pixel size of the canvas element. This is required to render at display resolution and to keep the
+     * subtitles in view.
+     */
+    public viewport?: SubtitleViewport;
+
+    /**
+     * If true, subtitles that are cropped by the `cover` aspect ratio mode are moved into the visible region.
+     * This requires the viewport.
+     */
+    public keepInView: boolean = false;
+
+    /**
+     * The user defined position and scale of the subtitles. This is applied on the next draw.
+     */
+    public layout?: SubtitleLayout;
+
+    /**
+     * The style overrides of the subtitles. The palette preset and tint are already applied to the palette.
+     * This is applied on the next draw.
+     */
+    public style?: SubtitleStyle;
+
+    /**
+     * Creates the WebGL2 renderer.
+     * @param canvas The canvas to draw to. An exception is thrown if WebGL2 isn't supported.
+     */
+    public constructor(canvas: OffscreenCanvas | HTMLCanvasElement) {
+        this.canvas = canvas;
+        const gl = canvas.getContext('webgl2', {
+            alpha: true,
+            premultipliedAlpha: true,
+            antialias: false,
+            desynchronized: true,
+        }) as WebGL2RenderingContext | null;
+        if (!gl) {
+            throw new Error('WebGL2 is not supported!');
+        }
+        this.gl = gl;
+
+        this.program = WebGlRenderer.createProgram(gl);
+        this.resolutionLocation = gl.getUniformLocation(this.program, 'u_resolution');
+        this.transformLocation = gl.getUniformLocation(this.program, 'u_transform');
+        this.filterLocation = gl.getUniformLocation(this.program, 'u_filter');
+        this.targetLocation = gl.getUniformLocation(this.program, 'u_target');
+        this.sourceLocation = gl.getUniformLocation(this.program, 'u_source');
+        this.clipLocation = gl.getUniformLocation(this.program, 'u_clip');
+        this.opacityLocation = gl.getUniformLocation(this.program, 'u_opacity');
+        this.outlineColorLocation = gl.getUniformLocation(this.program, 'u_outlineColor');
+        this.outlineWidthLocation = gl.getUniformLocation(this.program, 'u_outlineWidth');
+        this.shadowColorLocation = gl.getUniformLocation(this.program, 'u_shadowColor');
+        this.shadowLocation = gl.getUniformLocation(this.program, 'u_shadow');
+        this.backgroundColorLocation = gl.getUniformLocation(this.program, 'u_backgroundColor');
+        this.paddingLocation = gl.getUniformLocation(this.program, 'u_padding');
+
+        // A single quad from 0 to 1. The position and size are set by uniforms for every composition.
+        this.vertexArray = gl.createVertexArray()!;
+        gl.bindVertexArray(this.vertexArray);
+        this.vertexBuffer = gl.createBuffer()!;
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+        const positionLocation = gl.getAttribLocation(this.program, 'a_position');
+        gl.enableVertexAttribArray(positionLocation);
+        gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
+
+        gl.useProgram(this.program);
+        gl.uniform1i(gl.getUniformLocation(this.program, 'u_indices'), 0);
+        gl.uniform1i(gl.getUniformLocation(this.program, 'u_palette'), 1);
+
+        this.paletteTexture = WebGlRenderer.createTexture(gl);
+
+        // The palette indices are tightly packed.
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    }
+
+    /**
+     * Renders the given subtitle data to the canvas.
+     * @param subtitleData The pre-compiled subtitle data with palette indices to render.
+     */
+    public async draw(subtitleData?: SubtitleData): Promise<void> {
+        const gl = this.gl;
+        if (gl.isContextLost()) return;
+
+        // The whole canvas is cleared on the GPU. Tracking the dirty area isn't worth it here.
+        gl.clearColor(0, 0, 0, 0);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+
+        if (!subtitleData || !subtitleData.palette) {
+            this.releaseIndexTextures(new Map());
+            return;
+        }
+
+        // Resize the canvas if needed. At display resolution, the canvas matches the device pixels of the element.
+        const viewport = this.renderResolution === RenderResolution.display ? this.viewport : undefined;
+        const width = viewport ? viewport.width : subtitleData.width;
+        const height = viewport ? viewport.height : subtitleData.height;
+        if (this.canvas.width !== width || this.canvas.height !== height) {
+            this.canvas.width = width;
+            this.canvas.height = height;
+        }
+        gl.viewport(0, 0, width, height);
+
+        // The scaling is done on the GPU. Without layout and viewport scaling, the subtitle is drawn pixel by pixel.
+        const compositions = PgsRendererHelper.getCompositionsToDraw(subtitleData, this.displayMode)
+            .filter(c => c.indexData);
+        PgsRendererHelper.getVisibleRegion(subtitleData.width, subtitleData.height,
+            this.keepInView ? this.viewport : undefined, this.visibleRegion);
+        const transform = PgsRendererHelper.getSubtitleTransform(subtitleData, compositions, this.layout, viewport,
+            this.visibleRegion);
+        const scaled = !PgsRendererHelper.isIdentityTransform(transform);
+
+        gl.useProgram(this.program);
+        gl.bindVertexArray(this.vertexArray);
+        gl.uniform2f(this.resolutionLocation, width, height);
+        gl.uniform4f(this.transformLocation, transform.scaleX, transform.scaleY, transform.offsetX, transform.offsetY);
+        gl.uniform1i(this.filterLocation, scaled ? WebGlRenderer.getFilterId(this.upscalingFilter) : 0);
+        this.setStyleUniforms(this.style);
+
+        // The palette is always uploaded. This is only 1 KB.
+        gl.activeTexture(gl.TEXTURE1);
+        gl.bindTexture(gl.TEXTURE_2D, this.paletteTexture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, 256, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE,
+            new Uint8Array(subtitleData.palette.buffer, subtitleData.palette.byteOffset, 1024));
+
+        gl.activeTexture(gl.TEXTURE0);
+        const usedTextures = new Map<number, WebGLTexture>();
+        for (const composition of compositions) {
+            const indexData = composition.indexData!;
+            const texture = this.getOrCreateIndexTexture(indexData);
+            usedTextures.set(indexData.id, texture);
+            this.drawSubtitleCompositionData(composition, indexData, texture);
+        }
+
+        this.releaseIndexTextures(usedTextures);
+    }
+
+    // The visible area of the composition that is currently drawn. This is reused to avoid allocations.
+    private readonly visibleArea = new Rect();
+
+    // The region to keep the subtitles in. This is empty if the subtitles are not moved.
+    private readonly visibleRegion = new Rect();
+
+    /**
+     * Draws the subtitle composition as cropped and clipped quad.
+     * @param compositionData The subtitle composition data to draw.
+     * @param indexData The palette indices of the composition.
+     * @param texture The index texture.
+     */
+    private drawSubtitleCompositionData(compositionData: SubtitleCompositionData, indexData: SubtitleIndexData,
+                                        texture: WebGLTexture): void {
+        const gl = this.gl;
+        const compositionObject = compositionData.compositionObject;
+        const area = this.visibleArea;
+        PgsRendererHelper.getVisibleArea(compositionData, indexData.width, indexData.height, area);
+        if (area.empty) return;
+        const sourceX = area.x - compositionObject.horizontalPosition;
+        const sourceY = area.y - compositionObject.verticalPosition;
+        PgsRendererHelper.moveIntoRegion(area, this.visibleRegion);
+
+        // The quad is extended by the reach of the style effects. The shader clips the composition itself.
+        const margin = PgsRendererHelper.getStyleMargin(this.style);
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.uniform4f(this.targetLocation, area.x - margin, area.y - margin, area.width + 2 * margin,
+            area.height + 2 * margin);
+        gl.uniform4f(this.sourceLocation, sourceX - margin, sourceY - margin, area.width + 2 * margin,
+            area.height + 2 * margin);
+        gl.uniform4f(this.clipLocation, sourceX, sourceY, area.width, area.height);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    }
+
+    /**
+     * Uploads the style effects. Effects without style are disabled by transparent colors and zero sizes.
+     * @param style The subtitle style.
+     */
+    private setStyleUniforms(style?: SubtitleStyle): void {
+        const gl = this.gl;
+        gl.uniform1f(this.opacityLocation, Math.min(Math.max(style?.opacity ?? 1, 0), 1));
+
+        const outlineWidth = style?.outline ? Math.max(0, style.outline.width) : 0;
+        WebGlRenderer.setColorUniform(gl, this.outlineColorLocation, style?.outline?.color);
+        gl.uniform1f(this.outlineWidthLocation, outlineWidth);
+
+        const shadow = style?.shadow;
+        WebGlRenderer.setColorUniform(gl, this.shadowColorLocation, shadow?.color);
+        gl.uniform3f(this.shadowLocation, shadow?.offsetX ?? 0, shadow?.offsetY ?? 0, Math.max(0, shadow?.blur ?? 0));
+
+        WebGlRenderer.setColorUniform(gl, this.backgroundColorLocation, style?.background?.color);
+        gl.uniform1f(this.paddingLocation, Math.max(0, style?.background?.padding ?? 0));
+    }
+
+    /**
+     * Uploads the hex color as premultiplied color. Undefined colors are transparent.
+     * @param gl The WebGL2 context.
+     * @param location The uniform location.
+     * @param color The hex color string.
+     */
+    private static setColorUniform(gl: WebGL2RenderingContext, location: WebGLUniformLocation | null,
+                                   color?: string): void {
+        const [r, g, b, a] = color ? Color.parse(color) : [0, 0, 0, 0];
+        const alpha = a / 255;
+        gl.uniform4f(location, r / 255 * alpha, g / 255 * alpha, b / 255 * alpha, alpha);
+    }
+
+    /**
+     * Returns the index texture of the last draw or uploads the palette indices to a new texture.
+     * @param indexData The palette indices to upload.
+     */
+    private getOrCreateIndexTexture(indexData: SubtitleIndexData): WebGLTexture {
+        let texture = this.indexTextures.get(indexData.id);
+        if (!texture) {
+            const gl = this.gl;
+            texture = WebGlRenderer.createTexture(gl);
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, indexData.width, indexData.height, 0, gl.RED, gl.UNSIGNED_BYTE,
+                indexData.indices);
+        }
+        return texture;
+    }
+
+    /**
+     * Deletes all index textures that are not used by the current subtitle.
+     * @param usedTextures The index textures of the current subtitle.
+     */
+    private releaseIndexTextures(usedTextures: Map<number, WebGLTexture>): void {
+        this.indexTextures.forEach((texture, id) => {
+            if (!usedTextures.has(id)) {
+                this.gl.deleteTexture(texture);
+            }
+        });
+        this.indexTextures = usedTextures;
+    }
+
+    private static getFilterId(filter: UpscalingFilter): number {
+        switch (filter) {
+            case UpscalingFilter.bilinear:
+                return 1;
+            case UpscalingFilter.edgeAware:
+                return 2;
+            default:
+                return 0;
+        }
+    }
+
+    /**
+     * Creates and binds a texture without filtering. Palette indices must never be interpolated.
+     * @param gl The WebGL2 context.
+     */
+    private static createTexture(gl: WebGL2RenderingContext): WebGLTexture {
+        const texture = gl.createTexture()!;
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        return texture;
+    }
+
+    private static createProgram(gl: WebGL2RenderingContext): WebGLProgram {
+        const program = gl.createProgram()!;
+        gl.attachShader(program, WebGlRenderer.createShader(gl, gl.VERTEX_SHADER, vertexShaderSource));
+        gl.attachShader(program, WebGlRenderer.createShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource));
+        gl.linkProgram(program);
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+            throw new Error(`Failed to link WebGL program: ${gl.getProgramInfoLog(program)}!`);
+        }
+        return program;
+    }
+
+    private static createShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+        const shader = gl.createShader(type)!;
+        gl.shaderSource(shader, source);
+        gl.compileShader(shader);
+        if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+            throw new Error(`Failed to compile WebGL shader: ${gl.getShaderInfoLog(shader)}!`);
+        }
+        return shader;
+    }
+
+    /**
+     * Disposes the renderer and releases the GPU resources.
+     */
+    public dispose(): void {
+        const gl = this.gl;
+        this.releaseIndexTextures(new Map());
+        gl.deleteTexture(this.paletteTexture);
+        gl.deleteBuffer(this.vertexBuffer);
+        gl.deleteVertexArray(this.vertexArray);
+        gl.deleteProgram(this.program);
+    }
+}
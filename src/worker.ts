@@ -1,9 +1,18 @@
 // Modern browsers (2020+) no longer need polyfills for Promise, Array.find, or fetch
-import {Renderer} from "./renderer";
+import {SubtitleRenderer} from "./subtitleRenderer";
+import {SubtitleRendererFactory} from "./subtitleRendererFactory";
 import {Pgs} from "./pgs";
+import {SubtitleLoadOptions} from "./subtitleLoadOptions";
+import {SubtitleDiagnostic} from "./subtitleDiagnostic";
+import {SubtitleLoadProgress} from "./subtitleLoadProgress";
+import {SubtitleTrackInfo} from "./subtitleTrackInfo";
+import {SubtitleLoadError} from "./subtitleLoadError";
 
 const pgs = new Pgs();
-let renderer: Renderer | undefined = undefined;
+let renderer: SubtitleRenderer | undefined = undefined;
+
+// The abort controllers of the running loads by request id
+const loadControllers = new Map<number, AbortController>();
 
 // Inform the main process that the subtitle data was loaded and return all update timestamps
 const submitTimestamps = () => {
@@ -13,6 +22,116 @@ const submitTimestamps = () => {
     })
 }
 
+// Forwards the problems found in a damaged subtitle file to the main thread
+const submitDiagnostic = (diagnostic: SubtitleDiagnostic) => {
+    postMessage({
+        op: 'diagnostic',
+        diagnostic: diagnostic
+    })
+}
+
+// Forwards the loading state to the main thread
+const submitProgress = (progress: SubtitleLoadProgress) => {
+    postMessage({
+        op: 'progress',
+        progress: progress
+    })
+}
+
+// Informs the main thread that the subtitle file was loaded completely
+const submitLoaded = (id: number, info: SubtitleTrackInfo) => {
+    loadControllers.delete(id);
+    submitTimestamps();
+    postMessage({
+        op: 'loaded',
+        id: id,
+        info: info
+    })
+}
+
+// Forwards a loading error to the main thread. Only the reason and message are passed, since errors are not always
+// serializable.
+const submitError = (id: number, error: unknown) => {
+    loadControllers.delete(id);
+    const loadError = SubtitleLoadError.from(error, false);
+    postMessage({
+        op: 'error',
+        id: id,
+        reason: loadError.reason,
+        message: loadError.message
+    })
+}
+
+// The result of a request to the main thread
+interface MainRequestResult {
+    error?: string;
+    init?: RequestInit;
+    status?: number;
+    statusText?: string;
+    headers?: Record<string, string>;
+    buffer?: ArrayBuffer;
+}
+
+// The requests to the main thread waiting for the result by request id
+const pendingMainRequests = new Map<number, (result: MainRequestResult) => void>();
+let lastMainRequestId = 0;
+
+// Sends a request to the main thread and waits for the result. Errors are passed as message.
+const requestFromMain = (op: string, url: string, init: RequestInit): Promise<MainRequestResult> => {
+    // The signal can't be passed to the main thread. Instead, aborts are forwarded by request id.
+    const signal = init.signal;
+    const requestInit: RequestInit = { ...init, signal: undefined };
+    return new Promise<MainRequestResult>((resolve, reject) => {
+        const id = ++lastMainRequestId;
+        const abort = () => {
+            pendingMainRequests.delete(id);
+            postMessage({ op: 'abortFetch', id: id });
+            reject(new Error('The request was aborted.'));
+        };
+        pendingMainRequests.set(id, (result) => {
+            signal?.removeEventListener('abort', abort);
+            if (result.error !== undefined) {
+                reject(new Error(result.error));
+            } else {
+                resolve(result);
+            }
+        });
+        postMessage({
+            op: op,
+            id: id,
+            url: url,
+            init: requestInit
+        })
+
+        if (signal?.aborted) {
+            abort();
+        } else {
+            signal?.addEventListener('abort', abort, { once: true });
+        }
+    });
+}
+
+// Loads an url with the custom loader of the main thread
+const fetchFromMain = (url: string, init: RequestInit): Promise<Response> => {
+    return requestFromMain('fetch', url, init).then(result => new Response(result.buffer, {
+        status: result.status,
+        statusText: result.statusText,
+        headers: result.headers
+    }));
+}
+
+// Gets new request options from the unauthorized handler of the main thread
+const unauthorizedFromMain = (url: string, init: RequestInit): Promise<RequestInit | undefined> => {
+    return requestFromMain('unauthorized', url, init).then(result => result.init);
+}
+
+// Creates the abort signal for the load with the given request id
+const startLoad = (id: number): AbortSignal => {
+    const controller = new AbortController();
+    loadControllers.set(id, controller);
+    return controller.signal;
+}
+
 // Handles messages from the main thread.
 onmessage = (e: MessageEvent) => {
     switch (e.data.op) {
@@ -23,34 +142,115 @@ onmessage = (e: MessageEvent) => {
 
             // The canvas is optional. If provided, the web-worker can use it to render the subtitles.
             if (canvas) {
-                renderer = new Renderer(canvas);
+                renderer = SubtitleRendererFactory.create(canvas, e.data.backend);
+                renderer.renderResolution = e.data.renderResolution ?? renderer.renderResolution;
+                renderer.upscalingFilter = e.data.upscalingFilter ?? renderer.upscalingFilter;
             }
+
+            // The subtitle data must match the renderer, either in the worker or in the main thread.
+            pgs.setIndexedOutput(renderer?.indexed ?? e.data.indexedOutput ?? false);
+
+            // The subtitle data is built in the worker. So the palette conversion must be known here.
+            pgs.setColorConversion(e.data.colorMatrix, e.data.colorRange);
             break;
         }
 
         // Tells the worker to load a subtitle file from an url.
         case 'loadFromUrl': {
+            const id: number = e.data.id;
             const url: string = e.data.url;
+            const options: SubtitleLoadOptions | undefined = e.data.options;
             pgs.loadFromUrl(url, {
-                onProgress: () => {
+                ...options,
+                signal: startLoad(id),
+                loader: e.data.loader ? fetchFromMain : undefined,
+                onUnauthorized: e.data.onUnauthorized ? unauthorizedFromMain : undefined,
+                onProgress: (progress) => {
                     submitTimestamps();
-                }
-            }).then(() => {
-                submitTimestamps();
-            });
+                    submitProgress(progress);
+                },
+                onDiagnostic: submitDiagnostic
+            }).then(info => submitLoaded(id, info), error => submitError(id, error));
             break;
         }
 
         // Tells the worker to load a subtitle file from the given buffer.
         case 'loadFromBuffer': {
+            const id: number = e.data.id;
             const buffer: ArrayBuffer = e.data.buffer;
-            pgs.loadFromBuffer(buffer).then(() => {
-                submitTimestamps();
-            });
+            const options: SubtitleLoadOptions | undefined = e.data.options;
+            pgs.loadFromBuffer(buffer, {
+                ...options,
+                signal: startLoad(id),
+                onProgress: submitProgress,
+                onDiagnostic: submitDiagnostic
+            }).then(info => submitLoaded(id, info), error => submitError(id, error));
 
             break;
         }
 
+        // Receives the result of a request to the main thread.
+        case 'fetchResult':
+        case 'unauthorizedResult': {
+            const resolve = pendingMainRequests.get(e.data.id);
+            pendingMainRequests.delete(e.data.id);
+            resolve?.(e.data);
+            break;
+        }
+
+        // Cancels the load with the given request id. A new load cancels the previous one by itself.
+        case 'abortLoad': {
+            loadControllers.get(e.data.id)?.abort();
+            break;
+        }
+
+        // Changes the color adjustment of the subtitle palettes.
+        case 'setColorAdjustment': {
+            pgs.setColorAdjustment(e.data.adjustment);
+            break;
+        }
+
+        // Updates the device-pixel size of the canvas element to render at display resolution.
+        case 'setViewport': {
+            if (renderer) {
+                renderer.viewport = e.data.viewport;
+            }
+            break;
+        }
+
+        // Changes the position and scale of the subtitles inside the worker.
+        case 'setLayout': {
+            if (renderer) {
+                renderer.layout = e.data.layout;
+            }
+            break;
+        }
+
+        // Changes the style overrides. The palettes are remapped by the pgs and the effects are drawn by the renderer.
+        case 'setStyle': {
+            pgs.setStyle(e.data.style);
+            if (renderer) {
+                renderer.style = e.data.style;
+            }
+            break;
+        }
+
+        // Changes if cropped subtitles are moved into view inside the worker.
+        case 'setKeepInView': {
+            if (renderer) {
+                renderer.keepInView = e.data.keepInView;
+            }
+            break;
+        }
+
+        // Changes which subtitles are rendered inside the worker.
+        case 'setDisplayMode': {
+            if (renderer) {
+                renderer.displayMode = e.data.displayMode;
+            }
+            break;
+        }
+
         // Renders the subtitle at the given index inside the worker.
         // This is only supported if a canvas was provided to the worker.
         case 'render': {
@@ -77,9 +277,20 @@ onmessage = (e: MessageEvent) => {
             pgs.cacheSubtitleAtIndex(index + 1);
             break;
         }
+
+        // Requests the cues of the loaded subtitles.
+        case 'requestCues': {
+            postMessage({
+                op: 'cues',
+                id: e.data.id,
+                cues: pgs.getCues()
+            });
+            break;
+        }
         
         // Cleanup resources
         case 'dispose': {
+            pgs.abortLoad();
             renderer?.dispose();
             renderer = undefined;
             break;
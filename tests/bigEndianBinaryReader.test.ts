@@ -28,6 +28,12 @@ test('read uint 32 value', () => {
     expect(reader.readUInt32()).toBe(16909060);
 });
 
+test('read uint 32 value above 31 bits', () => {
+    const reader = new BigEndianBinaryReader(new Uint8Array([0xFF, 0x02, 0x03, 0x04]));
+
+    expect(reader.readUInt32()).toBe(4278321924);
+});
+
 test('read 4 bytes', () => {
     const reader = new BigEndianBinaryReader(new Uint8Array([0x01, 0x02, 0x03, 0x04]));
 
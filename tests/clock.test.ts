@@ -0,0 +1,151 @@
+import {ClockSync} from "../src/clock/clockSync";
+import {MediaElementClock} from "../src/clock/mediaElementClock";
+import {ManualClock} from "../src/clock/manualClock";
+
+class FakeVideo {
+    public currentTime: number = 0;
+    public paused: boolean = true;
+    private readonly listeners: Map<string, Set<() => void>> = new Map();
+
+    public addEventListener(type: string, listener: () => void): void {
+        if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+        this.listeners.get(type)!.add(listener);
+    }
+
+    public removeEventListener(type: string, listener: () => void): void {
+        this.listeners.get(type)?.delete(listener);
+    }
+
+    public dispatch(type: string): void {
+        this.listeners.get(type)?.forEach(listener => listener());
+    }
+}
+
+class FakeVideoWithFrameCallback extends FakeVideo {
+    public frameCallbacks: Map<number, VideoFrameRequestCallback> = new Map();
+    private nextHandle: number = 1;
+
+    public requestVideoFrameCallback(callback: VideoFrameRequestCallback): number {
+        this.frameCallbacks.set(this.nextHandle, callback);
+        return this.nextHandle++;
+    }
+
+    public cancelVideoFrameCallback(handle: number): void {
+        this.frameCallbacks.delete(handle);
+    }
+
+    public presentFrame(mediaTime: number): void {
+        const callbacks = Array.from(this.frameCallbacks.values());
+        this.frameCallbacks.clear();
+        callbacks.forEach(callback => callback(0, { mediaTime: mediaTime } as VideoFrameCallbackMetadata));
+    }
+}
+
+test('sync to presented frames with requestVideoFrameCallback', () => {
+    const video = new FakeVideoWithFrameCallback();
+    const times: number[] = [];
+    const clock = new MediaElementClock(video as unknown as HTMLVideoElement);
+    const sync = new ClockSync(clock, time => times.push(time));
+    expect(clock.frameAccurate).toBe(true);
+
+    video.presentFrame(1.5);
+    video.presentFrame(1.54);
+    expect(times).toEqual([1.5, 1.54]);
+
+    // Pausing doesn't present a new frame.
+    video.currentTime = 1.56;
+    video.dispatch('pause');
+    expect(times).toEqual([1.5, 1.54, 1.56]);
+
+    // The time update is only used if no frames are presented, e.g. for hidden videos.
+    video.dispatch('timeupdate');
+    expect(times).toEqual([1.5, 1.54, 1.56]);
+    video.currentTime = 1.8;
+    video.dispatch('timeupdate');
+    expect(times).toEqual([1.5, 1.54, 1.56, 1.8]);
+
+    sync.dispose();
+    video.dispatch('seeked');
+    video.dispatch('timeupdate');
+    expect(times.length).toBe(4);
+    clock.dispose();
+    expect(video.frameCallbacks.size).toBe(0);
+});
+
+test('sync with animation frames while playing', () => {
+    const animationFrames: Map<number, FrameRequestCallback> = new Map();
+    let nextHandle = 1;
+    // Node has no animation frames.
+    const animationGlobals = globalThis as unknown as {
+        requestAnimationFrame?: (callback: FrameRequestCallback) => number,
+        cancelAnimationFrame?: (handle: number) => void
+    };
+    animationGlobals.requestAnimationFrame = (callback: FrameRequestCallback) => {
+        animationFrames.set(nextHandle, callback);
+        return nextHandle++;
+    };
+    animationGlobals.cancelAnimationFrame = (handle: number) => animationFrames.delete(handle);
+    const runAnimationFrame = () => {
+        const callbacks = Array.from(animationFrames.values());
+        animationFrames.clear();
+        callbacks.forEach(callback => callback(0));
+    };
+
+    const video = new FakeVideo();
+    const times: number[] = [];
+    const clock = new MediaElementClock(video as unknown as HTMLVideoElement);
+    const sync = new ClockSync(clock, time => times.push(time));
+    expect(clock.frameAccurate).toBe(false);
+    expect(animationFrames.size).toBe(0);
+
+    video.paused = false;
+    video.dispatch('play');
+    video.currentTime = 2;
+    runAnimationFrame();
+    video.currentTime = 2.02;
+    runAnimationFrame();
+    expect(times).toEqual([0, 2, 2.02]);
+
+    // The loop stops with the video.
+    video.paused = true;
+    runAnimationFrame();
+    expect(animationFrames.size).toBe(0);
+
+    video.currentTime = 10;
+    video.dispatch('seeked');
+    video.dispatch('ratechange');
+    expect(times).toEqual([0, 2, 2.02, 2.02, 10, 10]);
+
+    sync.dispose();
+    clock.dispose();
+    delete animationGlobals.requestAnimationFrame;
+    delete animationGlobals.cancelAnimationFrame;
+});
+
+test('advance manual clock', () => {
+    let now = 1000;
+    const nowSpy = jest.spyOn(performance, 'now').mockImplementation(() => now);
+
+    const clock = new ManualClock();
+    const times: number[] = [];
+    clock.addChangeListener(time => times.push(time));
+
+    clock.setTime(5);
+    expect(clock.currentTime).toBe(5);
+    expect(clock.playing).toBe(false);
+
+    // The time is extrapolated while playing.
+    clock.play();
+    now += 500;
+    expect(clock.currentTime).toBe(5.5);
+    clock.playbackRate = 2;
+    now += 500;
+    expect(clock.currentTime).toBe(6.5);
+
+    clock.pause();
+    now += 500;
+    expect(clock.currentTime).toBe(6.5);
+    expect(times).toEqual([5, 5, 5.5, 6.5]);
+
+    nowSpy.mockRestore();
+});
@@ -0,0 +1,13 @@
+import {Color} from "../src/utils/color";
+
+test('parse hex colors', () => {
+    expect(Color.parse('#ffcc00')).toEqual([255, 204, 0, 255]);
+    expect(Color.parse('#FFCC0080')).toEqual([255, 204, 0, 128]);
+    expect(Color.parse('#fc0')).toEqual([255, 204, 0, 255]);
+    expect(Color.parse('#0008')).toEqual([0, 0, 0, 136]);
+});
+
+test('reject invalid colors', () => {
+    expect(() => Color.parse('yellow')).toThrow();
+    expect(() => Color.parse('#ffcc0')).toThrow();
+});
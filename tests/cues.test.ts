@@ -0,0 +1,69 @@
+import {Pgs} from "../src/pgs";
+import {WindowDefinition, WindowDefinitionSegment} from "../src/pgs/windowDefinitionSegment";
+import {PaletteEntry} from "../src/pgs/paletteDefinitionSegment";
+import {ObjectDefinitionSegment} from "../src/pgs/objectDefinitionSegment";
+import {PgsRendererHelper} from "../src/pgsRendererHelper";
+import {SubtitleCue} from "../src/subtitleCue";
+import {createDisplaySet, createPalette} from "./testDisplaySets";
+
+test('merge display sets into cues', () => {
+    // Shows a forced 3x1 object at one second.
+    const show = createDisplaySet(90000, 0x80, false, [0x40]);
+    const wds = new WindowDefinitionSegment();
+    const window = new WindowDefinition();
+    window.width = 3;
+    window.height = 1;
+    wds.windows.push(window);
+    show.windowDefinitions.push(wds);
+    show.paletteDefinitions.push(createPalette([PaletteEntry.fromRgba(1, 255, 255, 255, 255)]));
+    show.objectDefinitions.push(ObjectDefinitionSegment.fromIndices(0, 0, 3, 1, [1, 1, 1]));
+
+    // The fade is part of the shown cue.
+    const fade = createDisplaySet(180000, 0x00, true, [0x40]);
+    const clear = createDisplaySet(270000, 0x00, false, []);
+    // Shows the buffered object again and replaces it by itself.
+    const showAgain = createDisplaySet(360000, 0x00, false, [0x00]);
+    const replace = createDisplaySet(450000, 0x00, false, [0x00]);
+
+    const pgs = new Pgs();
+    pgs.displaySets = [show, fade, clear, showAgain, replace];
+    pgs.invalidate();
+
+    const box = { x: 0, y: 0, width: 3, height: 1 };
+    expect(pgs.getCues()).toEqual([
+        { index: 0, displaySetIndex: 0, startTime: 1, endTime: 3, compositionCount: 1, forced: true,
+            width: 16, height: 16, boundingBoxes: [box] },
+        { index: 1, displaySetIndex: 3, startTime: 4, endTime: 5, compositionCount: 1, forced: false,
+            width: 16, height: 16, boundingBoxes: [box] },
+    ]);
+
+    // The last cue ends with the added display set.
+    pgs.displaySets.push(createDisplaySet(540000, 0x00, false, []));
+    pgs.invalidate();
+    expect(pgs.getCues().map(cue => [cue.startTime, cue.endTime])).toEqual([[1, 3], [4, 5], [5, 6]]);
+});
+
+test('navigate between cues', () => {
+    const createCue = (index: number, startTime: number, endTime: number): SubtitleCue => ({
+        index: index, displaySetIndex: index * 2, startTime: startTime, endTime: endTime, compositionCount: 1,
+        forced: false, width: 1920, height: 1080, boundingBoxes: []
+    });
+    const cues = [createCue(0, 1, 3), createCue(1, 4, 5), createCue(2, 5, 6)];
+
+    expect(PgsRendererHelper.getCueIndexAtTime(0.5, cues)).toBe(-1);
+    expect(PgsRendererHelper.getCueIndexAtTime(1, cues)).toBe(0);
+    expect(PgsRendererHelper.getCueIndexAtTime(3.5, cues)).toBe(-1);
+    expect(PgsRendererHelper.getCueIndexAtTime(5, cues)).toBe(2);
+    expect(PgsRendererHelper.getCueIndexAtTime(6, cues)).toBe(-1);
+
+    expect(PgsRendererHelper.getNextCueIndex(0, cues)).toBe(0);
+    expect(PgsRendererHelper.getNextCueIndex(2, cues)).toBe(1);
+    expect(PgsRendererHelper.getNextCueIndex(5, cues)).toBe(-1);
+    // A seek can end slightly before the cue start.
+    expect(PgsRendererHelper.getNextCueIndex(3.9999, cues)).toBe(2);
+
+    expect(PgsRendererHelper.getPreviousCueIndex(1, cues)).toBe(-1);
+    expect(PgsRendererHelper.getPreviousCueIndex(4.5, cues)).toBe(1);
+    expect(PgsRendererHelper.getPreviousCueIndex(5.0001, cues)).toBe(1);
+    expect(PgsRendererHelper.getPreviousCueIndex(10, cues)).toBe(2);
+});
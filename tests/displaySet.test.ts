@@ -0,0 +1,67 @@
+import {DisplaySet} from "../src/pgs/displaySet";
+import {ObjectDefinitionSegment} from "../src/pgs/objectDefinitionSegment";
+import {BigEndianBinaryReader} from "../src/utils/bigEndianBinaryReader";
+import {BigEndianBinaryWriter} from "../src/utils/bigEndianBinaryWriter";
+import {ArrayBinaryWriter} from "../src/utils/arrayBinaryWriter";
+import * as fs from "node:fs";
+
+const readDisplaySets = async (data: Uint8Array): Promise<DisplaySet[]> => {
+    const reader = new BigEndianBinaryReader(data);
+    const displaySets: DisplaySet[] = [];
+    while (!reader.eof) {
+        const displaySet = new DisplaySet();
+        await displaySet.read(reader, true);
+        displaySets.push(displaySet);
+    }
+    return displaySets;
+}
+
+const writeDisplaySets = (displaySets: DisplaySet[]): Uint8Array => {
+    const arrayWriter = new ArrayBinaryWriter();
+    const writer = new BigEndianBinaryWriter(arrayWriter);
+    for (const displaySet of displaySets) {
+        displaySet.write(writer, true);
+    }
+    return arrayWriter.toUint8Array();
+}
+
+test('write and read display sets from file', async () => {
+    const original = await readDisplaySets(new Uint8Array(fs.readFileSync(`${__dirname}/files/test.sup`)));
+    const written = await readDisplaySets(writeDisplaySets(original));
+
+    expect(written.length).toBe(original.length);
+    for (let i = 0; i < original.length; i++) {
+        expect(written[i].presentationTimestamp).toBe(original[i].presentationTimestamp);
+        expect(written[i].presentationComposition).toEqual(original[i].presentationComposition);
+        expect(written[i].windowDefinitions).toEqual(original[i].windowDefinitions);
+        expect(written[i].paletteDefinitions).toEqual(original[i].paletteDefinitions);
+        expect(written[i].objectDefinitions).toEqual(original[i].objectDefinitions);
+    }
+});
+
+test('split large object into multiple segments', async () => {
+    // Alternating values can't be compressed, so this image exceeds the maximum segment size.
+    const width = 400;
+    const height = 200;
+    const indices = new Uint8Array(width * height);
+    for (let i = 0; i < indices.length; i++) {
+        indices[i] = 1 + (i % 2);
+    }
+
+    const displaySet = new DisplaySet();
+    displaySet.presentationTimestamp = 90000;
+    displaySet.objectDefinitions.push(ObjectDefinitionSegment.fromIndices(1, 0, width, height, indices));
+
+    const written = await readDisplaySets(writeDisplaySets([displaySet]));
+    expect(written.length).toBe(1);
+
+    const segments = written[0].objectDefinitions;
+    expect(segments.length).toBe(2);
+    expect(segments[0].isFirstInSequence).toBe(true);
+    expect(segments[0].isLastInSequence).toBe(false);
+    expect(segments[0].width).toBe(width);
+    expect(segments[0].height).toBe(height);
+    expect(segments[1].isFirstInSequence).toBe(false);
+    expect(segments[1].isLastInSequence).toBe(true);
+    expect(segments[0].data!.length + segments[1].data!.length).toBe(segments[0].dataLength - 4);
+});
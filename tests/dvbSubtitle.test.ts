@@ -0,0 +1,115 @@
+import {DvbSubtitleDecoder} from "../src/dvb/dvbSubtitleDecoder";
+import {Pgs} from "../src/pgs";
+import {SubtitleFormat} from "../src/subtitleFormat";
+import {RunLengthEncoding} from "../src/utils/runLengthEncoding";
+
+const segment = (type: number, pageId: number, data: number[]): number[] => [
+    0x0F, type, pageId >> 8, pageId & 0xFF, data.length >> 8, data.length & 0xFF, ...data
+];
+
+// A display set with an 8x2 region at (100, 900): the top line uses the CLUT entry 1, the bottom line is drawn with
+// a 2-bit pixel string that is mapped to the 4-bit entry 15.
+const subtitlePes = [
+    0x20, 0x00,
+    ...segment(0x14, 1, [0x00, 0x07, 0x7F, 0x04, 0x37 /* 1920x1080 */]),
+    ...segment(0x10, 1, [3 /* timeout */, 0x04 /* acquisition point */, 0x00, 0x00, 0x00, 100, 0x03, 0x84]),
+    ...segment(0x11, 1, [0x00, 0x08 /* fill */, 0x00, 8, 0x00, 2, 0x48 /* 4-bit */, 0x01 /* CLUT */, 0x00, 0x00,
+        0x00, 0x01, 0x00, 0x00, 0x00, 0x00 /* object 1 at (0, 0) */]),
+    ...segment(0x12, 1, [0x01, 0x00, 0x01, 0x41, 235, 128, 128, 0x00]),
+    ...segment(0x13, 1, [0x00, 0x01, 0x00, 0x00, 5, 0x00, 4,
+        0x11, 0x0B, 0x11, 0x00 /* 7x code 1, 1x code 1 */, 0xF0,
+        0x10, 0x37, 0x00 /* 8x code 3 */, 0xF0]),
+    ...segment(0x80, 1, []),
+    0xFF,
+];
+
+// An empty page removes the subtitle.
+const clearPes = [
+    0x20, 0x00,
+    ...segment(0x10, 1, [3, 0x00, 0x00]),
+    ...segment(0x80, 1, []),
+    0xFF,
+];
+
+test('decode dvb subtitle display set', () => {
+    const decoder = new DvbSubtitleDecoder();
+    const displaySets = decoder.decode(new Uint8Array(subtitlePes), 90000);
+    expect(displaySets.length).toBe(1);
+
+    const displaySet = displaySets[0];
+    expect(displaySet.presentationTimestamp).toBe(90000);
+    const pcs = displaySet.presentationComposition!;
+    expect(pcs.width).toBe(1920);
+    expect(pcs.height).toBe(1080);
+    expect(pcs.compositionState).toBe(0x80);
+    expect(pcs.compositionObjects.length).toBe(1);
+    expect(pcs.compositionObjects[0].horizontalPosition).toBe(100);
+    expect(pcs.compositionObjects[0].verticalPosition).toBe(900);
+
+    const palette = displaySet.paletteDefinitions[0];
+    expect(palette.entries.length).toBe(2);
+    expect(palette.entries[0].y).toBe(235);
+    expect(palette.entries[0].alpha).toBe(255);
+
+    const ods = displaySet.objectDefinitions[0];
+    expect(ods.width).toBe(8);
+    expect(ods.height).toBe(2);
+    const pixels = new Uint8Array(ods.width * ods.height);
+    RunLengthEncoding.decode(ods.data!, [0, 1], pixels);
+    expect(Array.from(pixels)).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1, 1, 1]);
+});
+
+test('clear dvb subtitle on empty page and time-out', () => {
+    const decoder = new DvbSubtitleDecoder();
+    expect(decoder.decode(new Uint8Array(subtitlePes), 90000).length).toBe(1);
+
+    const cleared = decoder.decode(new Uint8Array(clearPes), 180000);
+    expect(cleared.length).toBe(1);
+    expect(cleared[0].presentationComposition!.compositionObjects.length).toBe(0);
+    expect(decoder.flush().length).toBe(0);
+
+    // The page time-out removes the subtitle before the next update.
+    expect(decoder.decode(new Uint8Array(subtitlePes), 270000).length).toBe(1);
+    const timedOut = decoder.decode(new Uint8Array(subtitlePes), 270000 + 10 * 90000);
+    expect(timedOut.map(d => d.presentationTimestamp)).toEqual([270000 + 3 * 90000, 270000 + 10 * 90000]);
+    expect(decoder.flush().map(d => d.presentationTimestamp)).toEqual([270000 + 13 * 90000]);
+});
+
+test('load dvb subtitles from transport stream', async () => {
+    const tsPacket = (pid: number, payload: number[]): number[] => {
+        const stuffingLength = 183 - payload.length;
+        return [0x47, 0x40 | (pid >> 8), pid & 0xFF, 0x30, stuffingLength, 0x00,
+            ...new Array(stuffingLength - 1).fill(0xFF), ...payload];
+    };
+    const pesPacket = (presentationTimestamp: number, data: number[]): number[] => {
+        const length = 3 + 5 + data.length;
+        return [0x00, 0x00, 0x01, 0xBD, length >> 8, length & 0xFF, 0x81, 0x80, 5,
+            0x21 | ((presentationTimestamp >>> 29) & 0x0E), (presentationTimestamp >>> 22) & 0xFF,
+            ((presentationTimestamp >>> 14) & 0xFE) | 1, (presentationTimestamp >>> 7) & 0xFF,
+            ((presentationTimestamp << 1) & 0xFE) | 1, ...data];
+    };
+
+    const programAssociationTable = [0x00, 0x00, 0xB0, 13, 0x00, 0x01, 0xC1, 0x00, 0x00,
+        0x00, 0x01, 0xE1, 0x00, 0x00, 0x00, 0x00, 0x00];
+    // Stream type 0x06 with a subtitling descriptor: German, composition page 1, ancillary page 1.
+    const programMapTable = [0x00, 0x02, 0xB0, 28, 0x00, 0x01, 0xC1, 0x00, 0x00, 0xE1, 0x00, 0xF0, 0x00,
+        0x06, 0xE0, 0x80, 0xF0, 0x0A, 0x59, 0x08, 0x67, 0x65, 0x72, 0x10, 0x00, 0x01, 0x00, 0x01,
+        0x00, 0x00, 0x00, 0x00];
+
+    const file = [
+        ...tsPacket(0x0000, programAssociationTable),
+        ...tsPacket(0x0100, programMapTable),
+        ...tsPacket(0x0080, pesPacket(90000, subtitlePes)),
+        ...tsPacket(0x0080, pesPacket(180000, clearPes)),
+    ];
+
+    const pgs = new Pgs();
+    await pgs.loadFromBuffer(new Uint8Array(file).buffer, { format: SubtitleFormat.transportStream });
+
+    expect(pgs.updateTimestamps).toEqual([90000, 180000]);
+    const pcs = pgs.displaySets[0].presentationComposition!;
+    expect(pcs.width).toBe(1920);
+    expect(pcs.compositionObjects.length).toBe(1);
+    expect(pgs.displaySets[0].objectDefinitions[0].width).toBe(8);
+    expect(pgs.displaySets[1].presentationComposition!.compositionObjects.length).toBe(0);
+});
@@ -0,0 +1,28 @@
+import {EventEmitter} from "../src/utils/eventEmitter";
+
+interface TestEventMap {
+    progress: number;
+    loaded: void;
+}
+
+test('emit events to the registered listeners', () => {
+    const emitter = new EventEmitter<TestEventMap>();
+    const progress: number[] = [];
+    const onProgress = (value: number) => progress.push(value);
+    const onLoaded = jest.fn();
+    emitter.addEventListener('progress', onProgress);
+    emitter.addEventListener('loaded', onLoaded);
+    expect(emitter.hasEventListener('progress')).toBe(true);
+
+    emitter.emit('progress', 1);
+    emitter.emit('loaded', undefined);
+    emitter.removeEventListener('progress', onProgress);
+    emitter.emit('progress', 2);
+    expect(progress).toEqual([1]);
+    expect(onLoaded).toHaveBeenCalledTimes(1);
+    expect(emitter.hasEventListener('progress')).toBe(false);
+
+    emitter.clear();
+    emitter.emit('loaded', undefined);
+    expect(onLoaded).toHaveBeenCalledTimes(1);
+});
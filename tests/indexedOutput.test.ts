@@ -0,0 +1,47 @@
+import {Pgs} from "../src/pgs";
+import {WindowDefinition, WindowDefinitionSegment} from "../src/pgs/windowDefinitionSegment";
+import {PaletteEntry} from "../src/pgs/paletteDefinitionSegment";
+import {ObjectDefinitionSegment} from "../src/pgs/objectDefinitionSegment";
+import {createDisplaySet, createPalette} from "./testDisplaySets";
+
+const getAlpha = (color: number) => new Uint8Array(new Uint32Array([color]).buffer)[3];
+
+test('build palette indices and palette for indexed renderers', () => {
+    const epochStart = createDisplaySet(90000, 0x80, false);
+    const wds = new WindowDefinitionSegment();
+    const window = new WindowDefinition();
+    window.width = 3;
+    window.height = 1;
+    wds.windows.push(window);
+    epochStart.windowDefinitions.push(wds);
+    epochStart.paletteDefinitions.push(createPalette([
+        PaletteEntry.fromRgba(1, 255, 255, 255, 255),
+        PaletteEntry.fromRgba(2, 0, 0, 0, 255),
+    ]));
+    epochStart.objectDefinitions.push(ObjectDefinitionSegment.fromIndices(0, 0, 3, 1, [1, 2, 0]));
+
+    // Palette-only update: fades out the first entry.
+    const fade = createDisplaySet(180000, 0x00, true);
+    fade.paletteDefinitions.push(createPalette([PaletteEntry.fromRgba(1, 255, 255, 255, 0)]));
+
+    const pgs = new Pgs();
+    pgs.displaySets = [epochStart, fade];
+    pgs.invalidate();
+    pgs.setIndexedOutput(true);
+
+    const first = pgs.getSubtitleAtIndex(0)!;
+    const second = pgs.getSubtitleAtIndex(1)!;
+    const firstIndexData = first.compositionData[0].indexData!;
+    expect(first.compositionData[0].pixelData).toBeUndefined();
+    expect(firstIndexData.width).toBe(3);
+    expect(firstIndexData.height).toBe(1);
+    expect(Array.from(firstIndexData.indices)).toEqual([1, 2, 0]);
+
+    // The palette update only changes the palette. The decoded indices are reused.
+    expect(second.compositionData[0].indexData).toBe(firstIndexData);
+    expect(first.palette!.length).toBe(256);
+    expect(getAlpha(first.palette![1])).toBe(255);
+    expect(getAlpha(second.palette![1])).toBe(0);
+    expect(getAlpha(second.palette![2])).toBe(255);
+    expect(second.palette![0]).toBe(0);
+});
@@ -0,0 +1,151 @@
+import {MatroskaDemuxer} from "../src/matroska/matroskaDemuxer";
+import {MatroskaElementId} from "../src/matroska/matroskaElementId";
+import {ArrayBinaryReader} from "../src/utils/arrayBinaryReader";
+import {Pgs} from "../src/pgs";
+import {SubtitleFormat} from "../src/subtitleFormat";
+import * as fs from "node:fs";
+import * as zlib from "node:zlib";
+
+// Helper functions to build a minimal Matroska file.
+const encodeId = (id: number): number[] => {
+    const bytes: number[] = [];
+    while (id > 0) {
+        bytes.unshift(id & 0xFF);
+        id = Math.floor(id / 256);
+    }
+    return bytes;
+}
+
+const element = (id: number, data: number[] | Uint8Array): number[] => {
+    // Always using an 8-byte size.
+    const size = data.length;
+    return [...encodeId(id), 0x01, 0, 0, 0, (size >>> 24) & 0xFF, (size >> 16) & 0xFF, (size >> 8) & 0xFF,
+        size & 0xFF, ...Array.from(data)];
+}
+
+const unknownSizeElement = (id: number, data: number[]): number[] => {
+    return [...encodeId(id), 0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, ...data];
+}
+
+const uint = (id: number, value: number): number[] => element(id, [(value >>> 24) & 0xFF, (value >> 16) & 0xFF,
+    (value >> 8) & 0xFF, value & 0xFF]);
+const string = (id: number, value: string): number[] => element(id, Array.from(Buffer.from(value, 'utf-8')));
+
+const simpleBlock = (trackNumber: number, timestamp: number, data: Uint8Array): number[] => {
+    return element(MatroskaElementId.simpleBlock, [0x80 | trackNumber, (timestamp >> 8) & 0xFF, timestamp & 0xFF,
+        0x80, ...Array.from(data)]);
+}
+
+// Splits the sup file into display sets without the segment header, like stored in Matroska blocks.
+const readHeaderlessDisplaySets = (): { timestamp: number, data: Uint8Array }[] => {
+    const data = fs.readFileSync(`${__dirname}/files/test.sup`);
+    const result: { timestamp: number, data: Uint8Array }[] = [];
+    let segments: number[] = [];
+    let timestamp = -1;
+    let position = 0;
+    while (position < data.length) {
+        const presentationTimestamp = data.readUInt32BE(position + 2);
+        const type = data[position + 10];
+        const size = data.readUInt16BE(position + 11);
+        if (type === 0x16) {
+            timestamp = presentationTimestamp;
+        }
+        segments.push(...Array.from(data.subarray(position + 10, position + 13 + size)));
+        position += 13 + size;
+        if (type === 0x80) {
+            result.push({ timestamp: timestamp, data: new Uint8Array(segments) });
+            segments = [];
+        }
+    }
+    return result;
+}
+
+const buildMatroska = (contentEncodings: number[], encode: (data: Uint8Array) => Uint8Array): ArrayBuffer => {
+    const blocks: number[] = [];
+    for (const displaySet of readHeaderlessDisplaySets()) {
+        // Millisecond timestamps relative to the cluster timestamp.
+        blocks.push(...simpleBlock(2, displaySet.timestamp / 90, encode(displaySet.data)));
+        blocks.push(...simpleBlock(1, displaySet.timestamp / 90, new Uint8Array([0x00, 0x01, 0x02])));
+    }
+
+    const file = [
+        ...element(MatroskaElementId.ebml, string(0x4282, 'matroska')),
+        ...unknownSizeElement(MatroskaElementId.segment, [
+            ...element(MatroskaElementId.info, uint(MatroskaElementId.timestampScale, 1000000)),
+            ...element(MatroskaElementId.tracks, [
+                ...element(MatroskaElementId.trackEntry, [
+                    ...uint(MatroskaElementId.trackNumber, 1),
+                    ...uint(MatroskaElementId.trackType, 1),
+                    ...string(MatroskaElementId.codecId, 'V_MPEG4/ISO/AVC'),
+                ]),
+                ...element(MatroskaElementId.trackEntry, [
+                    ...uint(MatroskaElementId.trackNumber, 2),
+                    ...uint(MatroskaElementId.trackType, 0x11),
+                    ...string(MatroskaElementId.codecId, 'S_HDMV/PGS'),
+                    ...string(MatroskaElementId.language, 'ger'),
+                    ...string(MatroskaElementId.name, 'Forced'),
+                    ...uint(MatroskaElementId.flagDefault, 0),
+                    ...uint(MatroskaElementId.flagForced, 1),
+                    ...contentEncodings,
+                ]),
+            ]),
+            ...unknownSizeElement(MatroskaElementId.cluster, [
+                ...uint(MatroskaElementId.timestamp, 0),
+                ...blocks,
+            ]),
+        ]),
+    ];
+    return new Uint8Array(file).buffer;
+}
+
+test('read matroska tracks', async () => {
+    const buffer = buildMatroska([], data => data);
+    const demuxer = new MatroskaDemuxer(new ArrayBinaryReader(new Uint8Array(buffer)));
+    const tracks = await demuxer.readTracks();
+
+    expect(tracks.length).toBe(2);
+    expect(tracks[0].isPgs).toBe(false);
+    expect(tracks[1].isPgs).toBe(true);
+    expect(tracks[1].isSubtitle).toBe(true);
+    expect(tracks[1].number).toBe(2);
+    expect(tracks[1].language).toBe('ger');
+    expect(tracks[1].name).toBe('Forced');
+    expect(tracks[1].isDefault).toBe(false);
+    expect(tracks[1].isForced).toBe(true);
+});
+
+test('load pgs from matroska file and check timestamps', async () => {
+    const pgs = new Pgs();
+    await pgs.loadFromBuffer(buildMatroska([], data => data), { format: SubtitleFormat.matroska });
+
+    expect(pgs.updateTimestamps).toEqual([90000, 180000, 270000, 360000]);
+    expect(pgs.displaySets[0].presentationComposition?.compositionObjects.length).toBe(1);
+});
+
+test('load pgs from matroska file with header stripping', async () => {
+    const contentEncodings = element(MatroskaElementId.contentEncodings, element(MatroskaElementId.contentEncoding,
+        element(MatroskaElementId.contentCompression, [
+            ...uint(MatroskaElementId.contentCompAlgo, 3),
+            ...element(MatroskaElementId.contentCompSettings, [0x16]),
+        ])));
+
+    const pgs = new Pgs();
+    await pgs.loadFromBuffer(buildMatroska(contentEncodings, data => data.subarray(1)), {
+        format: SubtitleFormat.matroska,
+        trackNumber: 2,
+    });
+
+    expect(pgs.updateTimestamps).toEqual([90000, 180000, 270000, 360000]);
+});
+
+test('load pgs from matroska file with zlib compression', async () => {
+    const contentEncodings = element(MatroskaElementId.contentEncodings, element(MatroskaElementId.contentEncoding,
+        element(MatroskaElementId.contentCompression, uint(MatroskaElementId.contentCompAlgo, 0))));
+
+    const pgs = new Pgs();
+    await pgs.loadFromBuffer(buildMatroska(contentEncodings, data => new Uint8Array(zlib.deflateSync(data))), {
+        format: SubtitleFormat.matroska,
+    });
+
+    expect(pgs.updateTimestamps).toEqual([90000, 180000, 270000, 360000]);
+});
@@ -0,0 +1,107 @@
+import {PaletteDefinitionSegment, PaletteEntry} from "../src/pgs/paletteDefinitionSegment";
+import {PresentationCompositionSegment} from "../src/pgs/presentationCompositionSegment";
+import {ColorMatrix} from "../src/colorMatrix";
+import {ColorRange} from "../src/colorRange";
+import {Pgs} from "../src/pgs";
+import {PalettePreset} from "../src/palettePreset";
+
+const createPalette = (...colors: number[][]) => {
+    const palette = new PaletteDefinitionSegment();
+    colors.forEach(([y, cr, cb], id) => {
+        const entry = new PaletteEntry();
+        entry.id = id;
+        entry.y = y;
+        entry.cr = cr;
+        entry.cb = cb;
+        entry.alpha = 255;
+        palette.entries.push(entry);
+    });
+    return palette;
+}
+
+const getRgb = (palette: PaletteDefinitionSegment, id: number) => {
+    const data = new Uint8Array(new Uint32Array([palette.rgba[id]]).buffer);
+    return [data[0], data[1], data[2]];
+}
+
+// The quantized YCbCr values can be off by one after the conversion.
+const expectRgb = (actual: number[], expected: number[]) => {
+    actual.forEach((value, i) => expect(Math.abs(value - expected[i])).toBeLessThanOrEqual(1));
+}
+
+test('convert palette with full range BT.601', () => {
+    const palette = createPalette([255, 128, 128], [76, 255, 85]);
+    palette.updateRgba();
+
+    expect(getRgb(palette, 0)).toEqual([255, 255, 255]);
+    expect(getRgb(palette, 1)).toEqual([254, 0, 0]);
+});
+
+test('convert palette with limited range BT.709', () => {
+    // Limited range BT.709 white, black and red.
+    const palette = createPalette([235, 128, 128], [16, 128, 128], [63, 240, 102]);
+    palette.updateRgba(ColorMatrix.bt709, ColorRange.limited);
+
+    expect(getRgb(palette, 0)).toEqual([255, 255, 255]);
+    expect(getRgb(palette, 1)).toEqual([0, 0, 0]);
+    expectRgb(getRgb(palette, 2), [255, 0, 0]);
+});
+
+test('convert palette with limited range BT.2020', () => {
+    // Limited range BT.2020 green.
+    const palette = createPalette([164, 25, 47]);
+    palette.updateRgba(ColorMatrix.bt2020, ColorRange.limited);
+
+    expectRgb(getRgb(palette, 0), [0, 255, 0]);
+});
+
+test('select color matrix by video size', () => {
+    const composition = (width: number, height: number) => {
+        const pcs = new PresentationCompositionSegment();
+        pcs.width = width;
+        pcs.height = height;
+        return pcs;
+    };
+
+    const pgs = new Pgs();
+    expect(pgs.getColorMatrix(composition(1920, 1080))).toBe(ColorMatrix.bt601);
+
+    pgs.setColorConversion(ColorMatrix.auto, ColorRange.limited);
+    expect(pgs.getColorMatrix(composition(720, 480))).toBe(ColorMatrix.bt601);
+    expect(pgs.getColorMatrix(composition(720, 576))).toBe(ColorMatrix.bt601);
+    expect(pgs.getColorMatrix(composition(1280, 720))).toBe(ColorMatrix.bt709);
+    expect(pgs.getColorMatrix(composition(1920, 1080))).toBe(ColorMatrix.bt709);
+    expect(pgs.getColorMatrix(composition(3840, 2160))).toBe(ColorMatrix.bt2020);
+});
+
+test('adjust palette brightness, gamma and opacity', () => {
+    const palette = createPalette([255, 128, 128], [128, 128, 128]);
+    palette.updateRgba(ColorMatrix.bt601, ColorRange.full, { brightness: 0.5, gamma: 2, opacity: 0.5 });
+
+    expect(getRgb(palette, 0)).toEqual([128, 128, 128]);
+    expect(getRgb(palette, 1)).toEqual([32, 32, 32]);
+    expect(new Uint8Array(new Uint32Array([palette.rgba[0]]).buffer)[3]).toBe(128);
+
+    // Without adjustment, the original colors are restored.
+    palette.updateRgba();
+    expect(getRgb(palette, 0)).toEqual([255, 255, 255]);
+});
+
+test('remap palette with presets and tint', () => {
+    const palette = createPalette([255, 128, 128], [128, 128, 128], [0, 128, 128]);
+    palette.entries[1].alpha = 64;
+
+    palette.updateRgba(ColorMatrix.bt601, ColorRange.full, undefined, { palette: PalettePreset.yellow });
+    expect(getRgb(palette, 0)).toEqual([255, 255, 0]);
+    expect(getRgb(palette, 1)).toEqual([128, 128, 0]);
+    expect(getRgb(palette, 2)).toEqual([0, 0, 0]);
+    expect(new Uint8Array(new Uint32Array([palette.rgba[1]]).buffer)[3]).toBe(64);
+
+    // High contrast removes the transparency and intermediate colors.
+    palette.updateRgba(ColorMatrix.bt601, ColorRange.full, undefined, { palette: PalettePreset.highContrast });
+    expect(getRgb(palette, 1)).toEqual([255, 255, 255]);
+    expect(new Uint8Array(new Uint32Array([palette.rgba[1]]).buffer)[3]).toBe(255);
+
+    palette.updateRgba(ColorMatrix.bt601, ColorRange.full, undefined, { tint: '#ff8000' });
+    expect(getRgb(palette, 0)).toEqual([255, 128, 0]);
+});
@@ -1,5 +1,11 @@
 import {Pgs} from "../src/pgs";
 import * as fs from "node:fs";
+import {WindowDefinition, WindowDefinitionSegment} from "../src/pgs/windowDefinitionSegment";
+import {PaletteEntry} from "../src/pgs/paletteDefinitionSegment";
+import {ObjectDefinitionSegment} from "../src/pgs/objectDefinitionSegment";
+import {SubtitleLoadError} from "../src/subtitleLoadError";
+import {SubtitleLoadErrorReason} from "../src/subtitleLoadErrorReason";
+import {createDisplaySet, createPalette} from "./testDisplaySets";
 
 beforeEach(() => {
   // This makes `ImageData` available in Jest.
@@ -16,6 +22,97 @@ test('load pgs from file and check timestamps', async () => {
   expect(pgs.updateTimestamps).toEqual([90000, 180000, 270000, 360000]);
 });
 
+test('report loading progress', async () => {
+  const pgs = new Pgs();
+  const dataSup = fs.readFileSync(`${__dirname}/files/test.sup`);
+  const uint8Array = new Uint8Array(dataSup);
+  const onProgress = jest.fn();
+  await pgs.loadFromBuffer(uint8Array.buffer as ArrayBuffer, { onProgress });
+
+  // The final update reports the whole file.
+  expect(onProgress).toHaveBeenLastCalledWith({
+    loadedBytes: uint8Array.length,
+    totalBytes: uint8Array.length,
+    displaySets: 4
+  });
+});
+
+test('resolve loads with the track info', async () => {
+  const pgs = new Pgs();
+  const dataSup = fs.readFileSync(`${__dirname}/files/test.sup`);
+  const info = await pgs.loadFromBuffer(new Uint8Array(dataSup).buffer as ArrayBuffer);
+  expect(info).toEqual({ width: 128, height: 64, displaySetCount: 4, duration: 3 });
+});
+
+test('cancel loads', async () => {
+  const pgs = new Pgs();
+  const dataSup = fs.readFileSync(`${__dirname}/files/test.sup`);
+
+  const controller = new AbortController();
+  controller.abort();
+  const aborted = pgs.loadFromBuffer(new Uint8Array(dataSup).buffer as ArrayBuffer, { signal: controller.signal });
+  await expect(aborted).rejects.toBeInstanceOf(SubtitleLoadError);
+  await expect(aborted).rejects.toMatchObject({ reason: SubtitleLoadErrorReason.aborted });
+
+  // A new load cancels the previous one before it adds any display set.
+  const first = pgs.loadFromBuffer(new Uint8Array(dataSup).buffer as ArrayBuffer);
+  const second = pgs.loadFromBuffer(new Uint8Array(dataSup).buffer as ArrayBuffer);
+  await expect(first).rejects.toMatchObject({ reason: SubtitleLoadErrorReason.aborted });
+  await expect(second).resolves.toMatchObject({ displaySetCount: 4 });
+  expect(pgs.displaySets.length).toBe(4);
+});
+
+test('load urls with request options and retry unauthorized requests', async () => {
+  const dataSup = fs.readFileSync(`${__dirname}/files/test.sup`);
+  const requests: RequestInit[] = [];
+  const loader = jest.fn(async (url: string, init: RequestInit) => {
+    requests.push(init);
+    const authorization = (init.headers as Record<string, string>).Authorization;
+    return authorization === 'Bearer new' ? new Response(new Uint8Array(dataSup)) : new Response(null, { status: 401 });
+  });
+  const onUnauthorized = jest.fn(async (url: string, init: RequestInit) =>
+    ({ ...init, headers: { Authorization: 'Bearer new' } }));
+
+  const info = await new Pgs().loadFromUrl('./subtitle.sup', {
+    requestInit: { headers: { Authorization: 'Bearer old' }, credentials: 'include' },
+    loader,
+    onUnauthorized
+  });
+  expect(info.displaySetCount).toBe(4);
+  expect(loader).toHaveBeenCalledTimes(2);
+  expect(requests[0]).toMatchObject({ headers: { Authorization: 'Bearer old' }, credentials: 'include' });
+  expect(requests[0].signal).toBeDefined();
+  expect(requests[1]).toMatchObject({ headers: { Authorization: 'Bearer new' }, credentials: 'include' });
+  expect(onUnauthorized).toHaveBeenCalledWith('./subtitle.sup', requests[0]);
+});
+
+test('cancel the request of the loader', async () => {
+  let request: RequestInit | undefined;
+  const loader = jest.fn((url: string, init: RequestInit) => new Promise<Response>((resolve, reject) => {
+    request = init;
+    init.signal?.addEventListener('abort', () => reject(new Error('The request was aborted.')));
+  }));
+
+  const pgs = new Pgs();
+  const load = pgs.loadFromUrl('./subtitle.sup', { loader });
+  expect(request?.signal?.aborted).toBe(false);
+  pgs.abortLoad();
+  expect(request?.signal?.aborted).toBe(true);
+  await expect(load).rejects.toMatchObject({ reason: SubtitleLoadErrorReason.aborted });
+});
+
+test('reject failed downloads with network errors', async () => {
+  const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({ ok: false, status: 404 } as Response);
+  try {
+    await expect(new Pgs().loadFromUrl('./missing.sup')).rejects.toMatchObject({
+      reason: SubtitleLoadErrorReason.network,
+      message: 'HTTP error: 404'
+    });
+  } finally {
+    fetchMock.mockRestore();
+  }
+});
+
 test('load pgs from file and get first subtitle', async () => {
   const pgs = new Pgs();
   const dataSup = fs.readFileSync(`${__dirname}/files/test.sup`);
@@ -33,3 +130,65 @@ test('load pgs from file and get first subtitle', async () => {
   expect(subtitle!.compositionData[0].window.horizontalPosition).toBe(4);
   expect(subtitle!.compositionData[0].window.verticalPosition).toBe(32);
 });
+
+test('append segments without header and compare with pgs file', async () => {
+  const dataSup = fs.readFileSync(`${__dirname}/files/test.sup`);
+  const expected = new Pgs();
+  await expected.loadFromBuffer(new Uint8Array(dataSup).buffer as ArrayBuffer);
+
+  // Every segment is split into two packets with the timestamps from the segment header.
+  const pgs = new Pgs();
+  let position = 0;
+  while (position < dataSup.length) {
+    const presentationTimestamp = dataSup.readUInt32BE(position + 2);
+    const decodingTimestamp = dataSup.readUInt32BE(position + 6);
+    const size = dataSup.readUInt16BE(position + 11);
+    const segment = new Uint8Array(dataSup.subarray(position + 10, position + 13 + size));
+    position += 13 + size;
+
+    const middle = segment.length >> 1;
+    await pgs.appendSegments(segment.subarray(0, middle), presentationTimestamp, decodingTimestamp);
+    await pgs.appendSegments(segment.subarray(middle), presentationTimestamp, decodingTimestamp);
+  }
+
+  expect(pgs.updateTimestamps).toEqual(expected.updateTimestamps);
+  expect(pgs.displaySets).toEqual(expected.displaySets);
+});
+
+test('apply palette updates and object versions within an epoch', () => {
+  // Epoch start with a two pixel object using the palette entries 1 and 2.
+  const epochStart = createDisplaySet(90000, 0x80, false);
+  const wds = new WindowDefinitionSegment();
+  const window = new WindowDefinition();
+  window.width = 2;
+  window.height = 1;
+  wds.windows.push(window);
+  epochStart.windowDefinitions.push(wds);
+  epochStart.paletteDefinitions.push(createPalette([
+    PaletteEntry.fromRgba(1, 255, 255, 255, 255),
+    PaletteEntry.fromRgba(2, 0, 0, 0, 255),
+  ]));
+  epochStart.objectDefinitions.push(ObjectDefinitionSegment.fromIndices(0, 0, 2, 1, [1, 2]));
+
+  // Palette-only update: fades out the first entry and keeps the second entry.
+  const fade = createDisplaySet(180000, 0x00, true);
+  fade.paletteDefinitions.push(createPalette([PaletteEntry.fromRgba(1, 255, 255, 255, 0)], 1));
+
+  // Normal case: replaces the object with a new version.
+  const redefine = createDisplaySet(270000, 0x00, false);
+  redefine.objectDefinitions.push(ObjectDefinitionSegment.fromIndices(0, 1, 2, 1, [2, 2]));
+
+  const pgs = new Pgs();
+  pgs.displaySets = [epochStart, fade, redefine];
+  pgs.invalidate();
+
+  const alpha = (index: number) => Array.from(pgs.getSubtitleAtIndex(index)!.compositionData[0].pixelData!.data)
+    .filter((_, i) => i % 4 === 3);
+  const red = (index: number) => Array.from(pgs.getSubtitleAtIndex(index)!.compositionData[0].pixelData!.data)
+    .filter((_, i) => i % 4 === 0);
+
+  expect(alpha(0)).toEqual([255, 255]);
+  expect(alpha(1)).toEqual([0, 255]);
+  expect(red(2)).toEqual([0, 0]);
+  expect(alpha(2)).toEqual([255, 255]);
+});
@@ -0,0 +1,50 @@
+import {PixelArtScaler} from "../src/utils/pixelArtScaler";
+import {PgsRendererHelper} from "../src/pgsRendererHelper";
+
+test('smooth diagonal edges with scale2x', () => {
+    // A filled triangle with a diagonal edge.
+    const source = new Uint32Array([
+        1, 0,
+        1, 1,
+    ]);
+    const target = PixelArtScaler.scale2x(source, 2, 2);
+
+    expect(Array.from(target)).toEqual([
+        1, 1, 0, 0,
+        1, 1, 1, 0,
+        1, 1, 1, 1,
+        1, 1, 1, 1,
+    ]);
+});
+
+test('keep straight edges with scale2x', () => {
+    const source = new Uint32Array([
+        1, 1,
+        0, 0,
+    ]);
+    const target = PixelArtScaler.scale2x(source, 2, 2);
+
+    expect(Array.from(target)).toEqual([
+        1, 1, 1, 1,
+        1, 1, 1, 1,
+        0, 0, 0, 0,
+        0, 0, 0, 0,
+    ]);
+});
+
+test('select power of two scale factor', () => {
+    expect(PixelArtScaler.getScaleFactor(1)).toBe(1);
+    expect(PixelArtScaler.getScaleFactor(1.5)).toBe(2);
+    expect(PixelArtScaler.getScaleFactor(3)).toBe(4);
+    expect(PixelArtScaler.getScaleFactor(6)).toBe(4);
+});
+
+test('fit subtitle into viewport', () => {
+    // A 720p subtitle on a 4K canvas with a different aspect ratio.
+    expect(PgsRendererHelper.getViewportTransform(1280, 720, { width: 3840, height: 2400, aspectRatio: 'contain' }))
+        .toEqual({ scaleX: 3, scaleY: 3, offsetX: 0, offsetY: 120 });
+    expect(PgsRendererHelper.getViewportTransform(1280, 720, { width: 3840, height: 2400, aspectRatio: 'cover' }))
+        .toEqual({ scaleX: 2400 / 720, scaleY: 2400 / 720, offsetX: (3840 - 1280 * 2400 / 720) / 2, offsetY: 0 });
+    expect(PgsRendererHelper.getViewportTransform(1280, 720, { width: 3840, height: 2400, aspectRatio: 'fill' }))
+        .toEqual({ scaleX: 3, scaleY: 2400 / 720, offsetX: 0, offsetY: 0 });
+});
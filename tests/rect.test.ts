@@ -61,3 +61,25 @@ test('grow rect in negative y direction', () => {
     expect(rect.width).toBe(2);
     expect(rect.height).toBe(6);
 });
+
+test('intersect overlapping rect', () => {
+    const rect = new Rect();
+
+    rect.set(1, 1, 4, 4);
+    rect.intersect(3, 0, 4, 2);
+
+    expect(rect.empty).toBe(false);
+    expect(rect.x).toBe(3);
+    expect(rect.y).toBe(1);
+    expect(rect.width).toBe(2);
+    expect(rect.height).toBe(1);
+});
+
+test('intersect separate rect', () => {
+    const rect = new Rect();
+
+    rect.set(1, 1, 2, 2);
+    rect.intersect(3, 1, 2, 2);
+
+    expect(rect.empty).toBe(true);
+});
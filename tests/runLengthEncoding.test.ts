@@ -72,3 +72,36 @@ test('522x1 run length decode with repeating byte', () => {
         expect(output[i]).toBe(0x01);
     }
 });
+
+test('2x2 run length encode with linebreak', () => {
+    const data = RunLengthEncoding.encode([0x01, 0x02, 0x03, 0x04], 2, 2);
+
+    expect(Array.from(data)).toEqual([
+        0x01, 0x02, 0x00, 0x00 /* line break */,
+        0x03, 0x04, 0x00, 0x00 /* line break */
+    ]);
+});
+
+test('522x1 run length encode with repeating byte', () => {
+    const source = new Uint8Array(522).fill(0x01);
+    const data = RunLengthEncoding.encode(source, 522, 1);
+
+    expect(Array.from(data)).toEqual([
+        0x00, 0x02 | (1 << 7) | (1 << 6), 0x0A, 0x01, 0x00, 0x00 /* line break */
+    ]);
+});
+
+test('run length encode and decode mixed lines', () => {
+    const width = 100;
+    const height = 3;
+    const source = new Uint8Array(width * height);
+    for (let i = 0; i < source.length; i++) {
+        source[i] = i % 7 === 0 ? 0x00 : (i >> 4) & 0xFF;
+    }
+    const map = Array.from({length: 256}, (_, i) => i);
+    const output = new Uint8Array(width * height);
+    const length = RunLengthEncoding.decode(RunLengthEncoding.encode(source, width, height), map, output);
+
+    expect(length).toBe(width * height);
+    expect(Array.from(output)).toEqual(Array.from(source));
+});
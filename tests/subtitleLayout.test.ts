@@ -0,0 +1,119 @@
+import {PgsRendererHelper} from "../src/pgsRendererHelper";
+import {SubtitleCompositionData, SubtitleData, SubtitleIndexData} from "../src/subtitleData";
+import {CompositionObject} from "../src/pgs/presentationCompositionSegment";
+import {WindowDefinition} from "../src/pgs/windowDefinitionSegment";
+import {Rect} from "../src/utils/rect";
+
+// A 400x100 subtitle object at the bottom of a 1920x1080 subtitle.
+const createComposition = () => {
+    const compositionObject = new CompositionObject();
+    compositionObject.horizontalPosition = 760;
+    compositionObject.verticalPosition = 900;
+    const window = new WindowDefinition();
+    window.horizontalPosition = 760;
+    window.verticalPosition = 900;
+    window.width = 400;
+    window.height = 100;
+    return new SubtitleCompositionData(compositionObject, window, undefined,
+        new SubtitleIndexData(1, 400, 100, new Uint8Array(400 * 100)));
+};
+
+test('scale subtitles around the bottom-centre', () => {
+    const compositions = [createComposition()];
+    expect(PgsRendererHelper.getLayoutTransform(1920, 1080, compositions,
+        { verticalOffset: 0, scale: 2, safeAreaInset: 0 }))
+        .toEqual({ scaleX: 2, scaleY: 2, offsetX: -960, offsetY: -1000 });
+    expect(PgsRendererHelper.getLayoutTransform(1920, 1080, compositions,
+        { verticalOffset: 0.1, scale: 1, safeAreaInset: 0 }))
+        .toEqual({ scaleX: 1, scaleY: 1, offsetX: 0, offsetY: -108 });
+
+    // Nothing is visible, so there is nothing to move.
+    expect(PgsRendererHelper.getLayoutTransform(1920, 1080, [],
+        { verticalOffset: 0.1, scale: 2, safeAreaInset: 0 }))
+        .toEqual(PgsRendererHelper.identityTransform);
+});
+
+test('keep subtitles inside the safe area', () => {
+    const compositions = [createComposition()];
+    // Moved down by 108 pixels, but the bottom edge must stay above 972.
+    expect(PgsRendererHelper.getLayoutTransform(1920, 1080, compositions,
+        { verticalOffset: -0.1, scale: 1, safeAreaInset: 0.1 }))
+        .toEqual({ scaleX: 1, scaleY: 1, offsetX: 0, offsetY: -28 });
+    // Subtitles larger than the safe area are centered.
+    expect(PgsRendererHelper.getLayoutTransform(1920, 1080, compositions,
+        { verticalOffset: 0, scale: 10, safeAreaInset: 0.1 }))
+        .toEqual({ scaleX: 10, scaleY: 10, offsetX: -8640, offsetY: -8960 });
+});
+
+test('apply layout before the viewport scaling', () => {
+    const compositions = [createComposition()];
+    const subtitleData = new SubtitleData(1920, 1080, compositions);
+    const layout = { verticalOffset: 0.1, scale: 1, safeAreaInset: 0 };
+    expect(PgsRendererHelper.getSubtitleTransform(subtitleData, compositions, layout,
+        { width: 3840, height: 2160, aspectRatio: 'contain' }))
+        .toEqual({ scaleX: 2, scaleY: 2, offsetX: 0, offsetY: -216 });
+    expect(PgsRendererHelper.isIdentityTransform(PgsRendererHelper.getSubtitleTransform(subtitleData, compositions,
+        { verticalOffset: 0, scale: 1, safeAreaInset: 0.05 }))).toBe(true);
+});
+
+test('get visible region of cropped subtitles', () => {
+    const region = new Rect();
+    // A vertical phone screen only shows the centre of the video.
+    PgsRendererHelper.getVisibleRegion(1920, 1080, { width: 1080, height: 1920, aspectRatio: 'cover' }, region);
+    expect(region).toMatchObject({ empty: false, x: 657, y: 0, width: 606, height: 1080 });
+    PgsRendererHelper.getVisibleRegion(1920, 1080, { width: 1080, height: 1920, aspectRatio: 'contain' }, region);
+    expect(region).toMatchObject({ empty: false, x: 0, y: 0, width: 1920, height: 1080 });
+    PgsRendererHelper.getVisibleRegion(1920, 1080, undefined, region);
+    expect(region.empty).toBe(true);
+});
+
+test('move cropped subtitles into the visible region', () => {
+    const region = new Rect();
+    region.set(657, 0, 606, 1080);
+
+    // Visible subtitles keep their position.
+    const area = new Rect();
+    area.set(760, 900, 400, 100);
+    PgsRendererHelper.moveIntoRegion(area, region);
+    expect(area).toMatchObject({ x: 760, y: 900 });
+
+    area.set(1000, 900, 400, 100);
+    PgsRendererHelper.moveIntoRegion(area, region);
+    expect(area).toMatchObject({ x: 863, y: 900 });
+
+    // Subtitles wider than the region are centered.
+    area.set(0, 900, 1000, 100);
+    PgsRendererHelper.moveIntoRegion(area, region);
+    expect(area).toMatchObject({ x: 460, y: 900 });
+
+    // Nothing is moved without region.
+    area.set(0, 900, 400, 100);
+    PgsRendererHelper.moveIntoRegion(area, new Rect());
+    expect(area).toMatchObject({ x: 0, y: 900 });
+});
+
+test('keep safe area inside the visible region', () => {
+    const region = new Rect();
+    region.set(0, 100, 1920, 880);
+    // The composition is moved into the region first. Its bottom edge must then stay above 980 - 44.
+    expect(PgsRendererHelper.getLayoutTransform(1920, 1080, [createComposition()],
+        { verticalOffset: 0, scale: 1, safeAreaInset: 0.05 }, region))
+        .toEqual({ scaleX: 1, scaleY: 1, offsetX: 0, offsetY: -44 });
+});
+
+test('crop plain compositions from the worker', () => {
+    const composition = createComposition();
+    composition.compositionObject.croppedFlag = 0x80;
+    composition.compositionObject.croppingHorizontalPosition = 100;
+    composition.compositionObject.croppingWidth = 200;
+    composition.compositionObject.croppingHeight = 100;
+
+    // Structured clones lose the prototype and its getters.
+    const plain = {
+        compositionObject: { ...composition.compositionObject },
+        window: { ...composition.window }
+    } as SubtitleCompositionData;
+    const area = new Rect();
+    PgsRendererHelper.getVisibleArea(plain, 400, 100, area);
+    expect(area).toMatchObject({ x: 860, y: 900, width: 200, height: 100 });
+});
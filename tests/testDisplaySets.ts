@@ -0,0 +1,40 @@
+import {DisplaySet} from "../src/pgs/displaySet";
+import {CompositionObject, PresentationCompositionSegment} from "../src/pgs/presentationCompositionSegment";
+import {PaletteDefinitionSegment, PaletteEntry} from "../src/pgs/paletteDefinitionSegment";
+
+/**
+ * Creates a 16x16 display set that shows the object with id 0 once for every cropped flag.
+ * @param timestamp The presentation timestamp.
+ * @param compositionState The composition state, e.g. 0x80 for an epoch start.
+ * @param paletteUpdate If true, the display set only updates the palette.
+ * @param croppedFlags The cropped flag of every composition object, e.g. 0x40 for forced compositions.
+ */
+export const createDisplaySet = (timestamp: number, compositionState: number, paletteUpdate: boolean,
+                                 croppedFlags: number[] = [0x00]): DisplaySet => {
+    const displaySet = new DisplaySet();
+    displaySet.presentationTimestamp = timestamp;
+    const pcs = new PresentationCompositionSegment();
+    pcs.width = 16;
+    pcs.height = 16;
+    pcs.compositionState = compositionState;
+    pcs.paletteUpdateFlag = paletteUpdate ? 0x80 : 0x00;
+    for (const croppedFlag of croppedFlags) {
+        const compositionObject = new CompositionObject();
+        compositionObject.croppedFlag = croppedFlag;
+        pcs.compositionObjects.push(compositionObject);
+    }
+    displaySet.presentationComposition = pcs;
+    return displaySet;
+};
+
+/**
+ * Creates a palette definition with the given entries.
+ * @param entries The palette entries.
+ * @param versionNumber The palette version.
+ */
+export const createPalette = (entries: PaletteEntry[], versionNumber: number = 0): PaletteDefinitionSegment => {
+    const pds = new PaletteDefinitionSegment();
+    pds.versionNumber = versionNumber;
+    pds.entries = entries;
+    return pds;
+};
@@ -0,0 +1,54 @@
+import {TimestampNormalizer} from "../src/utils/timestampNormalizer";
+import {Pgs} from "../src/pgs";
+import {DisplaySet} from "../src/pgs/displaySet";
+
+test('keep increasing timestamps', () => {
+    const normalizer = new TimestampNormalizer();
+
+    expect(normalizer.normalize(90000)).toBe(90000);
+    expect(normalizer.normalize(180000)).toBe(180000);
+    expect(normalizer.normalize(180000)).toBe(180000);
+    expect(normalizer.normalize(0xF0000000)).toBe(0xF0000000);
+});
+
+test('detect 32-bit wraparound', () => {
+    const normalizer = new TimestampNormalizer();
+
+    expect(normalizer.normalize(0xFFFFF000)).toBe(0xFFFFF000);
+    expect(normalizer.normalize(0x100)).toBe(0x100000100);
+    expect(normalizer.normalize(0x200)).toBe(0x100000200);
+});
+
+test('detect 33-bit wraparound', () => {
+    const normalizer = new TimestampNormalizer();
+
+    expect(normalizer.normalize(0x1FFFFF000)).toBe(0x1FFFFF000);
+    expect(normalizer.normalize(0x100)).toBe(0x200000100);
+});
+
+test('continue after discontinuity', () => {
+    const normalizer = new TimestampNormalizer();
+
+    expect(normalizer.normalize(900000)).toBe(900000);
+    expect(normalizer.normalize(1800000)).toBe(1800000);
+    // The clock jumps back, e.g. at the start of a concatenated file.
+    expect(normalizer.normalize(90000)).toBe(1800000);
+    expect(normalizer.normalize(180000)).toBe(1890000);
+
+    normalizer.reset();
+    expect(normalizer.normalize(90000)).toBe(90000);
+});
+
+test('normalize update timestamps of display sets', () => {
+    const pgs = new Pgs();
+    pgs.displaySets = [0xFFFFF000, 0x100, 0x200].map(timestamp => {
+        const displaySet = new DisplaySet();
+        displaySet.presentationTimestamp = timestamp;
+        return displaySet;
+    });
+    pgs.invalidate();
+
+    expect(pgs.updateTimestamps).toEqual([0xFFFFF000, 0x100000100, 0x100000200]);
+    // The raw timestamps are kept to write the file.
+    expect(pgs.displaySets[1].presentationTimestamp).toBe(0x100);
+});
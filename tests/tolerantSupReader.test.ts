@@ -0,0 +1,113 @@
+import {Pgs} from "../src/pgs";
+import {SubtitleDiagnostic} from "../src/subtitleDiagnostic";
+import * as fs from "node:fs";
+
+const loadSegments = (): Uint8Array[] => {
+    const data = new Uint8Array(fs.readFileSync(`${__dirname}/files/test.sup`));
+    const segments: Uint8Array[] = [];
+    let position = 0;
+    while (position < data.length) {
+        const size = (data[position + 11] << 8) | data[position + 12];
+        segments.push(data.subarray(position, position + 13 + size));
+        position += 13 + size;
+    }
+    return segments;
+}
+
+const concat = (parts: Uint8Array[]) => {
+    const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+const loadWithRecovery = async (data: Uint8Array): Promise<{ pgs: Pgs, diagnostics: SubtitleDiagnostic[] }> => {
+    const pgs = new Pgs();
+    const diagnostics: SubtitleDiagnostic[] = [];
+    await pgs.loadFromBuffer(data.slice().buffer, {
+        errorRecovery: true,
+        onDiagnostic: (diagnostic) => diagnostics.push(diagnostic),
+    });
+    return { pgs, diagnostics };
+}
+
+test('load valid pgs file with error recovery', async () => {
+    const data = concat(loadSegments());
+    const expected = new Pgs();
+    await expected.loadFromBuffer(data.slice().buffer);
+
+    const { pgs, diagnostics } = await loadWithRecovery(data);
+    expect(diagnostics).toEqual([]);
+    expect(pgs.updateTimestamps).toEqual(expected.updateTimestamps);
+});
+
+test('resynchronize after corrupt data', async () => {
+    const segments = loadSegments();
+    const expected = new Pgs();
+    await expected.loadFromBuffer(concat(segments).buffer);
+
+    const garbage = new Uint8Array([0x01, 0x50, 0x47, 0x02, 0x03, 0x04, 0x05]);
+    const garbageOffset = segments.slice(0, 3).reduce((length, segment) => length + segment.length, 0);
+    const data = concat([...segments.slice(0, 3), garbage, ...segments.slice(3)]);
+
+    await expect(new Pgs().loadFromBuffer(data.slice().buffer)).rejects.toThrow('Invalid magic number!');
+
+    const { pgs, diagnostics } = await loadWithRecovery(data);
+    expect(diagnostics.length).toBe(2);
+    expect(diagnostics[0]).toEqual({ offset: garbageOffset, reason: 'Invalid magic number' });
+    expect(diagnostics[1].reason).toBe(`Skipped ${garbage.length} bytes to resynchronize`);
+    expect(pgs.updateTimestamps).toEqual(expected.updateTimestamps);
+});
+
+test('skip unknown segments and truncated data', async () => {
+    const segments = loadSegments();
+    const expected = new Pgs();
+    await expected.loadFromBuffer(concat(segments).buffer);
+
+    const unknownSegment = new Uint8Array([0x50, 0x47, 0, 0, 0, 0, 0, 0, 0, 0, 0x99, 0x00, 0x02, 0xAA, 0xBB]);
+    const lastSegment = segments[segments.length - 1];
+    const data = concat([unknownSegment, ...segments, lastSegment.subarray(0, 5)]);
+
+    const { pgs, diagnostics } = await loadWithRecovery(data);
+    expect(diagnostics.map(d => d.reason)).toEqual([
+        'Skipped unsupported segment type 153',
+        'Skipped 5 bytes of truncated data at the end of the file',
+    ]);
+    expect(diagnostics[1].offset).toBe(data.length - 5);
+    expect(pgs.updateTimestamps).toEqual(expected.updateTimestamps);
+});
+
+test('recover display set with missing end segment', async () => {
+    const segments = loadSegments();
+    const expected = new Pgs();
+    await expected.loadFromBuffer(concat(segments).buffer);
+
+    // Removes the first end segment.
+    const endIndex = segments.findIndex(segment => segment[10] === 0x80);
+    const data = concat([...segments.slice(0, endIndex), ...segments.slice(endIndex + 1)]);
+
+    const { pgs, diagnostics } = await loadWithRecovery(data);
+    expect(diagnostics).toEqual([{ offset: 0, reason: 'Missing end segment' }]);
+    expect(pgs.updateTimestamps).toEqual(expected.updateTimestamps);
+});
+
+test('resynchronize after a damaged segment size', async () => {
+    const segments = loadSegments();
+    const expected = new Pgs();
+    await expected.loadFromBuffer(concat(segments).buffer);
+
+    // The window definition of the clearing display set claims to contain the next display set.
+    const data = concat(segments);
+    const windowOffset = segments.slice(0, 6).reduce((length, segment) => length + segment.length, 0);
+    data[windowOffset + 12] = 60;
+
+    const { pgs, diagnostics } = await loadWithRecovery(data);
+    expect(diagnostics).toEqual([
+        { offset: windowOffset, reason: 'Invalid segment size 60' },
+        { offset: windowOffset, reason: `Skipped ${segments[6].length} bytes to resynchronize` },
+    ]);
+    expect(pgs.updateTimestamps).toEqual(expected.updateTimestamps);
+});
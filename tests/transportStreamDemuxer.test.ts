@@ -0,0 +1,107 @@
+import {TransportStreamDemuxer} from "../src/mpegts/transportStreamDemuxer";
+import {Pgs} from "../src/pgs";
+import {SubtitleFormat} from "../src/subtitleFormat";
+import * as fs from "node:fs";
+
+// Helper functions to build a minimal transport stream.
+const tsPacket = (pid: number, payloadUnitStart: boolean, payload: number[]): number[] => {
+    const header = [0x47, (payloadUnitStart ? 0x40 : 0x00) | (pid >> 8), pid & 0xFF];
+    if (payload.length >= 184) {
+        return [...header, 0x10, ...payload.slice(0, 184)];
+    }
+
+    // Filling the packet with an adaptation field.
+    const stuffingLength = 183 - payload.length;
+    const adaptationField = stuffingLength === 0 ? [0] : [stuffingLength, 0x00,
+        ...new Array(stuffingLength - 1).fill(0xFF)];
+    return [...header, 0x30, ...adaptationField, ...payload];
+}
+
+const packetize = (pid: number, data: number[]): number[] => {
+    const packets: number[] = [];
+    for (let offset = 0; offset < data.length; offset += 184) {
+        packets.push(...tsPacket(pid, offset === 0, data.slice(offset, offset + 184)));
+    }
+    return packets;
+}
+
+const timestamp = (prefix: number, value: number): number[] => [
+    (prefix << 4) | ((value >>> 29) & 0x0E) | 1, (value >>> 22) & 0xFF, ((value >>> 14) & 0xFE) | 1,
+    (value >>> 7) & 0xFF, ((value << 1) & 0xFE) | 1
+];
+
+const pesPacket = (presentationTimestamp: number, decodingTimestamp: number, data: number[]): number[] => {
+    const length = 3 + 10 + data.length;
+    return [0x00, 0x00, 0x01, 0xBD, length >> 8, length & 0xFF, 0x81, 0xC0, 10,
+        ...timestamp(0x03, presentationTimestamp), ...timestamp(0x01, decodingTimestamp), ...data];
+}
+
+const programAssociationTable = [0x00, 0x00, 0xB0, 13, 0x00, 0x01, 0xC1, 0x00, 0x00,
+    0x00, 0x01, 0xE1, 0x00, 0x00, 0x00, 0x00, 0x00];
+
+const programMapTable = [0x00, 0x02, 0xB0, 24, 0x00, 0x01, 0xC1, 0x00, 0x00, 0xE1, 0x00, 0xF0, 0x00,
+    0x90, 0xF2, 0x01, 0xF0, 0x06, 0x0A, 0x04, 0x67, 0x65, 0x72, 0x00, 0x00, 0x00, 0x00, 0x00];
+
+// Converts every segment of the sup file into a PES packet.
+const buildTransportStream = (pid: number, includeTables: boolean, timecodePrefix: boolean): ArrayBuffer => {
+    const data = fs.readFileSync(`${__dirname}/files/test.sup`);
+    const packets: number[][] = [];
+    if (includeTables) {
+        packets.push(tsPacket(0x0000, true, programAssociationTable));
+        packets.push(tsPacket(0x0100, true, programMapTable));
+    }
+
+    let position = 0;
+    while (position < data.length) {
+        const presentationTimestamp = data.readUInt32BE(position + 2);
+        const decodingTimestamp = data.readUInt32BE(position + 6);
+        const size = data.readUInt16BE(position + 11);
+        const segment = Array.from(data.subarray(position + 10, position + 13 + size));
+        position += 13 + size;
+
+        const pes = packetize(pid, pesPacket(presentationTimestamp, decodingTimestamp, segment));
+        for (let i = 0; i < pes.length; i += 188) {
+            packets.push(pes.slice(i, i + 188));
+        }
+    }
+
+    const file: number[] = [];
+    for (const packet of packets) {
+        if (timecodePrefix) {
+            file.push(0x00, 0x00, 0x00, 0x00);
+        }
+        file.push(...packet);
+    }
+    return new Uint8Array(file).buffer;
+}
+
+test('read transport stream tracks', async () => {
+    const demuxer = new TransportStreamDemuxer(new Uint8Array(buildTransportStream(0x1201, true, false)));
+    const tracks = await demuxer.readTracks();
+
+    expect(demuxer.packetSize).toBe(188);
+    expect(tracks.length).toBe(1);
+    expect(tracks[0].pid).toBe(0x1201);
+    expect(tracks[0].isPgs).toBe(true);
+    expect(tracks[0].language).toBe('ger');
+});
+
+test('load pgs from transport stream and check timestamps', async () => {
+    const pgs = new Pgs();
+    await pgs.loadFromBuffer(buildTransportStream(0x1201, true, false), {
+        format: SubtitleFormat.transportStream,
+    });
+
+    expect(pgs.updateTimestamps).toEqual([90000, 180000, 270000, 360000]);
+    expect(pgs.displaySets[0].decodingTimestamp).toBe(89946);
+});
+
+test('load pgs from blu-ray transport stream without program tables', async () => {
+    const pgs = new Pgs();
+    await pgs.loadFromBuffer(buildTransportStream(0x1200, false, true), {
+        format: SubtitleFormat.transportStream,
+        pid: 0x1200,
+    });
+
+    expect(pgs.updateTimestamps).toEqual([90000, 180000, 270000, 360000]);
+});
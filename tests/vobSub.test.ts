@@ -0,0 +1,101 @@
+import {Pgs} from "../src/pgs";
+import {SubtitleFormat} from "../src/subtitleFormat";
+import {SubPictureUnit} from "../src/vobsub/subPictureUnit";
+import {VobSubIndex} from "../src/vobsub/vobSubIndex";
+import {RunLengthEncoding} from "../src/utils/runLengthEncoding";
+
+// A 4x2 sub-picture unit at (10, 20): the top line uses pixel value 1, the bottom line uses the values 2 and 3.
+const spuData = new Uint8Array([
+    0x00, 36 /* size */, 0x00, 6 /* control sequence offset */,
+    0x11 /* 4x value 1 */, 0xAB /* 2x value 2, 2x value 3 */,
+    // First control sequence
+    0x00, 0x00 /* delay */, 0x00, 30 /* next sequence */,
+    0x00 /* forced start */,
+    0x03, 0x32, 0x10 /* colors */,
+    0x04, 0xFF, 0xF0 /* alpha */,
+    0x05, 0x00, 0xA0, 0x0D, 0x01, 0x40, 0x15 /* area x: 10-13, y: 20-21 */,
+    0x06, 0x00, 0x04, 0x00, 0x05 /* field offsets */,
+    0xFF,
+    // Second control sequence
+    0x00, 176 /* delay */, 0x00, 30 /* last sequence */,
+    0x02 /* stop */,
+    0xFF,
+]);
+
+const packHeader = [0x00, 0x00, 0x01, 0xBA, 0x44, 0x00, 0x04, 0x00, 0x04, 0x01, 0x01, 0x89, 0xC3, 0xF8];
+const pesHeader = [0x00, 0x00, 0x01, 0xBD, 0x00, 3 + 5 + 1 + spuData.length, 0x81, 0x80, 5,
+    0x21, 0x00, 0x01, 0x00, 0x01, 0x20 /* sub-stream id */];
+const subData = new Uint8Array([...packHeader, ...pesHeader, ...Array.from(spuData)]);
+
+const indexFile = `# VobSub index file, v7 (do not modify this line!)
+size: 720x480
+palette: 000000, ffffff, ff0000, 0000ff, 000000, 000000, 000000, 000000, 000000, 000000, 000000, 000000, 000000, 000000, 000000, 000000
+langidx: 0
+id: en, index: 0
+timestamp: 00:00:01:000, filepos: 000000000
+`;
+
+test('parse vobsub index file', () => {
+    const index = VobSubIndex.parse(indexFile);
+
+    expect(index.width).toBe(720);
+    expect(index.height).toBe(480);
+    expect(index.palette.length).toBe(16);
+    expect(index.palette[2]).toBe(0xFF0000);
+    expect(index.tracks.length).toBe(1);
+    expect(index.tracks[0].language).toBe('en');
+    expect(index.tracks[0].entries[0].timestamp).toBe(1000);
+});
+
+test('decode sub-picture unit', () => {
+    const spu = SubPictureUnit.decode(spuData);
+
+    expect(spu.forced).toBe(true);
+    expect(spu.startDelay).toBe(0);
+    expect(spu.stopDelay).toBe(2002);
+    expect(spu.x).toBe(10);
+    expect(spu.y).toBe(20);
+    expect(spu.width).toBe(4);
+    expect(spu.height).toBe(2);
+    expect(spu.colors).toEqual([0, 1, 2, 3]);
+    expect(spu.alpha).toEqual([0, 15, 15, 15]);
+    expect(Array.from(spu.pixels)).toEqual([1, 1, 1, 1, 2, 2, 3, 3]);
+});
+
+test('stop at control sequences pointing backwards', () => {
+    // The second sequence points back to the first one.
+    const cyclicData = spuData.slice();
+    cyclicData[spuData.length - 4] = 0;
+    cyclicData[spuData.length - 3] = 6;
+    const spu = SubPictureUnit.decode(cyclicData);
+
+    expect(spu.stopDelay).toBe(2002);
+    expect(spu.width).toBe(4);
+});
+
+test('load vobsub as display sets', async () => {
+    const pgs = new Pgs();
+    await pgs.loadFromBuffer(subData.buffer, { format: SubtitleFormat.vobSub, vobSubIndex: indexFile });
+
+    expect(pgs.updateTimestamps).toEqual([90000, 90000 + 2002 * 90]);
+
+    const displaySet = pgs.displaySets[0];
+    const compositionObject = displaySet.presentationComposition!.compositionObjects[0];
+    expect(compositionObject.horizontalPosition).toBe(10);
+    expect(compositionObject.verticalPosition).toBe(20);
+    expect(compositionObject.croppedFlag & 0x40).toBe(0x40);
+    expect(compositionObject.isForced).toBe(true);
+    expect(displaySet.isForced).toBe(true);
+    expect(pgs.getForcedIndices()).toEqual([0]);
+
+    const palette = displaySet.paletteDefinitions[0];
+    expect(palette.entries[0].alpha).toBe(0);
+    expect(palette.entries[1].y).toBe(255);
+
+    const ods = displaySet.objectDefinitions[0];
+    const pixels = new Uint8Array(ods.width * ods.height);
+    RunLengthEncoding.decode(ods.data!, [0, 1, 2, 3], pixels);
+    expect(Array.from(pixels)).toEqual([1, 1, 1, 1, 2, 2, 3, 3]);
+
+    expect(pgs.displaySets[1].presentationComposition!.compositionObjects.length).toBe(0);
+});